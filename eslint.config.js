@@ -1,9 +1,15 @@
+import { readFileSync } from "node:fs";
 import js from "@eslint/js";
 import globals from "globals";
 import reactHooks from "eslint-plugin-react-hooks";
 import reactRefresh from "eslint-plugin-react-refresh";
 import tseslint from "typescript-eslint";
 
+// Variabili dichiarate in AppEnv dal file generato (npm run generate:env)
+const appEnvKeys = [
+  ...readFileSync(new URL("./src/config/env.generated.ts", import.meta.url), "utf-8").matchAll(/^ {2}readonly VITE_(\w+)\?:/gm),
+].map(match => match[1]);
+
 export default tseslint.config(
   { ignores: ["dist"] },
   {
@@ -23,4 +29,24 @@ export default tseslint.config(
       "@typescript-eslint/no-unused-vars": "off",
     },
   },
+  {
+    // vite/client (5.x) tipizza ImportMetaEnv con `[key: string]: any`: una VITE_*
+    // scritta male compilerebbe, quindi si accettano solo quelle generate dallo schema
+    files: ["src/**/*.{ts,tsx}"],
+    rules: {
+      "no-restricted-syntax": [
+        "error",
+        {
+          selector:
+            `MemberExpression[object.type='MemberExpression'][object.object.type='MetaProperty'][object.property.name='env'][property.name=/^VITE_(?!(?:${appEnvKeys.join("|")})$)/]`,
+          message: "Variabile non dichiarata in src/config/env.generated.ts: aggiungila allo schema ed esegui npm run generate:env.",
+        },
+        {
+          selector:
+            "MemberExpression[object.type='MemberExpression'][object.object.type='MetaProperty'][object.property.name='env'][computed=true]",
+          message: "Leggi import.meta.env.VITE_* in forma letterale: import.meta.env[...] non controlla i nomi e inlinea tutte le variabili.",
+        },
+      ],
+    },
+  },
 );
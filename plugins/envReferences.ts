@@ -0,0 +1,45 @@
+import ts from "typescript";
+import { WHOLE_ENV_KEY, inlinedValue, type EnvReference } from "../src/config/envManifest";
+
+const isImportMetaEnv = (node: ts.Node): node is ts.PropertyAccessExpression =>
+  ts.isPropertyAccessExpression(node) &&
+  node.name.text === "env" &&
+  ts.isMetaProperty(node.expression) &&
+  node.expression.keywordToken === ts.SyntaxKind.ImportKeyword;
+
+/**
+ * Trova i riferimenti a `import.meta.env` nel sorgente, come li vede esbuild
+ * quando Vite applica `define`: commenti, stringhe e testo JSX vengono ignorati.
+ */
+export const findEnvReferences = (
+  code: string,
+  file: string,
+  env: Record<string, string | boolean>
+): EnvReference[] => {
+  if (!code.includes("import.meta.env")) return [];
+
+  const kind = /\.[cm]?tsx$|\.jsx$/.test(file) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const source = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true, kind);
+  const references: EnvReference[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (isImportMetaEnv(node)) {
+      const parent = node.parent;
+      const key = ts.isPropertyAccessExpression(parent) && parent.expression === node
+        ? parent.name.text
+        : WHOLE_ENV_KEY;
+      const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source));
+      references.push({
+        key,
+        value: key === WHOLE_ENV_KEY ? null : inlinedValue(env, key),
+        file,
+        line: line + 1,
+        column: character + 1,
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return references;
+};
@@ -0,0 +1,62 @@
+import { loadEnv, type Plugin, type ResolvedConfig } from "vite";
+import { checkBuildEnv, formatEnvReport, type EnvIssue } from "../src/config/envCheck";
+
+export interface EnvCheckPluginOptions {
+  /** Variabili obbligatorie in più, per modalità (es. { production: ["VITE_RUNTIME_CONFIG_URL"] }) */
+  required?: Record<string, string[]>;
+}
+
+/**
+ * Controlla le variabili d'ambiente della modalità attiva (vedi src/config/envCheck.ts).
+ *
+ * Le variabili obbligatorie vengono dallo schema (campi `requiredEnv`) più gli extra
+ * passati nelle opzioni.
+ *
+ * - `vite build`: gli errori fanno fallire la build con un report leggibile
+ * - `vite` (dev): un avviso nel terminale e, una volta per avvio del server,
+ *   nell'overlay di Vite del browser. Si chiude con Esc e la pagina resta usabile
+ */
+export const envCheckPlugin = (options: EnvCheckPluginOptions = {}): Plugin => {
+  let config: ResolvedConfig;
+  let issues: EnvIssue[] = [];
+
+  return {
+    name: "environment-manager:env-check",
+
+    configResolved(resolved) {
+      config = resolved;
+      issues = checkBuildEnv({
+        mode: resolved.mode,
+        env: loadEnv(resolved.mode, resolved.envDir, resolved.envPrefix),
+        envPrefix: resolved.envPrefix,
+        required: options.required,
+      });
+    },
+
+    buildStart() {
+      if (config.command !== "build" || issues.length === 0) return;
+      const report = formatEnvReport(config.mode, issues);
+      if (issues.some(issue => issue.severity === "error")) {
+        this.error(report);
+      }
+      this.warn(report);
+    },
+
+    configureServer(server) {
+      if (issues.length === 0) return;
+      const report = formatEnvReport(config.mode, issues);
+      config.logger.warn(`\n${report}\n`);
+
+      // Solo alla prima pagina che si collega: ricaricare non ripropone l'overlay
+      let notified = false;
+      server.ws.on("connection", () => {
+        if (notified) return;
+        notified = true;
+        server.ws.send({
+          type: "error",
+          err: { message: report, stack: "", plugin: "environment-manager:env-check" },
+        });
+      });
+    },
+  };
+};
@@ -0,0 +1,71 @@
+import path from "path";
+import type { Plugin, ResolvedConfig } from "vite";
+import { ENV_MANIFEST_FILE, createEnvManifest, type EnvReference } from "../src/config/envManifest";
+import { findEnvReferences } from "./envReferences";
+
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/;
+
+/**
+ * Registra ogni `import.meta.env.*` che il build sostituisce con un valore
+ * e scrive il manifest accanto al bundle (vedi src/config/envManifest.ts).
+ *
+ * - `vite build`: dist/env-manifest.json, solo per i moduli finiti nel bundle
+ * - `vite` (dev): lo stesso JSON servito al volo, con i moduli caricati finora.
+ *   In sviluppo però i valori non vengono inlineati: arrivano da un oggetto condiviso
+ */
+export const envManifestPlugin = (): Plugin => {
+  let config: ResolvedConfig;
+  const referencesById = new Map<string, EnvReference[]>();
+
+  const manifestFor = (ids: Iterable<string>) =>
+    createEnvManifest({
+      mode: config.mode,
+      command: config.command,
+      env: config.env,
+      references: [...ids].flatMap(id => referencesById.get(id) ?? []),
+    });
+
+  return {
+    name: "environment-manager:env-manifest",
+    // Prima di vite:define, quando il sorgente contiene ancora import.meta.env
+    enforce: "pre",
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    buildStart() {
+      referencesById.clear();
+    },
+
+    transform(code, id) {
+      const file = id.split("?")[0];
+      if (id.startsWith("\0") || file.includes("/node_modules/") || !SOURCE_FILE.test(file)) return;
+
+      const relative = path.relative(config.root, file).split(path.sep).join("/");
+      const references = findEnvReferences(code, relative, config.env);
+      if (references.length > 0) {
+        referencesById.set(id, references);
+      } else {
+        referencesById.delete(id);
+      }
+    },
+
+    generateBundle(_options, bundle) {
+      const bundledIds = Object.values(bundle).flatMap(item => (item.type === "chunk" ? item.moduleIds : []));
+      const manifest = manifestFor(bundledIds);
+      this.emitFile({
+        type: "asset",
+        fileName: ENV_MANIFEST_FILE,
+        source: `${JSON.stringify(manifest, null, 2)}\n`,
+      });
+    },
+
+    configureServer(server) {
+      server.middlewares.use(`${config.base}${ENV_MANIFEST_FILE}`, (_req, res) => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(manifestFor(referencesById.keys())));
+      });
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Connect, Plugin } from "vite";
+import { MOCK_BACKEND_BASE, createMockBackend } from "../src/config/mockBackend";
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise(resolve => {
+    let raw = "";
+    req.on("data", chunk => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch {
+        resolve(undefined);
+      }
+    });
+  });
+
+/**
+ * Backend finto per gli health check (vedi src/config/mockBackend.ts),
+ * servito sia da `vite` che da `vite preview` su /__mock-backend.
+ * Lo stato dei disservizi vive in memoria finché il server resta acceso.
+ */
+export const mockBackendPlugin = (): Plugin => {
+  const backend = createMockBackend();
+
+  const middleware: Connect.NextHandleFunction = async (req: IncomingMessage, res: ServerResponse) => {
+    const method = req.method ?? "GET";
+    const path = (req.url ?? "/").split("?")[0];
+    const body = method === "POST" ? await readJson(req) : undefined;
+    const response = backend.handle(method, path, body);
+
+    setTimeout(() => {
+      res.statusCode = response.status;
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Cache-Control", "no-store");
+      res.end(JSON.stringify(response.body));
+    }, response.delayMs);
+  };
+
+  return {
+    name: "environment-manager:mock-backend",
+
+    configureServer(server) {
+      server.middlewares.use(MOCK_BACKEND_BASE, middleware);
+    },
+
+    configurePreviewServer(server) {
+      server.middlewares.use(MOCK_BACKEND_BASE, middleware);
+    },
+  };
+};
@@ -0,0 +1,11 @@
+/**
+ * Rigenera src/config/env.generated.ts a partire dallo schema della configurazione.
+ *
+ *   npm run generate:env
+ */
+
+import { writeFileSync } from 'node:fs';
+import { GENERATED_ENV_TYPES_PATH, renderEnvTypes } from '../src/config/envTypes';
+
+writeFileSync(GENERATED_ENV_TYPES_PATH, renderEnvTypes());
+console.log(`✓ ${GENERATED_ENV_TYPES_PATH} aggiornato`);
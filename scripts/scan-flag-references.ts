@@ -0,0 +1,50 @@
+/**
+ * Cerca le chiamate ai feature flag in src/ e rigenera src/config/flagReferences.generated.ts.
+ * Stampa i flag inesistenti usati nel codice (ed esce con errore), quelli mai usati
+ * e le chiamate con un id dinamico da verificare a mano.
+ *
+ *   npm run scan:flags
+ */
+
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { featureFlags } from '../src/config/featureFlags';
+import {
+  FLAG_REFERENCES_PATH,
+  createHygieneReport,
+  isFlagSourceFile,
+  renderFlagReferences,
+  scanFlagReferences,
+} from '../src/config/flagHygiene';
+
+const files = readdirSync('src', { recursive: true, encoding: 'utf-8' })
+  .map(file => path.join('src', file).split(path.sep).join('/'))
+  .filter(isFlagSourceFile)
+  .map(file => ({ file, code: readFileSync(file, 'utf-8') }));
+
+const references = scanFlagReferences(files);
+writeFileSync(FLAG_REFERENCES_PATH, renderFlagReferences(references));
+console.log(`✓ ${FLAG_REFERENCES_PATH} aggiornato: ${references.length} chiamate in ${files.length} file`);
+
+const issues = createHygieneReport(featureFlags, { now: new Date(), references });
+
+const unknown = issues.filter(issue => issue.kind === 'unknown-reference');
+unknown.forEach(issue => {
+  console.error(`✖ "${issue.flagId}" non esiste nel registro`);
+  issue.references.forEach(reference => {
+    console.error(`    ${reference.file}:${reference.line}:${reference.column}  ${reference.call}`);
+  });
+});
+
+issues
+  .filter(issue => issue.kind === 'unreferenced')
+  .forEach(issue => console.warn(`⚠ "${issue.flagId}" non è usato nel codice`));
+
+issues
+  .filter(issue => issue.kind === 'dynamic-reference')
+  .flatMap(issue => issue.references)
+  .forEach(reference => {
+    console.warn(`⚠ id dinamico: ${reference.file}:${reference.line}:${reference.column}  ${reference.call}(${reference.expression})`);
+  });
+
+if (unknown.length > 0) process.exit(1);
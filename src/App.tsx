@@ -8,12 +8,15 @@ import IntroPage from "./pages/IntroPage";
 import SimulatorPage from "./pages/SimulatorPage";
 import WhyNotHardcodePage from "./pages/WhyNotHardcodePage";
 import ConfigPage from "./pages/ConfigPage";
+import ConfigDiffPage from "./pages/ConfigDiffPage";
 import FeatureFlagsPage from "./pages/FeatureFlagsPage";
 import EnvironmentsPage from "./pages/EnvironmentsPage";
 import CICDPage from "./pages/CICDPage";
 import ABTestingPage from "./pages/ABTestingPage";
 import LogsPage from "./pages/LogsPage";
 import SecretsPage from "./pages/SecretsPage";
+import BuildManifestPage from "./pages/BuildManifestPage";
+import FlagHygienePage from "./pages/FlagHygienePage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,12 +33,15 @@ const App = () => (
             <Route path="/simulator" element={<SimulatorPage />} />
             <Route path="/why-not-hardcode" element={<WhyNotHardcodePage />} />
             <Route path="/config" element={<ConfigPage />} />
+            <Route path="/config/diff" element={<ConfigDiffPage />} />
             <Route path="/feature-flags" element={<FeatureFlagsPage />} />
+            <Route path="/feature-flags/hygiene" element={<FlagHygienePage />} />
             <Route path="/environments" element={<EnvironmentsPage />} />
             <Route path="/cicd" element={<CICDPage />} />
             <Route path="/ab-testing" element={<ABTestingPage />} />
             <Route path="/logs" element={<LogsPage />} />
             <Route path="/secrets" element={<SecretsPage />} />
+            <Route path="/build-manifest" element={<BuildManifestPage />} />
           </Route>
           <Route path="*" element={<NotFound />} />
         </Routes>
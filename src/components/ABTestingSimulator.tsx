@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { FlaskConical, Users, TrendingUp, BarChart3, Play, RotateCcw, Percent } from 'lucide-react';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { useSimulationParam } from '@/hooks/use-simulation-param';
+import { getEnvironmentDefinition } from '@/config/environments';
 
 /**
  * 🧪 A/B TESTING SIMULATOR
@@ -69,9 +71,13 @@ const experiments: Experiment[] = [
   },
 ];
 
+// Esperimento condivisibile via URL: /ab-testing?experiment=pricing-display
+const isExperimentId = (value: string): value is string => experiments.some(exp => exp.id === value);
+
 const ABTestingSimulator = () => {
   const { currentEnvironment } = useEnvironment();
-  const [selectedExperiment, setSelectedExperiment] = useState<Experiment>(experiments[0]);
+  const [experimentId, setExperimentId] = useSimulationParam('experiment', experiments[0].id, isExperimentId);
+  const selectedExperiment = experiments.find(exp => exp.id === experimentId) ?? experiments[0];
   const [isSimulating, setIsSimulating] = useState(false);
   const [totalUsers, setTotalUsers] = useState(0);
   const [results, setResults] = useState<ExperimentResult[]>([]);
@@ -159,13 +165,14 @@ const ABTestingSimulator = () => {
   const winner = getWinningVariant();
 
   const getEnvironmentNote = () => {
-    switch (currentEnvironment) {
+    const { displayName, stage } = getEnvironmentDefinition(currentEnvironment);
+    switch (stage) {
       case 'development':
-        return '🔧 In development, i test A/B sono disabilitati per default';
-      case 'staging':
-        return '🧪 In staging, puoi testare la logica A/B con utenti fake';
+        return `🔧 In ${displayName}, i test A/B sono disabilitati per default`;
+      case 'pre-production':
+        return `🧪 In ${displayName}, puoi testare la logica A/B con utenti fake`;
       case 'production':
-        return '🚀 In production, i test A/B sono attivi con utenti reali';
+        return `🚀 In ${displayName}, i test A/B sono attivi con utenti reali`;
     }
   };
 
@@ -195,7 +202,7 @@ const ABTestingSimulator = () => {
             <button
               key={exp.id}
               onClick={() => {
-                setSelectedExperiment(exp);
+                setExperimentId(exp.id);
                 setIsSimulating(false);
               }}
               className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
@@ -2,6 +2,7 @@ import {
   Play, 
   AlertTriangle, 
   Settings, 
+  GitCompare, 
   Flag, 
   GitBranch, 
   RefreshCw, 
@@ -9,6 +10,8 @@ import {
   Terminal, 
   KeyRound,
   BookOpen,
+  PackageSearch,
+  Brush,
   Home
 } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
@@ -52,12 +55,24 @@ const menuItems = [
     icon: Settings,
     description: "Valori per ambiente"
   },
+  { 
+    title: "Confronto Ambienti", 
+    url: "/config/diff", 
+    icon: GitCompare,
+    description: "Differenze chiave per chiave"
+  },
   { 
     title: "Feature Flags", 
     url: "/feature-flags", 
     icon: Flag,
     description: "Toggle delle funzionalità"
   },
+  { 
+    title: "Igiene dei Flag", 
+    url: "/feature-flags/hygiene", 
+    icon: Brush,
+    description: "Flag scaduti e mai usati"
+  },
   { 
     title: "Pipeline Ambienti", 
     url: "/environments", 
@@ -88,6 +103,12 @@ const menuItems = [
     icon: KeyRound,
     description: "Gestione credenziali"
   },
+  { 
+    title: "Manifest di Build", 
+    url: "/build-manifest", 
+    icon: PackageSearch,
+    description: "Valori inlineati nel bundle"
+  },
 ];
 
 export function AppSidebar() {
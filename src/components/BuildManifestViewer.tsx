@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PackageSearch, FileCode, AlertTriangle, Info, Search } from 'lucide-react';
+import {
+  ENV_MANIFEST_FILE,
+  WHOLE_ENV_KEY,
+  groupReferencesByKey,
+  loadEnvManifest,
+  type EnvManifest,
+  type InlinedValue,
+} from '@/config/envManifest';
+import { checkExposedVariable } from '@/config/leakCheck';
+import { maskSecretValue } from '@/config/secrets';
+
+/**
+ * 📦 BUILD MANIFEST VIEWER
+ *
+ * Mostra il manifest scritto dal plugin vite-plugin-env-manifest:
+ * per ogni variabile il valore inlineato e i punti del codice che la usano.
+ */
+
+type ManifestState =
+  | { status: 'loading' }
+  | { status: 'ready'; manifest: EnvManifest }
+  | { status: 'error'; error: Error };
+
+const manifestUrl = `${import.meta.env.BASE_URL}${ENV_MANIFEST_FILE}`;
+
+const formatValue = (key: string, value: InlinedValue) => {
+  if (value === null) return 'undefined';
+  if (typeof value === 'boolean') return String(value);
+  // Un segreto finito nel bundle va segnalato, non mostrato una seconda volta
+  return checkExposedVariable(key, value)?.severity === 'critical' ? maskSecretValue(value) : JSON.stringify(value);
+};
+
+const BuildManifestViewer = () => {
+  const [state, setState] = useState<ManifestState>({ status: 'loading' });
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEnvManifest(manifestUrl)
+      .then(manifest => {
+        if (!cancelled) setState({ status: 'ready', manifest });
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setState({ status: 'error', error });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const manifest = state.status === 'ready' ? state.manifest : null;
+  const usages = useMemo(() => {
+    if (!manifest) return [];
+    const needle = query.trim().toLowerCase();
+    return groupReferencesByKey(manifest).filter(usage =>
+      !needle ||
+      usage.key.toLowerCase().includes(needle) ||
+      usage.references.some(reference => reference.file.toLowerCase().includes(needle))
+    );
+  }, [manifest, query]);
+
+  const fileCount = manifest ? new Set(manifest.references.map(reference => reference.file)).size : 0;
+
+  return (
+    <Card className="glass-card overflow-hidden">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gradient-to-br from-primary/20 to-accent/20">
+            <PackageSearch className="w-5 h-5 text-primary" />
+          </div>
+          <span>Valori inlineati dal build</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-2">
+          Ogni <code className="font-mono text-primary">import.meta.env.*</code> sostituito con il suo valore,
+          letto da <code className="font-mono">{manifestUrl}</code>
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-4">
+        {state.status === 'loading' && (
+          <p className="text-sm text-muted-foreground">Caricamento manifest...</p>
+        )}
+
+        {state.status === 'error' && (
+          <div className="p-4 rounded-lg bg-warning/10 border border-warning/30 text-sm space-y-1">
+            <div className="flex items-center gap-2 text-warning font-medium">
+              <AlertTriangle className="w-4 h-4" />
+              Manifest non disponibile
+            </div>
+            <p className="text-muted-foreground text-xs">{state.error.message}</p>
+            <p className="text-muted-foreground text-xs">
+              Viene generato da <code className="font-mono">vite build</code>: prova con{' '}
+              <code className="font-mono text-primary">npm run build && npm run preview</code>
+            </p>
+          </div>
+        )}
+
+        {manifest && (
+          <>
+            <div className="flex flex-wrap gap-3 text-xs">
+              <span className="px-2 py-1 rounded bg-primary/10 text-primary">modalità {manifest.mode}</span>
+              <span className="px-2 py-1 rounded bg-muted/30">
+                {new Date(manifest.generatedAt).toLocaleString('it-IT')}
+              </span>
+              <span className="px-2 py-1 rounded bg-muted/30">{manifest.references.length} riferimenti</span>
+              <span className="px-2 py-1 rounded bg-muted/30">{fileCount} file</span>
+            </div>
+
+            {manifest.command === 'serve' && (
+              <div className="p-3 rounded-lg bg-primary/10 border border-primary/30 text-xs text-primary flex items-start gap-2">
+                <Info className="w-4 h-4 shrink-0" />
+                In sviluppo i valori non vengono inlineati: l'elenco mostra i moduli caricati finora
+                e i valori che un build in questa modalità userebbe.
+              </div>
+            )}
+
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Filtra per variabile o file..."
+                className="w-full pl-9 pr-3 py-2 rounded-lg bg-background/50 border border-white/10 text-sm focus:outline-none focus:border-primary/50"
+              />
+            </div>
+
+            <div className="space-y-2">
+              {usages.map(usage => (
+                <div key={usage.key} className="p-3 rounded-lg bg-muted/20 border border-border">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <code className="font-mono text-sm text-foreground">
+                      {usage.key === WHOLE_ENV_KEY ? 'import.meta.env' : usage.key}
+                    </code>
+                    {usage.key === WHOLE_ENV_KEY ? (
+                      <span className="text-xs text-warning">
+                        oggetto intero: inlinea tutte le {Object.keys(manifest.env).length} variabili
+                      </span>
+                    ) : (
+                      <code className={`font-mono text-xs ${usage.value === null ? 'text-warning' : 'text-success'}`}>
+                        {formatValue(usage.key, usage.value)}
+                      </code>
+                    )}
+                  </div>
+                  <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+                    {usage.references.map(reference => (
+                      <li key={`${reference.file}:${reference.line}:${reference.column}`} className="flex items-center gap-1">
+                        <FileCode className="w-3 h-3" />
+                        <span className="font-mono">{reference.file}:{reference.line}:{reference.column}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {usages.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nessun riferimento trovato</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BuildManifestViewer;
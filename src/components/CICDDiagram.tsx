@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { GitBranch, Code, TestTube, Package, Rocket, CheckCircle, ArrowRight, RefreshCw } from 'lucide-react';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { getEnvironmentDefinition } from '@/config/environments';
 
 /**
  * CICDDiagram - Diagramma animato del flusso CI/CD
@@ -102,18 +103,8 @@ const CICDDiagram = () => {
     return () => clearInterval(interval);
   }, [isRunning]);
 
-  const getEnvironmentBranch = () => {
-    switch (currentEnvironment) {
-      case 'development':
-        return { branch: 'feature/*', target: 'Dev Server' };
-      case 'staging':
-        return { branch: 'develop', target: 'Staging Server' };
-      case 'production':
-        return { branch: 'main', target: 'Production Server' };
-    }
-  };
-
-  const envInfo = getEnvironmentBranch();
+  const { pipeline } = getEnvironmentDefinition(currentEnvironment);
+  const envInfo = { branch: pipeline.branch, target: pipeline.target };
 
   return (
     <Card className="glass-card overflow-hidden">
@@ -311,13 +302,13 @@ const CICDDiagram = () => {
             <div>
               <span className="text-muted-foreground">Auto-deploy:</span>
               <p className="font-mono text-success">
-                {currentEnvironment === 'production' ? 'No (manual)' : 'Sì'}
+                {pipeline.autoDeploy ? 'Sì' : 'No (manual)'}
               </p>
             </div>
             <div>
               <span className="text-muted-foreground">Approval:</span>
               <p className="font-mono text-warning">
-                {currentEnvironment === 'production' ? 'Richiesta' : 'Auto'}
+                {pipeline.requiresApproval ? 'Richiesta' : 'Auto'}
               </p>
             </div>
           </div>
@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { GitCompare, ArrowLeftRight, AlertTriangle, ShieldAlert, CheckCircle } from 'lucide-react';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { environments } from '@/config/environments';
+import { compareEnvironments, type ConfigDiffStatus, type ConfigRiskPresence } from '@/config/configDiff';
+
+/**
+ * 🔀 CONFIG DIFF
+ *
+ * Mette a confronto due ambienti affiancati, chiave per chiave,
+ * invece di doverli guardare uno alla volta dal simulatore.
+ * In fondo riassume i valori rischiosi (es. debugMode attivo in un
+ * ambiente che non è development), indicando quale ambiente li introduce
+ * e quali sono comuni a entrambi.
+ */
+
+const statusStyles: Record<ConfigDiffStatus, { row: string; label: string; text: string }> = {
+  unchanged: { row: 'bg-muted/10 border-border', label: 'uguale', text: 'text-muted-foreground' },
+  changed: { row: 'bg-warning/10 border-warning/30', label: 'modificato', text: 'text-warning' },
+  added: { row: 'bg-success/10 border-success/30', label: 'aggiunto', text: 'text-success' },
+  removed: { row: 'bg-destructive/10 border-destructive/30', label: 'rimosso', text: 'text-destructive' },
+};
+
+const formatValue = (value: unknown): string => (value === undefined ? '—' : String(value));
+
+const presenceLabels: Record<ConfigRiskPresence, string> = {
+  left: 'solo a sinistra',
+  right: 'solo a destra',
+  both: 'in entrambi',
+};
+
+const ConfigDiff = () => {
+  const { configs } = useEnvironment();
+  const [left, setLeft] = useState('staging');
+  const [right, setRight] = useState('production');
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  const diff = useMemo(() => compareEnvironments(left, right, configs), [left, right, configs]);
+  const visibleEntries = diff.entries.filter(entry => !onlyDifferences || entry.status !== 'unchanged');
+
+  const swap = () => {
+    setLeft(right);
+    setRight(left);
+  };
+
+  const renderSelect = (value: string, onChange: (env: string) => void, label: string) => (
+    <label className="flex-1 space-y-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 rounded-lg bg-background/50 border border-white/10 text-sm focus:outline-none focus:border-primary/50"
+      >
+        {environments.map(env => (
+          <option key={env.id} value={env.id}>{env.displayName}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <Card className="glass-card overflow-hidden">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gradient-to-br from-primary/20 to-accent/20">
+            <GitCompare className="w-5 h-5 text-primary" />
+          </div>
+          <span>Confronto configurazioni</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-2">
+          Scegli due ambienti e guarda cosa cambia tra l'uno e l'altro
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-6">
+        {/* Selettori */}
+        <div className="flex items-end gap-3">
+          {renderSelect(left, setLeft, 'Da')}
+          <button
+            onClick={swap}
+            className="p-2 mb-0.5 rounded-lg bg-muted/30 hover:bg-muted/50 transition-all"
+            title="Inverti"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+          {renderSelect(right, setRight, 'A')}
+        </div>
+
+        {/* Riepilogo */}
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {(['changed', 'added', 'removed', 'unchanged'] as const).map(status => (
+            <span key={status} className={`px-2 py-1 rounded border ${statusStyles[status].row} ${statusStyles[status].text}`}>
+              {diff.summary[status]} {statusStyles[status].label}
+            </span>
+          ))}
+          <label className="ml-auto flex items-center gap-2 text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onlyDifferences}
+              onChange={(e) => setOnlyDifferences(e.target.checked)}
+            />
+            Solo differenze
+          </label>
+        </div>
+
+        {/* Tabella affiancata */}
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1.2fr_1fr_1fr_auto] gap-3 px-3 text-xs text-muted-foreground">
+            <span>Chiave</span>
+            <span>{left}</span>
+            <span>{right}</span>
+            <span className="w-20 text-right">Stato</span>
+          </div>
+          {visibleEntries.map(entry => {
+            const style = statusStyles[entry.status];
+            return (
+              <div
+                key={entry.path}
+                className={`grid grid-cols-[1.2fr_1fr_1fr_auto] gap-3 items-center p-3 rounded-lg border font-mono text-xs ${style.row}`}
+              >
+                <span className="text-foreground truncate">{entry.path}</span>
+                <span className={entry.status === 'removed' || entry.status === 'changed' ? style.text : 'text-muted-foreground'}>
+                  {formatValue(entry.left)}
+                </span>
+                <span className={entry.status === 'added' || entry.status === 'changed' ? style.text : 'text-muted-foreground'}>
+                  {formatValue(entry.right)}
+                </span>
+                <span className={`w-20 text-right font-sans ${style.text}`}>{style.label}</span>
+              </div>
+            );
+          })}
+          {visibleEntries.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Nessuna differenza: le due configurazioni coincidono.
+            </p>
+          )}
+        </div>
+
+        {/* Differenze rischiose */}
+        {diff.risks.length > 0 ? (
+          <div className="p-4 rounded-xl bg-destructive/5 border border-destructive/30 space-y-2">
+            <div className="flex items-center gap-2 text-destructive">
+              <ShieldAlert className="w-4 h-4" />
+              <span className="font-medium text-sm">Valori rischiosi</span>
+            </div>
+            <ul className="space-y-1 text-xs">
+              {diff.risks.map(risk => (
+                <li key={`${risk.presence}:${risk.environment}:${risk.path}`} className="flex items-start gap-2">
+                  <AlertTriangle className={`w-3.5 h-3.5 shrink-0 mt-0.5 ${
+                    risk.severity === 'critical' ? 'text-destructive' : 'text-warning'
+                  }`} />
+                  <span className="text-muted-foreground">
+                    <strong className="text-foreground">{risk.environment}</strong>{' '}
+                    <code className="font-mono text-foreground">{risk.path}</code>: {risk.message}
+                  </span>
+                  <span className={`ml-auto shrink-0 px-1.5 rounded ${
+                    risk.presence === 'both' ? 'bg-muted/30 text-muted-foreground' : 'bg-destructive/10 text-destructive'
+                  }`}>
+                    {presenceLabels[risk.presence]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="p-4 rounded-xl bg-success/10 border border-success/30 flex items-center gap-2 text-sm text-success">
+            <CheckCircle className="w-4 h-4" />
+            Nessun valore rischioso in questi due ambienti
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConfigDiff;
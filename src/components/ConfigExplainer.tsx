@@ -1,18 +1,22 @@
 import { useState } from 'react';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { redundantOverrides } from '@/config/environment';
+import { SCHEMA_DEFAULT_LAYER } from '@/config/layers';
+import { getAtPath } from '@/config/schema';
+import { readConfigValue, type ConfigKey } from '@/config/env.generated';
+import { findSecretReferences, maskSecretValue } from '@/config/secrets';
 import { 
   Code, AlertTriangle, CheckCircle, Info, HelpCircle, 
   Server, Bug, BarChart3, Shield, FlaskConical, Zap,
-  ChevronDown, Lightbulb
+  ChevronDown, Lightbulb, Layers, KeyRound
 } from 'lucide-react';
 
 interface ConfigItem {
-  key: string;
+  key: ConfigKey; // Percorso puntato della chiave in EnvironmentConfig
   label: string;
   icon: React.ReactNode;
   description: string;
   example: string;
-  getValue: (config: any) => string | boolean;
   isBoolean?: boolean;
 }
 
@@ -23,7 +27,6 @@ const configItems: ConfigItem[] = [
     icon: <Server className="w-4 h-4" />,
     description: "L'indirizzo del server che fornisce i dati all'app. Cambia in base all'ambiente.",
     example: "In development punti al tuo PC (localhost), in production al server vero.",
-    getValue: (config) => config.apiUrl,
   },
   {
     key: 'debugMode',
@@ -31,7 +34,6 @@ const configItems: ConfigItem[] = [
     icon: <Bug className="w-4 h-4" />,
     description: "Mostra informazioni extra per trovare errori. Solo per sviluppatori!",
     example: "È come il 'dietro le quinte' di un film: utile per chi crea, non per chi guarda.",
-    getValue: (config) => config.debugMode,
     isBoolean: true,
   },
   {
@@ -40,39 +42,35 @@ const configItems: ConfigItem[] = [
     icon: <Code className="w-4 h-4" />,
     description: "Quanti dettagli salvare nei log. 'debug' = tutto, 'error' = solo problemi gravi.",
     example: "Come il volume della musica: in casa puoi alzarlo, al cinema deve essere perfetto.",
-    getValue: (config) => config.logLevel,
   },
   {
-    key: 'analytics',
+    key: 'features.analytics',
     label: 'Analytics',
     icon: <BarChart3 className="w-4 h-4" />,
     description: "Traccia come gli utenti usano l'app (click, pagine visitate, etc.).",
     example: "Tipo Google Analytics: conta quante persone visitano e cosa fanno.",
-    getValue: (config) => config.features.analytics,
     isBoolean: true,
   },
   {
-    key: 'errorReporting',
+    key: 'features.errorReporting',
     label: 'Error Reporting',
     icon: <Shield className="w-4 h-4" />,
     description: "Invia automaticamente gli errori a servizi come Sentry per essere notificati.",
     example: "Come un allarme antifurto: ti avvisa appena qualcosa va storto.",
-    getValue: (config) => config.features.errorReporting,
     isBoolean: true,
   },
   {
-    key: 'experimentalFeatures',
+    key: 'features.experimentalFeatures',
     label: 'Experimental Features',
     icon: <FlaskConical className="w-4 h-4" />,
     description: "Funzioni nuove non ancora pronte per tutti. Potrebbero avere bug!",
     example: "Come la versione beta di un videogioco: puoi provarlo in anteprima.",
-    getValue: (config) => config.features.experimentalFeatures,
     isBoolean: true,
   },
 ];
 
 const ConfigExplainer = () => {
-  const { config, currentEnvironment } = useEnvironment();
+  const { config, rawConfig, currentEnvironment, provenance, layerChain } = useEnvironment();
   const [expandedItem, setExpandedItem] = useState<string | null>(null);
   const [showCodeExample, setShowCodeExample] = useState(false);
 
@@ -80,6 +78,9 @@ const ConfigExplainer = () => {
     setExpandedItem(expandedItem === key ? null : key);
   };
 
+  // Override inutili che riguardano i livelli dell'ambiente corrente
+  const redundantInChain = redundantOverrides.filter(override => layerChain.includes(override.layer));
+
   return (
     <div className="glass-card p-6 overflow-hidden">
       {/* Header animato */}
@@ -92,6 +93,10 @@ const ConfigExplainer = () => {
           <p className="text-sm text-muted-foreground">
             Valori caricati per l'ambiente: <span className="text-primary font-medium">{currentEnvironment}</span>
           </p>
+          <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+            <Layers className="w-3 h-3" />
+            Livelli: <code className="font-mono text-accent">{layerChain.join(' → ')}</code>
+          </p>
         </div>
       </div>
 
@@ -118,11 +123,13 @@ const ConfigExplainer = () => {
       {/* Config values con animazioni staggered */}
       <div className="space-y-3 mb-6">
         {configItems.map((item, index) => {
-          const rawValue = item.getValue(config);
+          const rawValue = readConfigValue(config, item.key);
           const isExpanded = expandedItem === item.key;
+          // Valori che citano un secret: mostriamo il risultato, ma mascherato
+          const secretKeys = findSecretReferences(getAtPath(rawConfig, item.key));
           const displayValue = item.isBoolean 
             ? (rawValue ? 'Attivo' : 'Disattivo')
-            : String(rawValue);
+            : secretKeys.length > 0 ? maskSecretValue(String(rawValue)) : String(rawValue);
           
           return (
             <div 
@@ -148,6 +155,16 @@ const ConfigExplainer = () => {
                     <span className="text-sm font-medium text-foreground">{item.label}</span>
                   </div>
                   <div className="flex items-center gap-3">
+                    <span
+                      className={`hidden sm:inline text-xs font-mono px-2 py-0.5 rounded ${
+                        provenance[item.key] === currentEnvironment
+                          ? 'bg-primary/10 text-primary'
+                          : 'bg-muted text-muted-foreground'
+                      }`}
+                      title="Livello da cui proviene il valore"
+                    >
+                      {provenance[item.key] === SCHEMA_DEFAULT_LAYER ? 'default' : provenance[item.key]}
+                    </span>
                     {item.isBoolean ? (
                       <div className="flex items-center gap-2">
                         <div className={`w-2 h-2 rounded-full transition-all duration-300 ${
@@ -162,7 +179,11 @@ const ConfigExplainer = () => {
                         </span>
                       </div>
                     ) : (
-                      <code className="text-sm font-mono text-primary bg-primary/10 px-2 py-1 rounded">
+                      <code
+                        className="flex items-center gap-1 text-sm font-mono text-primary bg-primary/10 px-2 py-1 rounded"
+                        title={secretKeys.length > 0 ? `Risolto da ${String(getAtPath(rawConfig, item.key))}` : undefined}
+                      >
+                        {secretKeys.length > 0 && <KeyRound className="w-3 h-3 text-warning" />}
                         {displayValue}
                       </code>
                     )}
@@ -179,6 +200,15 @@ const ConfigExplainer = () => {
               }`}>
                 <div className="p-4 rounded-xl bg-muted/20 border border-border ml-4 border-l-2 border-l-primary">
                   <p className="text-sm text-foreground mb-2">{item.description}</p>
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Provenienza: <code className="font-mono text-accent">{provenance[item.key]}</code>
+                    {provenance[item.key] !== currentEnvironment && ' (ereditato)'}
+                  </p>
+                  {secretKeys.length > 0 && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      Secret: <code className="font-mono text-warning">{secretKeys.join(', ')}</code> (risolto per {currentEnvironment})
+                    </p>
+                  )}
                   <div className="flex items-start gap-2 text-xs text-accent">
                     <span>💡</span>
                     <span className="italic">{item.example}</span>
@@ -190,6 +220,25 @@ const ConfigExplainer = () => {
         })}
       </div>
 
+      {/* Override ridondanti */}
+      {redundantInChain.length > 0 && (
+        <div className="p-4 rounded-xl bg-warning/10 border border-warning/30 mb-6">
+          <div className="flex items-center gap-2 mb-2 text-warning">
+            <AlertTriangle className="w-4 h-4" />
+            <span className="font-medium text-sm">Override ridondanti</span>
+          </div>
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {redundantInChain.map(override => (
+              <li key={`${override.layer}:${override.path}`}>
+                <code className="font-mono text-foreground">{override.layer}.{override.path}</code> ripete il valore{' '}
+                <code className="font-mono">{String(override.value)}</code> già ereditato da{' '}
+                <code className="font-mono">{override.inheritedFrom}</code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Toggle per esempi di codice */}
       <button
         onClick={() => setShowCodeExample(!showCodeExample)}
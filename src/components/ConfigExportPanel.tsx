@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Download, FileCode, Copy, CheckCircle } from 'lucide-react';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { environments } from '@/config/environments';
+import { exportConfig, exportFormats, type ExportFormat } from '@/config/configExport';
+import { resolveConfigSecrets, secretExportEntries } from '@/config/secrets';
+
+/**
+ * 📦 CONFIG EXPORT PANEL
+ *
+ * Trasforma la configurazione di un ambiente nei file che servono
+ * davvero per il deploy (.env, Kubernetes, Helm, Terraform...),
+ * con anteprima e download.
+ */
+
+const ConfigExportPanel = () => {
+  const { configs, config, currentEnvironment } = useEnvironment();
+  const [environment, setEnvironment] = useState(currentEnvironment);
+  const [format, setFormat] = useState<ExportFormat>('dotenv');
+  const [copied, setCopied] = useState(false);
+
+  // Per l'ambiente corrente usiamo la config effettiva (incluse le sovrascritture a runtime).
+  // I secrets dell'ambiente vanno nelle sezioni dedicate (Secret Kubernetes, "secrets" di Helm...);
+  // JSON e YAML li ignorano perché sono la config pubblica letta a runtime
+  const artifact = useMemo(
+    () => exportConfig(format, {
+      environment,
+      config: environment === currentEnvironment ? config : resolveConfigSecrets(configs[environment], environment),
+      extra: secretExportEntries(environment),
+    }),
+    [format, environment, currentEnvironment, config, configs]
+  );
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([artifact.content], { type: artifact.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = artifact.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyToClipboard = async () => {
+    await navigator.clipboard.writeText(artifact.content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card className="glass-card overflow-hidden">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gradient-to-br from-primary/20 to-accent/20">
+            <FileCode className="w-5 h-5 text-primary" />
+          </div>
+          <span>Esporta configurazione</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-2">
+          Genera i file per il deploy a partire dai valori di un ambiente
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={environment}
+            onChange={(e) => setEnvironment(e.target.value)}
+            className="px-3 py-1.5 rounded-lg bg-background/50 border border-white/10 text-xs focus:outline-none focus:border-primary/50"
+          >
+            {environments.map(env => (
+              <option key={env.id} value={env.id}>{env.displayName}</option>
+            ))}
+          </select>
+          {exportFormats.map(item => (
+            <button
+              key={item.id}
+              onClick={() => setFormat(item.id)}
+              title={item.description}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                format === item.id
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted/30 hover:bg-muted/50'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="rounded-lg bg-background/50 border border-white/10 overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 text-xs">
+            <code className="font-mono text-primary">{artifact.filename}</code>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={copyToClipboard}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-muted/30 hover:bg-muted/50 transition-all"
+              >
+                {copied ? <CheckCircle className="w-3.5 h-3.5 text-success" /> : <Copy className="w-3.5 h-3.5" />}
+                {copied ? 'Copiato' : 'Copia'}
+              </button>
+              <button
+                onClick={download}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-primary text-primary-foreground"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Scarica
+              </button>
+            </div>
+          </div>
+          <pre className="p-3 text-xs font-mono overflow-auto max-h-80 whitespace-pre">{artifact.content}</pre>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConfigExportPanel;
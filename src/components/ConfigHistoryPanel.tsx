@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { History, Save, Undo2, RotateCcw, AlertTriangle, User, MessageSquare } from 'lucide-react';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { environments } from '@/config/environments';
+import { EDITABLE_CONFIG_PATHS, INITIAL_SNAPSHOT, type ConfigChange } from '@/config/configHistory';
+import { environmentConfigSchema, getAtPath, type ConfigPrimitive } from '@/config/schema';
+
+/**
+ * 📝 CONFIG HISTORY PANEL
+ *
+ * Permette di modificare i valori di configurazione di ogni ambiente
+ * e mostra la timeline di tutte le modifiche (chi, quando, prima/dopo, perché).
+ * Da qui si può annullare una singola modifica o tornare a uno stato passato.
+ */
+
+const AUTHOR_STORAGE_KEY = 'environment-manager:config-author';
+
+const kindLabels: Record<ConfigChange['kind'], string> = {
+  edit: 'modifica',
+  revert: 'annullamento',
+  restore: 'ripristino',
+};
+
+const parseInput = (path: string, input: string): ConfigPrimitive => {
+  const field = environmentConfigSchema[path];
+  if (field.type === 'boolean') return input === 'true';
+  if (field.type === 'number') return Number(input);
+  return input;
+};
+
+const ConfigHistoryPanel = () => {
+  const {
+    configs,
+    configHistory,
+    currentEnvironment,
+    updateConfigValue,
+    revertConfigChange,
+    restoreConfigSnapshot,
+  } = useEnvironment();
+  const [environment, setEnvironment] = useState(currentEnvironment);
+  const [path, setPath] = useState(EDITABLE_CONFIG_PATHS[0]);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_STORAGE_KEY) ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const field = environmentConfigSchema[path];
+  const currentValue = String(getAtPath(configs[environment], path));
+  const input = draft ?? currentValue;
+
+  // Ogni azione può fallire la validazione: l'errore viene mostrato sotto il form
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+      setDraft(null);
+      setReason('');
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const updateAuthor = (value: string) => {
+    setAuthor(value);
+    localStorage.setItem(AUTHOR_STORAGE_KEY, value);
+  };
+
+  const selectClassName =
+    'w-full px-3 py-2 rounded-lg bg-background/50 border border-white/10 text-sm focus:outline-none focus:border-primary/50';
+
+  return (
+    <Card className="glass-card overflow-hidden">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gradient-to-br from-primary/20 to-accent/20">
+            <History className="w-5 h-5 text-primary" />
+          </div>
+          <span>Modifiche e storico</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-2">
+          Modifica un valore e ritrova ogni cambiamento nella timeline: nulla va perso
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-6">
+        {/* Editor */}
+        <div className="grid md:grid-cols-3 gap-3">
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Ambiente</span>
+            <select
+              value={environment}
+              onChange={(e) => { setEnvironment(e.target.value); setDraft(null); }}
+              className={selectClassName}
+            >
+              {environments.map(env => (
+                <option key={env.id} value={env.id}>{env.displayName}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Chiave</span>
+            <select
+              value={path}
+              onChange={(e) => { setPath(e.target.value); setDraft(null); }}
+              className={`${selectClassName} font-mono`}
+            >
+              {EDITABLE_CONFIG_PATHS.map(key => (
+                <option key={key} value={key}>{key}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Valore</span>
+            {field.type === 'boolean' || field.allowed ? (
+              <select value={input} onChange={(e) => setDraft(e.target.value)} className={`${selectClassName} font-mono`}>
+                {(field.allowed ?? [true, false]).map(option => (
+                  <option key={String(option)} value={String(option)}>{String(option)}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                value={input}
+                onChange={(e) => setDraft(e.target.value)}
+                className={`${selectClassName} font-mono`}
+              />
+            )}
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground flex items-center gap-1"><User className="w-3 h-3" /> Autore</span>
+            <input
+              value={author}
+              onChange={(e) => updateAuthor(e.target.value)}
+              placeholder="es. mario.rossi"
+              className={selectClassName}
+            />
+          </label>
+          <label className="space-y-1 md:col-span-2">
+            <span className="text-xs text-muted-foreground flex items-center gap-1"><MessageSquare className="w-3 h-3" /> Motivo (opzionale)</span>
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="es. nuovo endpoint dopo la migrazione"
+              className={selectClassName}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            Valore attuale: <code className="font-mono text-primary">{currentValue}</code>
+          </p>
+          <button
+            onClick={() => run(() => updateConfigValue({ environment, path, value: parseInput(path, input), author, reason }))}
+            disabled={input === currentValue}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Salva modifica
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/30 text-xs text-destructive flex items-start gap-2 whitespace-pre-line">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Timeline */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-sm">Timeline ({configHistory.length})</h3>
+            {configHistory.length > 0 && (
+              <button
+                onClick={() => run(() => restoreConfigSnapshot(INITIAL_SNAPSHOT, author, reason))}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                Torna ai valori di build
+              </button>
+            )}
+          </div>
+
+          {configHistory.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Nessuna modifica: tutti gli ambienti usano i valori di build.
+            </p>
+          )}
+
+          <ol className="relative border-l border-white/10 ml-2 space-y-4">
+            {[...configHistory].reverse().map(change => (
+              <li key={change.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary/60 border border-background" />
+                <div className="p-3 rounded-lg bg-muted/20 border border-border space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span className="px-1.5 py-0.5 rounded bg-primary/10 text-primary">{kindLabels[change.kind]}</span>
+                    <strong className="text-foreground">{change.environment}</strong>
+                    <code className="font-mono">{change.path}</code>
+                    <span className="text-muted-foreground ml-auto">
+                      {change.author} · {new Date(change.timestamp).toLocaleString('it-IT')}
+                    </span>
+                  </div>
+                  <p className="text-xs font-mono">
+                    <span className="text-destructive line-through">{String(change.oldValue)}</span>
+                    {' → '}
+                    <span className="text-success">{String(change.newValue)}</span>
+                  </p>
+                  {change.reason && <p className="text-xs text-muted-foreground italic">"{change.reason}"</p>}
+                  {change.target && (
+                    <p className="text-xs text-muted-foreground">
+                      {change.kind === 'revert' ? 'Annulla' : 'Ripristina lo stato di'} <code className="font-mono">{change.target}</code>
+                    </p>
+                  )}
+                  <div className="flex gap-3 pt-1">
+                    <button
+                      onClick={() => run(() => revertConfigChange(change.id, author, reason))}
+                      className="flex items-center gap-1 text-xs text-muted-foreground hover:text-warning transition-colors"
+                    >
+                      <Undo2 className="w-3.5 h-3.5" />
+                      Annulla questa modifica
+                    </button>
+                    <button
+                      onClick={() => run(() => restoreConfigSnapshot(change.id, author, reason))}
+                      className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      Ripristina questo stato
+                    </button>
+                  </div>
+                </div>
+                <span className="text-[10px] text-muted-foreground font-mono">{change.id}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConfigHistoryPanel;
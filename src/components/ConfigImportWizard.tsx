@@ -0,0 +1,343 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FileInput, Upload, ArrowRight, ArrowLeft, CheckCircle, AlertTriangle, Sparkles } from 'lucide-react';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { environments, type EnvironmentStage } from '@/config/environments';
+import { EDITABLE_CONFIG_PATHS } from '@/config/configHistory';
+import { getAtPath, type ConfigPrimitive } from '@/config/schema';
+import {
+  buildImportPreview,
+  createImportedDefinition,
+  detectImportFormat,
+  importFormats,
+  parseImportSource,
+  suggestMapping,
+  type ImportFormat,
+  type ImportMapping,
+} from '@/config/configImport';
+
+/**
+ * 📥 CONFIG IMPORT WIZARD
+ *
+ * Tre passi per portare dentro una configurazione esistente:
+ * 1. Sorgente   → incolla o carica .env, JSON, YAML o ConfigMap
+ * 2. Mappatura  → collega ogni chiave a un campo (con suggerimenti per somiglianza)
+ * 3. Anteprima  → errori di validazione e applicazione a un ambiente nuovo o esistente
+ */
+
+type WizardStep = 'source' | 'mapping' | 'preview';
+
+const sampleSource = [
+  '# .env di un progetto esistente',
+  'VITE_API_URL=https://api.eu.example.com',
+  'DEBUG=false',
+  'LOG_LEVEL=warn',
+  'ANALYTICS_ENABLED=true',
+  'SENTRY_DSN=https://key@sentry.example.com/1',
+].join('\n');
+
+const stageOptions: { id: EnvironmentStage; label: string }[] = [
+  { id: 'development', label: 'Development' },
+  { id: 'pre-production', label: 'Pre-produzione' },
+  { id: 'production', label: 'Produzione' },
+];
+
+const inputClassName =
+  'w-full px-3 py-2 rounded-lg bg-background/50 border border-white/10 text-sm focus:outline-none focus:border-primary/50';
+
+const ConfigImportWizard = () => {
+  const { configs, updateConfigValues, importEnvironment } = useEnvironment();
+  const [step, setStep] = useState<WizardStep>('source');
+  const [source, setSource] = useState(sampleSource);
+  const [format, setFormat] = useState<ImportFormat | 'auto'>('auto');
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [mode, setMode] = useState<'update' | 'create'>('update');
+  const [target, setTarget] = useState('staging');
+  const [newEnvironment, setNewEnvironment] = useState({ id: '', displayName: '', stage: 'pre-production' as EnvironmentStage });
+  const [author, setAuthor] = useState('');
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const parsed = useMemo(
+    () => parseImportSource(source, format === 'auto' ? detectImportFormat(source) : format),
+    [source, format]
+  );
+  const sourceKeys = Object.keys(parsed.values);
+
+  const environmentId = mode === 'update' ? target : newEnvironment.id.trim();
+  const preview = useMemo(
+    () => buildImportPreview({
+      environment: environmentId || 'nuovo-ambiente',
+      values: parsed.values,
+      mapping,
+      base: mode === 'update' ? configs[target] : undefined,
+    }),
+    [environmentId, parsed.values, mapping, mode, configs, target]
+  );
+
+  const goToMapping = () => {
+    const suggestions = suggestMapping(sourceKeys);
+    setMapping(Object.fromEntries(suggestions.map(item => [item.source, item.target])));
+    setScores(Object.fromEntries(suggestions.map(item => [item.source, item.score])));
+    setResult(null);
+    setStep('mapping');
+  };
+
+  const handleUpload = async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (file) setSource(await file.text());
+  };
+
+  const apply = () => {
+    if (!preview.config) return;
+    const reason = `Import da ${parsed.format}`;
+
+    try {
+      if (mode === 'update') {
+        const changes = EDITABLE_CONFIG_PATHS
+          .filter(path => Object.values(mapping).includes(path))
+          .map(path => ({
+            environment: target,
+            path,
+            value: getAtPath(preview.config, path) as ConfigPrimitive,
+            author,
+            reason,
+          }));
+        updateConfigValues(changes);
+        setResult({ ok: true, message: `${changes.length} valori importati in ${target}: li trovi nella timeline delle modifiche.` });
+      } else {
+        importEnvironment(createImportedDefinition({ ...newEnvironment, id: environmentId }), preview.config);
+        setResult({ ok: true, message: `Ambiente "${environmentId}" creato: ora è disponibile nel simulatore e in tutte le viste.` });
+      }
+    } catch (error) {
+      setResult({ ok: false, message: (error as Error).message });
+    }
+  };
+
+  return (
+    <Card className="glass-card overflow-hidden">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gradient-to-br from-primary/20 to-accent/20">
+            <FileInput className="w-5 h-5 text-primary" />
+          </div>
+          <span>Importa configurazione</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-2">
+          Porta dentro un .env, un JSON, uno YAML o una ConfigMap esistente
+        </p>
+        <div className="flex items-center gap-2 mt-3 text-xs">
+          {(['source', 'mapping', 'preview'] as const).map((item, index) => (
+            <span
+              key={item}
+              className={`px-2 py-1 rounded ${step === item ? 'bg-primary text-primary-foreground' : 'bg-muted/30 text-muted-foreground'}`}
+            >
+              {index + 1}. {item === 'source' ? 'Sorgente' : item === 'mapping' ? 'Mappatura' : 'Anteprima'}
+            </span>
+          ))}
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-4">
+        {step === 'source' && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground mr-2">Formato:</span>
+              {[{ id: 'auto' as const, label: `Auto (${detectImportFormat(source)})` }, ...importFormats].map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => setFormat(item.id)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                    format === item.id ? 'bg-primary text-primary-foreground' : 'bg-muted/30 hover:bg-muted/50'
+                  }`}
+                >
+                  {item.label}
+                </button>
+              ))}
+              <label className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium bg-muted/30 hover:bg-muted/50 cursor-pointer">
+                <Upload className="w-3.5 h-3.5" />
+                Carica file
+                <input type="file" className="hidden" onChange={(e) => handleUpload(e.target.files)} />
+              </label>
+            </div>
+            <textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              spellCheck={false}
+              className="w-full h-48 p-3 rounded-lg bg-background/50 border border-white/10 font-mono text-xs resize-y focus:outline-none focus:border-primary/50"
+            />
+            {parsed.errors.length > 0 && (
+              <ul className="p-3 rounded-lg bg-destructive/10 border border-destructive/30 text-xs text-destructive space-y-1">
+                {parsed.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">{sourceKeys.length} chiavi trovate</span>
+              <button
+                onClick={goToMapping}
+                disabled={sourceKeys.length === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground disabled:opacity-50"
+              >
+                Mappa le chiavi <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'mapping' && (
+          <>
+            <div className="space-y-2">
+              {sourceKeys.map(key => (
+                <div key={key} className="grid grid-cols-[1fr_1fr_1fr] gap-3 items-center p-2 rounded-lg bg-muted/20 border border-border text-xs">
+                  <code className="font-mono text-foreground truncate" title={key}>{key}</code>
+                  <code className="font-mono text-muted-foreground truncate" title={String(parsed.values[key])}>
+                    {String(parsed.values[key])}
+                  </code>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={mapping[key] ?? ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [key]: e.target.value || null }))}
+                      className={`${inputClassName} font-mono text-xs`}
+                    >
+                      <option value="">— ignora —</option>
+                      {EDITABLE_CONFIG_PATHS.map(path => (
+                        <option key={path} value={path}>{path}</option>
+                      ))}
+                    </select>
+                    {scores[key] > 0 && mapping[key] && (
+                      <span className="flex items-center gap-1 text-accent whitespace-nowrap" title="Suggerito per somiglianza del nome">
+                        <Sparkles className="w-3 h-3" />
+                        {Math.round(scores[key] * 100)}%
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <button onClick={() => setStep('source')} className="flex items-center gap-2 text-sm text-muted-foreground hover:text-primary">
+                <ArrowLeft className="w-4 h-4" /> Indietro
+              </button>
+              <button
+                onClick={() => setStep('preview')}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground"
+              >
+                Anteprima <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex gap-2">
+              {(['update', 'create'] as const).map(item => (
+                <button
+                  key={item}
+                  onClick={() => { setMode(item); setResult(null); }}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                    mode === item ? 'bg-primary text-primary-foreground' : 'bg-muted/30 hover:bg-muted/50'
+                  }`}
+                >
+                  {item === 'update' ? 'Aggiorna un ambiente' : 'Crea un nuovo ambiente'}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-3">
+              {mode === 'update' ? (
+                <label className="space-y-1">
+                  <span className="text-xs text-muted-foreground">Ambiente</span>
+                  <select value={target} onChange={(e) => setTarget(e.target.value)} className={inputClassName}>
+                    {environments.map(env => (
+                      <option key={env.id} value={env.id}>{env.displayName}</option>
+                    ))}
+                  </select>
+                </label>
+              ) : (
+                <>
+                  <label className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Identificativo</span>
+                    <input
+                      value={newEnvironment.id}
+                      onChange={(e) => setNewEnvironment(prev => ({ ...prev, id: e.target.value }))}
+                      placeholder="es. eu-production"
+                      className={`${inputClassName} font-mono`}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Nome visualizzato</span>
+                    <input
+                      value={newEnvironment.displayName}
+                      onChange={(e) => setNewEnvironment(prev => ({ ...prev, displayName: e.target.value }))}
+                      placeholder="es. Production EU"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Fase</span>
+                    <select
+                      value={newEnvironment.stage}
+                      onChange={(e) => setNewEnvironment(prev => ({ ...prev, stage: e.target.value as EnvironmentStage }))}
+                      className={inputClassName}
+                    >
+                      {stageOptions.map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                </>
+              )}
+              {mode === 'update' && (
+                <label className="space-y-1">
+                  <span className="text-xs text-muted-foreground">Autore</span>
+                  <input value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="es. mario.rossi" className={inputClassName} />
+                </label>
+              )}
+            </div>
+
+            {preview.issues.length > 0 ? (
+              <ul className="p-3 rounded-lg bg-destructive/10 border border-destructive/30 text-xs space-y-1">
+                {preview.issues.map(issue => (
+                  <li key={`${issue.path}:${issue.message}`} className="flex items-start gap-2">
+                    <AlertTriangle className="w-3.5 h-3.5 text-destructive shrink-0 mt-0.5" />
+                    <span><code className="font-mono">{issue.path}</code>: {issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <pre className="p-3 rounded-lg bg-background/50 border border-white/10 text-xs font-mono overflow-auto max-h-64">
+                {JSON.stringify(preview.config, null, 2)}
+              </pre>
+            )}
+
+            {result && (
+              <div className={`p-3 rounded-lg text-xs flex items-start gap-2 whitespace-pre-line ${
+                result.ok ? 'bg-success/10 border border-success/30 text-success' : 'bg-destructive/10 border border-destructive/30 text-destructive'
+              }`}>
+                {result.ok ? <CheckCircle className="w-4 h-4 shrink-0" /> : <AlertTriangle className="w-4 h-4 shrink-0" />}
+                {result.message}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <button onClick={() => setStep('mapping')} className="flex items-center gap-2 text-sm text-muted-foreground hover:text-primary">
+                <ArrowLeft className="w-4 h-4" /> Indietro
+              </button>
+              <button
+                onClick={apply}
+                disabled={!preview.config || !environmentId}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground disabled:opacity-50"
+              >
+                <CheckCircle className="w-4 h-4" />
+                Applica
+              </button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConfigImportWizard;
@@ -1,41 +1,37 @@
-import { getCurrentEnvironment, type Environment } from '@/config/environment';
-import { Server, Beaker, Rocket } from 'lucide-react';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { getEnvironmentDefinition } from '@/config/environments';
+import { environmentSourceLabels } from '@/config/environmentResolution';
+import { environmentColorClasses, environmentStageIcons } from '@/lib/environmentTheme';
 
 /**
  * Badge che mostra l'ambiente corrente
- * Utile per evitare confusione su quale ambiente si sta visualizzando
+ * Utile per evitare confusione su quale ambiente si sta visualizzando.
+ * Se l'ambiente simulato (o a runtime) non è quello del build, li mostra entrambi.
  */
 const EnvironmentBadge = () => {
-  const environment = getCurrentEnvironment();
-  
-  const envConfig: Record<Environment, { 
-    icon: typeof Server; 
-    className: string; 
-    label: string;
-  }> = {
-    development: {
-      icon: Server,
-      className: 'env-development',
-      label: 'Development',
-    },
-    staging: {
-      icon: Beaker,
-      className: 'env-staging',
-      label: 'Staging',
-    },
-    production: {
-      icon: Rocket,
-      className: 'env-production',
-      label: 'Production',
-    },
-  };
-
-  const { icon: Icon, className, label } = envConfig[environment];
+  const { currentEnvironment, buildEnvironment, environmentSource } = useEnvironment();
+  const environment = getEnvironmentDefinition(currentEnvironment);
+  const Icon = environmentStageIcons[environment.stage];
+  const className = environmentColorClasses[environment.color].badge;
+  const build = getEnvironmentDefinition(buildEnvironment);
 
   return (
-    <div className={`env-badge ${className} inline-flex items-center gap-2 animate-pulse-glow`}>
-      <Icon className="w-3.5 h-3.5" />
-      <span>{label}</span>
+    <div className="inline-flex items-center gap-2">
+      <div
+        className={`env-badge ${className} inline-flex items-center gap-2 animate-pulse-glow`}
+        title={environmentSourceLabels[environmentSource]}
+      >
+        <Icon className="w-3.5 h-3.5" />
+        <span>{environment.displayName}</span>
+      </div>
+      {currentEnvironment !== buildEnvironment && (
+        <span
+          className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground border border-border"
+          title="Ambiente fissato da vite build"
+        >
+          build: {build.displayName}
+        </span>
+      )}
     </div>
   );
 };
@@ -1,35 +1,11 @@
-import { getCurrentEnvironment } from '@/config/environment';
-import { Server, Beaker, Rocket, ArrowRight, Database, Cloud, Shield } from 'lucide-react';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import EnvironmentHealthGrid from '@/components/EnvironmentHealthGrid';
+import { environments } from '@/config/environments';
+import { environmentColorClasses, environmentStageIcons } from '@/lib/environmentTheme';
+import { Server, ArrowRight, Database, Cloud, Shield } from 'lucide-react';
 
 const EnvironmentDiagram = () => {
-  const currentEnv = getCurrentEnvironment();
-
-  const environments = [
-    {
-      id: 'development',
-      name: 'Development',
-      icon: Server,
-      description: 'Ambiente locale degli sviluppatori',
-      features: ['Hot reload', 'Debug attivo', 'Mock data'],
-      color: 'primary',
-    },
-    {
-      id: 'staging',
-      name: 'Staging',
-      icon: Beaker,
-      description: 'Test pre-produzione',
-      features: ['Test E2E', 'Dati simulati', 'CI/CD'],
-      color: 'warning',
-    },
-    {
-      id: 'production',
-      name: 'Production',
-      icon: Rocket,
-      description: 'Ambiente live per gli utenti',
-      features: ['Monitoring', 'Scaling', 'Backup'],
-      color: 'success',
-    },
-  ];
+  const { currentEnvironment: currentEnv, buildEnvironment } = useEnvironment();
 
   return (
     <div className="glass-card p-6 animate-fade-up-delay-3">
@@ -47,46 +23,55 @@ const EnvironmentDiagram = () => {
 
       {/* Environment pipeline */}
       <div className="flex flex-col lg:flex-row items-stretch gap-4 lg:gap-0 mb-8">
-        {environments.map((env, index) => (
-          <div key={env.id} className="flex flex-col lg:flex-row items-center flex-1">
-            <div
-              className={`diagram-node flex-1 w-full relative ${
-                currentEnv === env.id ? 'gradient-border ring-2 ring-primary/50' : ''
-              }`}
-            >
-              {currentEnv === env.id && (
-                <div className="absolute -top-3 left-1/2 -translate-x-1/2 px-2 py-0.5 rounded-full bg-primary text-primary-foreground text-xs font-medium">
-                  Attivo
-                </div>
-              )}
+        {environments.map((env, index) => {
+          const Icon = environmentStageIcons[env.stage];
+          const colors = environmentColorClasses[env.color];
+          return (
+            <div key={env.id} className="flex flex-col lg:flex-row items-center flex-1">
+              <div
+                className={`diagram-node flex-1 w-full relative ${
+                  currentEnv === env.id ? 'gradient-border ring-2 ring-primary/50' : ''
+                }`}
+              >
+                {currentEnv === env.id && (
+                  <div className="absolute -top-3 left-1/2 -translate-x-1/2 px-2 py-0.5 rounded-full bg-primary text-primary-foreground text-xs font-medium">
+                    Attivo
+                  </div>
+                )}
+                {buildEnvironment === env.id && currentEnv !== env.id && (
+                  <div className="absolute -top-3 left-1/2 -translate-x-1/2 px-2 py-0.5 rounded-full bg-muted text-muted-foreground border border-border text-xs font-medium">
+                    Build
+                  </div>
+                )}
               
-              <div className={`p-3 rounded-full bg-${env.color}/20 w-fit mx-auto mb-3`}>
-                <env.icon className={`w-6 h-6 text-${env.color}`} />
-              </div>
+                <div className={`p-3 rounded-full ${colors.bg} w-fit mx-auto mb-3`}>
+                  <Icon className={`w-6 h-6 ${colors.text}`} />
+                </div>
               
-              <h3 className="font-semibold text-foreground mb-1">{env.name}</h3>
-              <p className="text-xs text-muted-foreground mb-3">{env.description}</p>
+                <h3 className="font-semibold text-foreground mb-1">{env.displayName}</h3>
+                <p className="text-xs text-muted-foreground mb-3">{env.description}</p>
               
-              <div className="flex flex-wrap justify-center gap-1">
-                {env.features.map((feature) => (
-                  <span
-                    key={feature}
-                    className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground"
-                  >
-                    {feature}
-                  </span>
-                ))}
+                <div className="flex flex-wrap justify-center gap-1">
+                  {env.highlights.map((feature) => (
+                    <span
+                      key={feature}
+                      className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground"
+                    >
+                      {feature}
+                    </span>
+                  ))}
+                </div>
               </div>
-            </div>
             
-            {index < environments.length - 1 && (
-              <div className="flex items-center justify-center p-4">
-                <ArrowRight className="w-6 h-6 text-primary animate-pulse hidden lg:block" />
-                <ArrowRight className="w-6 h-6 text-primary animate-pulse rotate-90 lg:hidden" />
-              </div>
-            )}
-          </div>
-        ))}
+              {index < environments.length - 1 && (
+                <div className="flex items-center justify-center p-4">
+                  <ArrowRight className="w-6 h-6 text-primary animate-pulse hidden lg:block" />
+                  <ArrowRight className="w-6 h-6 text-primary animate-pulse rotate-90 lg:hidden" />
+                </div>
+              )}
+            </div>
+          );
+        })}
       </div>
 
       {/* Infrastructure diagram */}
@@ -112,12 +97,14 @@ const EnvironmentDiagram = () => {
             </div>
           ))}
         </div>
+
+        <EnvironmentHealthGrid />
       </div>
 
       {/* Spiegazione per principianti */}
       <div className="mt-6 p-4 rounded-xl bg-primary/5 border border-primary/20">
         <h4 className="font-semibold text-foreground mb-2 flex items-center gap-2">
-          🤔 Perché 3 ambienti diversi?
+          🤔 Perché più ambienti diversi?
         </h4>
         <p className="text-sm text-muted-foreground mb-3">
           Immagina di costruire una casa. Non la costruisci direttamente dove vivrai, ma prima fai delle prove!
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Activity, Lock, LockOpen, Pause, Play } from 'lucide-react';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { environments, type Environment } from '@/config/environments';
+import {
+  DEFAULT_HEALTH_INTERVAL_MS,
+  appendSample,
+  checkScheme,
+  healthEndpoint,
+  healthStatusLabels,
+  probeHealth,
+  summarizeHealth,
+  type HealthSample,
+  type HealthStatus,
+} from '@/config/healthCheck';
+import {
+  MOCK_BACKEND_BASE,
+  mockHealthUrl,
+  mockOutageLabels,
+  mockOutageUrl,
+  mockOutages,
+  type MockOutage,
+} from '@/config/mockBackend';
+import { resolveConfigSecrets } from '@/config/secrets';
+
+/**
+ * 🩺 ENVIRONMENT HEALTH GRID
+ *
+ * Sonda /health di ogni ambiente a intervalli regolari e mostra stato,
+ * percentili di latenza e storico. Di default interroga il backend mock
+ * locale, dove si possono simulare i disservizi (vedi config/mockBackend.ts).
+ */
+
+type ProbeTarget = 'mock' | 'live';
+
+const statusStyles: Record<HealthStatus, { dot: string; text: string }> = {
+  unknown: { dot: 'bg-muted-foreground', text: 'text-muted-foreground' },
+  up: { dot: 'bg-success', text: 'text-success' },
+  degraded: { dot: 'bg-warning', text: 'text-warning' },
+  down: { dot: 'bg-destructive', text: 'text-destructive' },
+};
+
+const HISTORY_BAR_MAX_MS = 1000;
+
+const EnvironmentHealthGrid = () => {
+  const { configs } = useEnvironment();
+  const [target, setTarget] = useState<ProbeTarget>('mock');
+  const [running, setRunning] = useState(true);
+  const [history, setHistory] = useState<Record<Environment, HealthSample[]>>({});
+  const [outages, setOutages] = useState<Record<Environment, MockOutage>>({});
+
+  const apiUrlOf = useCallback(
+    (env: Environment) => resolveConfigSecrets(configs[env], env).apiUrl,
+    [configs]
+  );
+
+  const probeAll = useCallback(
+    () =>
+      Promise.all(
+        environments.map(async env => {
+          const url = target === 'mock' ? mockHealthUrl(env.id) : healthEndpoint(apiUrlOf(env.id));
+          return [env.id, await probeHealth(url)] as const;
+        })
+      ),
+    [target, apiUrlOf]
+  );
+
+  // Cambiando destinazione lo storico precedente non è più confrontabile
+  useEffect(() => {
+    setHistory({});
+  }, [target]);
+
+  useEffect(() => {
+    if (!running) return;
+    // Le sonde ancora in volo quando l'effetto si chiude (smontaggio, pausa,
+    // cambio di destinazione) non devono finire nello storico
+    let cancelled = false;
+    const run = async () => {
+      const samples = await probeAll();
+      if (cancelled) return;
+      setHistory(prev => {
+        const next = { ...prev };
+        samples.forEach(([env, sample]) => {
+          next[env] = appendSample(prev[env] ?? [], sample);
+        });
+        return next;
+      });
+    };
+    run();
+    const interval = setInterval(run, DEFAULT_HEALTH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [running, probeAll]);
+
+  useEffect(() => {
+    fetch(`${MOCK_BACKEND_BASE}/outages`)
+      .then(response => (response.ok ? response.json() : {}))
+      .then(setOutages)
+      .catch(() => {
+        // Senza server (build statico) i disservizi non si possono simulare
+      });
+  }, []);
+
+  const changeOutage = (env: Environment, outage: MockOutage) => {
+    fetch(mockOutageUrl(env), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ outage }),
+    })
+      .then(response => {
+        if (response.ok) setOutages(prev => ({ ...prev, [env]: outage }));
+      })
+      .catch(() => {
+        // Backend mock non disponibile: la select torna al valore precedente
+      });
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Activity className="w-4 h-4 text-primary" />
+        <span className="text-sm font-medium text-foreground">Health check API</span>
+        <span className="text-xs text-muted-foreground">ogni {DEFAULT_HEALTH_INTERVAL_MS / 1000}s</span>
+        <div className="ml-auto flex items-center gap-2">
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value as ProbeTarget)}
+            className="px-2 py-1 rounded bg-background/50 border border-white/10 text-xs focus:outline-none focus:border-primary/50"
+          >
+            <option value="mock">Backend mock locale</option>
+            <option value="live">apiUrl reali</option>
+          </select>
+          <button
+            onClick={() => setRunning(prev => !prev)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-muted/30 hover:bg-muted/50 border border-border transition-all"
+          >
+            {running ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            {running ? 'Pausa' : 'Riprendi'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {environments.map(env => {
+          const samples = history[env.id] ?? [];
+          const summary = summarizeHealth(samples);
+          const style = statusStyles[summary.status];
+          const scheme = checkScheme(apiUrlOf(env.id));
+
+          return (
+            <div key={env.id} className="p-3 rounded-lg bg-muted/30 border border-border space-y-2">
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+                <span className="text-sm font-medium text-foreground">{env.displayName}</span>
+                <span className={`ml-auto text-xs ${style.text}`}>{healthStatusLabels[summary.status]}</span>
+              </div>
+
+              <div
+                className={`flex items-center gap-1 text-xs ${scheme.warning ? 'text-warning' : 'text-muted-foreground'}`}
+                title={scheme.warning}
+              >
+                {scheme.secure ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+                <span className="font-mono truncate">{healthEndpoint(apiUrlOf(env.id))}</span>
+              </div>
+
+              <div className="grid grid-cols-4 gap-1 text-center text-xs">
+                {(['p50', 'p95', 'p99'] as const).map(key => (
+                  <div key={key} className="rounded bg-background/40 py-1">
+                    <div className="text-muted-foreground">{key}</div>
+                    <div className="font-mono text-foreground">
+                      {summary.latency ? `${summary.latency[key]}ms` : '—'}
+                    </div>
+                  </div>
+                ))}
+                <div className="rounded bg-background/40 py-1">
+                  <div className="text-muted-foreground">uptime</div>
+                  <div className="font-mono text-foreground">{summary.uptime === null ? '—' : `${summary.uptime}%`}</div>
+                </div>
+              </div>
+
+              {/* Storico: un'asta per controllo, alta quanto la latenza */}
+              <div className="flex items-end gap-px h-8">
+                {samples.map(sample => (
+                  <div
+                    key={sample.timestamp}
+                    className={`flex-1 rounded-sm ${sample.ok ? 'bg-success/60' : 'bg-destructive/70'}`}
+                    style={{ height: `${sample.ok ? Math.max(10, Math.min(100, (sample.latencyMs / HISTORY_BAR_MAX_MS) * 100)) : 100}%` }}
+                    title={sample.ok ? `${sample.latencyMs}ms` : sample.error}
+                  />
+                ))}
+              </div>
+
+              {target === 'mock' && (
+                <select
+                  value={outages[env.id] ?? 'none'}
+                  onChange={(e) => changeOutage(env.id, e.target.value as MockOutage)}
+                  className="w-full px-2 py-1 rounded bg-background/50 border border-white/10 text-xs focus:outline-none focus:border-primary/50"
+                >
+                  {mockOutages.map(outage => (
+                    <option key={outage} value={outage}>Simula: {mockOutageLabels[outage]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentHealthGrid;
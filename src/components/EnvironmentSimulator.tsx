@@ -10,19 +10,14 @@
  * Questo simulatore esiste solo per scopi educativi.
  */
 
-import { useState } from 'react';
-import { Play, Settings, Zap, Server, Code, Shield, BarChart3, Bug, FlaskConical, ArrowRight } from 'lucide-react';
-import { useEnvironment, configs } from '@/contexts/EnvironmentContext';
-import type { Environment } from '@/config/environment';
-
-const environments: { id: Environment; label: string; icon: React.ReactNode; color: string }[] = [
-  { id: 'development', label: 'Development', icon: <Code className="w-4 h-4" />, color: 'primary' },
-  { id: 'staging', label: 'Staging', icon: <FlaskConical className="w-4 h-4" />, color: 'warning' },
-  { id: 'production', label: 'Production', icon: <Server className="w-4 h-4" />, color: 'success' },
-];
+import { Fragment, useState } from 'react';
+import { Play, Settings, Zap, Server, Shield, BarChart3, Bug, FlaskConical, ArrowRight, RotateCcw, Link2 } from 'lucide-react';
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { environments, type Environment, type EnvironmentDefinition } from '@/config/environments';
+import { environmentColorClasses, environmentStageIcons } from '@/lib/environmentTheme';
 
 const EnvironmentSimulator = () => {
-  const { currentEnvironment, config, setEnvironment, isSimulated } = useEnvironment();
+  const { currentEnvironment, config, setEnvironment, isSimulated, resetSimulation } = useEnvironment();
   const [isTransitioning, setIsTransitioning] = useState(false);
 
   const handleEnvironmentChange = (env: Environment) => {
@@ -35,18 +30,12 @@ const EnvironmentSimulator = () => {
     }, 300);
   };
 
-  const getEnvStyles = (env: Environment, isActive: boolean) => {
+  const getEnvStyles = (env: EnvironmentDefinition, isActive: boolean) => {
     const baseStyles = "relative flex items-center gap-2 px-4 py-3 rounded-lg font-medium transition-all duration-300 cursor-pointer";
     
     if (isActive) {
-      switch (env) {
-        case 'development':
-          return `${baseStyles} bg-primary/20 text-primary border border-primary/50 glow-primary`;
-        case 'staging':
-          return `${baseStyles} bg-warning/20 text-warning border border-warning/50 glow-warning`;
-        case 'production':
-          return `${baseStyles} bg-success/20 text-success border border-success/50 glow-success`;
-      }
+      const colors = environmentColorClasses[env.color];
+      return `${baseStyles} ${colors.bg} ${colors.text} border ${colors.border} ${colors.glow}`;
     }
     
     return `${baseStyles} bg-secondary/50 text-muted-foreground border border-border hover:bg-secondary hover:text-foreground`;
@@ -66,27 +55,47 @@ const EnvironmentSimulator = () => {
           </p>
         </div>
         {isSimulated && (
-          <span className="ml-auto px-2 py-1 rounded text-xs bg-accent/20 text-accent border border-accent/30">
-            Modalità Simulazione
-          </span>
+          <div className="ml-auto flex items-center gap-2">
+            <span className="px-2 py-1 rounded text-xs bg-accent/20 text-accent border border-accent/30">
+              Modalità Simulazione
+            </span>
+            <button
+              onClick={resetSimulation}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-muted/30 hover:bg-muted/50 border border-border transition-all"
+              title="Dimentica ambiente, esperimento e filtri salvati"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Reset simulazione
+            </button>
+          </div>
         )}
       </div>
 
+      {isSimulated && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground -mt-3 mb-6">
+          <Link2 className="w-3 h-3" />
+          Lo stato è nell'URL: copia il link per condividere esattamente questa vista.
+        </p>
+      )}
+
       {/* Environment Selector */}
-      <div className="grid grid-cols-3 gap-3 mb-6">
-        {environments.map(({ id, label, icon }) => (
-          <button
-            key={id}
-            onClick={() => handleEnvironmentChange(id)}
-            className={getEnvStyles(id, currentEnvironment === id)}
-          >
-            {icon}
-            <span className="text-sm">{label}</span>
-            {currentEnvironment === id && (
-              <Zap className="w-3 h-3 absolute top-1 right-1 animate-pulse" />
-            )}
-          </button>
-        ))}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6">
+        {environments.map((env) => {
+          const Icon = environmentStageIcons[env.stage];
+          return (
+            <button
+              key={env.id}
+              onClick={() => handleEnvironmentChange(env.id)}
+              className={getEnvStyles(env, currentEnvironment === env.id)}
+            >
+              <Icon className="w-4 h-4" />
+              <span className="text-sm">{env.displayName}</span>
+              {currentEnvironment === env.id && (
+                <Zap className="w-3 h-3 absolute top-1 right-1 animate-pulse" />
+              )}
+            </button>
+          );
+        })}
       </div>
 
       {/* Transition indicator */}
@@ -165,21 +174,22 @@ const EnvironmentSimulator = () => {
         </div>
 
         {/* Environment Flow */}
-        <div className="flex items-center justify-between p-4 rounded-lg bg-gradient-to-r from-primary/10 via-warning/10 to-success/10 border border-border">
-          <div className={`flex items-center gap-2 px-3 py-1.5 rounded ${currentEnvironment === 'development' ? 'bg-primary/30 text-primary' : 'text-muted-foreground'}`}>
-            <Code className="w-4 h-4" />
-            <span className="text-sm">Dev</span>
-          </div>
-          <ArrowRight className="w-4 h-4 text-muted-foreground" />
-          <div className={`flex items-center gap-2 px-3 py-1.5 rounded ${currentEnvironment === 'staging' ? 'bg-warning/30 text-warning' : 'text-muted-foreground'}`}>
-            <FlaskConical className="w-4 h-4" />
-            <span className="text-sm">Staging</span>
-          </div>
-          <ArrowRight className="w-4 h-4 text-muted-foreground" />
-          <div className={`flex items-center gap-2 px-3 py-1.5 rounded ${currentEnvironment === 'production' ? 'bg-success/30 text-success' : 'text-muted-foreground'}`}>
-            <Server className="w-4 h-4" />
-            <span className="text-sm">Prod</span>
-          </div>
+        <div className="flex flex-wrap items-center justify-between gap-2 p-4 rounded-lg bg-gradient-to-r from-primary/10 via-warning/10 to-success/10 border border-border">
+          {environments.map((env, index) => {
+            const Icon = environmentStageIcons[env.stage];
+            const colors = environmentColorClasses[env.color];
+            return (
+              <Fragment key={env.id}>
+                <div className={`flex items-center gap-2 px-3 py-1.5 rounded ${currentEnvironment === env.id ? `${colors.bgStrong} ${colors.text}` : 'text-muted-foreground'}`}>
+                  <Icon className="w-4 h-4" />
+                  <span className="text-sm">{env.displayName}</span>
+                </div>
+                {index < environments.length - 1 && (
+                  <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                )}
+              </Fragment>
+            );
+          })}
         </div>
       </div>
 
@@ -192,30 +202,21 @@ const EnvironmentSimulator = () => {
           </h4>
           <p className="text-sm text-muted-foreground mb-3">
             Un <strong className="text-foreground">ambiente</strong> è una "versione" dell'applicazione con configurazioni specifiche. 
-            Immagina di avere 3 copie della stessa app, ognuna configurata diversamente:
+            Immagina di avere {environments.length} copie della stessa app, ognuna configurata diversamente:
           </p>
           <div className="grid gap-2 text-sm">
-            <div className="flex items-start gap-2 p-2 rounded bg-primary/10">
-              <span className="text-primary">🔧</span>
-              <div>
-                <strong className="text-primary">Development:</strong> 
-                <span className="text-muted-foreground"> Sul tuo computer, per sviluppare e testare</span>
-              </div>
-            </div>
-            <div className="flex items-start gap-2 p-2 rounded bg-warning/10">
-              <span className="text-warning">🧪</span>
-              <div>
-                <strong className="text-warning">Staging:</strong> 
-                <span className="text-muted-foreground"> Server di test, per verificare prima del rilascio</span>
-              </div>
-            </div>
-            <div className="flex items-start gap-2 p-2 rounded bg-success/10">
-              <span className="text-success">🚀</span>
-              <div>
-                <strong className="text-success">Production:</strong> 
-                <span className="text-muted-foreground"> L'app vera usata dai clienti reali</span>
-              </div>
-            </div>
+            {environments.map((env) => {
+              const colors = environmentColorClasses[env.color];
+              return (
+                <div key={env.id} className={`flex items-start gap-2 p-2 rounded ${colors.bgSoft}`}>
+                  <span className={colors.text}>•</span>
+                  <div>
+                    <strong className={colors.text}>{env.displayName}:</strong> 
+                    <span className="text-muted-foreground"> {env.description}</span>
+                  </div>
+                </div>
+              );
+            })}
           </div>
         </div>
 
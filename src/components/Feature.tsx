@@ -0,0 +1,25 @@
+import React from 'react';
+import { useFeatureFlag } from '@/contexts/FeatureFlagContext';
+
+/**
+ * 🚩 FEATURE GATE
+ *
+ * Mostra i figli solo se il flag è acceso, altrimenti `fallback`:
+ *
+ *   <Feature flag="export_pdf" fallback={<OldExport />}>
+ *     <PdfExport />
+ *   </Feature>
+ */
+
+interface FeatureProps {
+  flag: string;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const Feature = ({ flag, fallback = null, children }: FeatureProps) => {
+  const enabled = useFeatureFlag(flag);
+  return <>{enabled ? children : fallback}</>;
+};
+
+export default Feature;
@@ -0,0 +1,64 @@
+import { Eye, ShoppingCart, FileDown } from 'lucide-react';
+import Feature from '@/components/Feature';
+import { useFeatureFlag, useFlagValue } from '@/contexts/FeatureFlagContext';
+
+/**
+ * 👀 ANTEPRIMA DEI FLAG
+ *
+ * Pezzi di interfaccia veri guidati dagli hook: dentro un
+ * FeatureFlagProvider con l'utente del pannello cambiano appena
+ * cambiano utente, attributi, ambiente o stato simulato.
+ */
+
+interface CheckoutCopy {
+  label: string;
+  tone: 'primary' | 'accent' | 'success';
+  showPrice: boolean;
+}
+
+const defaultCopy: CheckoutCopy = { label: 'Acquista', tone: 'primary', showPrice: false };
+
+const toneStyles: Record<CheckoutCopy['tone'], string> = {
+  primary: 'bg-primary/20 text-primary border-primary/30',
+  accent: 'bg-accent/20 text-accent border-accent/30',
+  success: 'bg-success/20 text-success border-success/30',
+};
+
+const FeatureFlagPreview = () => {
+  const copy = useFlagValue('checkout_button_copy', defaultCopy);
+  const pageSize = useFlagValue('search_page_size', 20);
+  const darkMode = useFeatureFlag('dark_mode_v2');
+
+  return (
+    <div className="p-4 rounded-lg bg-muted/20 border border-border mb-4">
+      <div className="flex items-center gap-2 mb-3 text-sm font-medium text-foreground">
+        <Eye className="w-4 h-4 text-primary" />
+        Anteprima per questo utente
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <span className={`flex items-center gap-1 px-3 py-1.5 rounded-lg border ${toneStyles[copy.tone]}`}>
+          <ShoppingCart className="w-3 h-3" />
+          {copy.label}
+          {copy.showPrice && ' · 49 €'}
+        </span>
+        <span className="px-2 py-1 rounded bg-muted/30 border border-border text-muted-foreground">
+          {pageSize} risultati per pagina
+        </span>
+        <span className="px-2 py-1 rounded bg-muted/30 border border-border text-muted-foreground">
+          tema {darkMode ? 'scuro V2' : 'classico'}
+        </span>
+        <Feature
+          flag="export_pdf"
+          fallback={<span className="text-muted-foreground">esportazione PDF non disponibile</span>}
+        >
+          <span className="flex items-center gap-1 px-2 py-1 rounded bg-accent/10 text-accent border border-accent/30">
+            <FileDown className="w-3 h-3" />
+            Esporta PDF
+          </span>
+        </Feature>
+      </div>
+    </div>
+  );
+};
+
+export default FeatureFlagPreview;
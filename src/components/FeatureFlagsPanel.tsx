@@ -1,19 +1,70 @@
-import { useMemo } from 'react';
-import { featureFlags } from '@/config/featureFlags';
+import { useMemo, useState } from 'react';
+import { evaluationReasonLabels, featureFlags, getAllFeatureFlags, getAnonymousUserKey } from '@/config/featureFlags';
+import { buildDependencyGraph, getDependents } from '@/config/flagDependencies';
+import { describeScheduledAction, expiryPolicyLabels } from '@/config/flagSchedule';
+import { bucketToPercentage, getBucket } from '@/config/bucketing';
+import { describeCondition, describeRule, segments, type ContextAttributes } from '@/config/targeting';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
-import { User, Flag, Users, Calendar, ExternalLink } from 'lucide-react';
+import { FeatureFlagProvider } from '@/contexts/FeatureFlagProvider';
+import FeatureFlagPreview from '@/components/FeatureFlagPreview';
+import { environments } from '@/config/environments';
+import { User, Flag, Users, Calendar, ExternalLink, Target, Shuffle, GitBranch, ArrowRight, AlertTriangle, RotateCcw, Clock, Hourglass } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
+// Il registro è statico: il grafo si calcola una volta sola
+const dependencyGraph = buildDependencyGraph(featureFlags);
+
+const inputClassName =
+  'px-2 py-1 rounded bg-background/50 border border-white/10 text-xs focus:outline-none focus:border-primary/50';
+
 const FeatureFlagsPanel = () => {
   const { currentEnvironment } = useEnvironment();
+  const [userKey, setUserKey] = useState(() => getAnonymousUserKey());
+  const [attributes, setAttributes] = useState<ContextAttributes>({});
+  // Accensioni e spegnimenti simulati dall'interruttore, solo in questa pagina
+  const [overrides, setOverrides] = useState<Record<string, boolean>>({});
+  const [pendingOff, setPendingOff] = useState<{ flagId: string; dependents: string[] } | null>(null);
   
+  // Lo stesso contesto per il pannello e per l'anteprima sotto FeatureFlagProvider
+  const evaluationContext = useMemo(
+    () => ({ userKey, attributes, overrides, environment: currentEnvironment }),
+    [userKey, attributes, overrides, currentEnvironment]
+  );
+
   // Memoizza i flag con lo stato corrente per evitare ricalcoli ad ogni render
-  const flags = useMemo(() => {
-    return featureFlags.map(flag => ({
-      ...flag,
-      currentlyEnabled: flag.enabled[currentEnvironment],
-    }));
-  }, [currentEnvironment]);
+  const flags = useMemo(() => getAllFeatureFlags(evaluationContext), [evaluationContext]);
+
+  const nameOf = (flagId: string) => featureFlags.find(flag => flag.id === flagId)?.name ?? flagId;
+
+  const applyToggle = (flagId: string, enabled: boolean) => {
+    setOverrides(prev => ({ ...prev, [flagId]: enabled }));
+    setPendingOff(null);
+  };
+
+  // Spegnere un flag spegne anche chi lo richiede: prima di farlo si chiede conferma
+  const toggleFlag = (flagId: string, currentlyEnabled: boolean) => {
+    if (!currentlyEnabled) {
+      applyToggle(flagId, true);
+      return;
+    }
+    const dependents = getDependents(flagId, featureFlags)
+      .filter(id => flags.find(flag => flag.id === id)?.currentlyEnabled);
+    if (dependents.length > 0) {
+      setPendingOff({ flagId, dependents });
+    } else {
+      applyToggle(flagId, false);
+    }
+  };
+
+  // Un campo vuoto toglie l'attributo: le regole lo considerano mancante
+  const setAttribute = (attribute: keyof ContextAttributes, value: string | boolean) => {
+    setAttributes(prev => {
+      const next = { ...prev };
+      if (value === '' || value === false) delete next[attribute];
+      else next[attribute] = value;
+      return next;
+    });
+  };
 
   return (
     <div className="glass-card p-6 animate-fade-up-delay-2">
@@ -29,6 +80,126 @@ const FeatureFlagsPanel = () => {
         </div>
       </div>
 
+      <div className="p-4 rounded-lg bg-muted/20 border border-border mb-4 space-y-3">
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <User className="w-4 h-4" />
+          Valuta per l'utente
+          <input
+            value={userKey}
+            onChange={(e) => setUserKey(e.target.value)}
+            className="flex-1 px-3 py-1.5 rounded-lg bg-background/50 border border-white/10 font-mono text-xs focus:outline-none focus:border-primary/50"
+          />
+        </label>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-xs text-muted-foreground">
+          <input
+            placeholder="Paese (es. IT)"
+            value={attributes.country ?? ''}
+            onChange={(e) => setAttribute('country', e.target.value.toUpperCase())}
+            className={inputClassName}
+          />
+          <select value={attributes.plan ?? ''} onChange={(e) => setAttribute('plan', e.target.value)} className={inputClassName}>
+            <option value="">Piano: nessuno</option>
+            <option value="free">free</option>
+            <option value="pro">pro</option>
+            <option value="enterprise">enterprise</option>
+          </select>
+          <input
+            placeholder="Email"
+            value={attributes.email ?? ''}
+            onChange={(e) => setAttribute('email', e.target.value)}
+            className={inputClassName}
+          />
+          <input
+            placeholder="Versione app (es. 2.1.0)"
+            value={attributes.appVersion ?? ''}
+            onChange={(e) => setAttribute('appVersion', e.target.value)}
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            title="Data di iscrizione"
+            value={attributes.signupDate ?? ''}
+            onChange={(e) => setAttribute('signupDate', e.target.value)}
+            className={inputClassName}
+          />
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={attributes.betaTester === true}
+              onChange={(e) => setAttribute('betaTester', e.target.checked)}
+            />
+            Beta tester
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {segments.map(segment => (
+            <span
+              key={segment.id}
+              className="px-2 py-0.5 rounded-full bg-accent/10 text-accent border border-accent/20"
+              title={`${segment.description}: ${segment.conditions.map(describeCondition).join(' e ')}`}
+            >
+              segmento «{segment.name}»
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Grafo dei prerequisiti: ogni colonna dipende dalla precedente */}
+      {dependencyGraph.edges.length > 0 && (
+        <div className="p-4 rounded-lg bg-muted/20 border border-border mb-4">
+          <div className="flex items-center gap-2 mb-3 text-sm font-medium text-foreground">
+            <GitBranch className="w-4 h-4 text-accent" />
+            Dipendenze tra flag
+            {Object.keys(overrides).length > 0 && (
+              <button
+                onClick={() => {
+                  setOverrides({});
+                  setPendingOff(null);
+                }}
+                className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-xs bg-muted/30 hover:bg-muted/50 border border-border transition-all"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Ripristina stato del registro
+              </button>
+            )}
+          </div>
+          <div className="flex items-start gap-3 overflow-x-auto">
+            {dependencyGraph.levels.map((level, depth) => (
+              <div key={depth} className="flex items-start gap-3">
+                {depth > 0 && <ArrowRight className="w-4 h-4 mt-2 text-muted-foreground shrink-0" />}
+                <div className="space-y-2">
+                  {level.map(flagId => {
+                    const flag = flags.find(item => item.id === flagId);
+                    const requires = dependencyGraph.edges.filter(edge => edge.to === flagId);
+                    return (
+                      <div
+                        key={flagId}
+                        className={`px-3 py-1.5 rounded-lg border text-xs ${
+                          flag?.evaluation.enabled
+                            ? 'bg-success/10 text-success border-success/20'
+                            : 'bg-muted text-muted-foreground border-border'
+                        }`}
+                      >
+                        <div className="font-medium">{nameOf(flagId)}</div>
+                        {requires.length > 0 && (
+                          <div className="text-muted-foreground">
+                            richiede {requires.map(edge => (edge.variation ? `${edge.from} = ${edge.variation}` : edge.from)).join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <FeatureFlagProvider context={evaluationContext}>
+        <FeatureFlagPreview />
+      </FeatureFlagProvider>
+
       <div className="space-y-4">
         {flags.map((flag, index) => (
           <div
@@ -48,37 +219,134 @@ const FeatureFlagsPanel = () => {
                   </Badge>
                 </div>
                 <p className="text-sm text-muted-foreground mb-3">{flag.description}</p>
+
+                {flag.prerequisites && flag.prerequisites.length > 0 && (
+                  <p className="flex items-center gap-1 mb-3 text-xs text-muted-foreground">
+                    <GitBranch className="w-3 h-3" />
+                    Richiede:{' '}
+                    {flag.prerequisites
+                      .map(prerequisite => (prerequisite.variation
+                        ? `${nameOf(prerequisite.flagId)} (variante ${prerequisite.variation})`
+                        : nameOf(prerequisite.flagId)))
+                      .join(', ')}
+                  </p>
+                )}
                 
                 {/* Stato per ambiente */}
                 <div className="flex flex-wrap gap-2 mb-3">
-                  {Object.entries(flag.enabled).map(([env, enabled]) => (
-                    <span
-                      key={env}
-                      className={`text-xs px-2 py-1 rounded-md ${
-                        enabled
-                          ? 'bg-success/10 text-success border border-success/20'
-                          : 'bg-muted text-muted-foreground border border-border'
-                      }`}
-                    >
-                      {env}: {enabled ? '✓' : '✗'}
-                    </span>
-                  ))}
+                  {environments.map((env) => {
+                    const enabled = flag.enabled[env.id] ?? false;
+                    return (
+                      <span
+                        key={env.id}
+                        className={`text-xs px-2 py-1 rounded-md ${
+                          enabled
+                            ? 'bg-success/10 text-success border border-success/20'
+                            : 'bg-muted text-muted-foreground border border-border'
+                        }`}
+                      >
+                        {env.id}: {enabled ? '✓' : '✗'}
+                      </span>
+                    );
+                  })}
                 </div>
 
                 {/* Rollout percentage */}
-                {flag.rolloutPercentage !== undefined && (
+                {flag.state.rolloutPercentage !== undefined && (
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Users className="w-4 h-4" />
-                    <span>Rollout: {flag.rolloutPercentage}%</span>
-                    <div className="flex-1 h-1.5 bg-muted rounded-full overflow-hidden max-w-32">
+                    <span>Rollout: {flag.state.rolloutPercentage}%</span>
+                    <div className="relative flex-1 h-1.5 bg-muted rounded-full overflow-hidden max-w-32">
                       <div
                         className="h-full bg-gradient-to-r from-primary to-accent rounded-full transition-all duration-500"
-                        style={{ width: `${flag.rolloutPercentage}%` }}
+                        style={{ width: `${flag.state.rolloutPercentage}%` }}
+                      />
+                      {/* Posizione dell'utente: dentro se cade prima della fine della barra */}
+                      <div
+                        className="absolute top-0 h-full w-0.5 bg-foreground"
+                        style={{ left: `${bucketToPercentage(getBucket(userKey, flag.id, flag.salt))}%` }}
                       />
                     </div>
+                    {flag.evaluation.reason === 'rollout' && (
+                      <span className={`text-xs ${flag.evaluation.enabled ? 'text-success' : 'text-muted-foreground'}`}>
+                        bucket {bucketToPercentage(getBucket(userKey, flag.id, flag.salt)).toFixed(2)}% →{' '}
+                        {flag.evaluation.enabled ? 'incluso' : 'escluso'}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {/* Azioni programmate per l'ambiente corrente */}
+                {flag.state.upcoming.length > 0 && (
+                  <div className="mt-3 space-y-1 text-xs text-muted-foreground">
+                    {flag.state.upcoming.map(action => (
+                      <div key={`${action.at}-${action.type}`} className="flex items-center gap-2">
+                        <Clock className="w-3.5 h-3.5 text-primary" />
+                        <span className="font-mono">{new Date(action.at).toLocaleString('it-IT')}</span>
+                        <span>{describeScheduledAction(action)}</span>
+                      </div>
+                    ))}
                   </div>
                 )}
 
+                {/* Regole di targeting, in ordine: vince la prima che corrisponde */}
+                {flag.rules && flag.rules.length > 0 && (
+                  <ol className="mt-3 space-y-1 text-xs">
+                    {flag.rules.map((rule, ruleIndex) => {
+                      const matched = flag.evaluation.rule?.id === rule.id;
+                      return (
+                        <li
+                          key={rule.id}
+                          className={`flex items-start gap-2 px-2 py-1 rounded ${
+                            matched ? 'bg-primary/10 text-foreground border border-primary/30' : 'text-muted-foreground'
+                          }`}
+                          title={rule.description}
+                        >
+                          <span className="font-mono">{ruleIndex + 1}.</span>
+                          <span>{describeRule(rule)}</span>
+                          {matched && <Target className="w-3.5 h-3.5 ml-auto shrink-0 text-primary" />}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+
+                {/* Varianti dei flag multivariati, con il peso nell'ambiente corrente */}
+                {flag.variations && (
+                  <div className="mt-3 space-y-1 text-xs">
+                    {Object.entries(flag.variations.values).map(([variation, payload]) => {
+                      const served = flag.value?.variation === variation;
+                      const weight = flag.variations?.distribution?.[currentEnvironment]?.[variation];
+                      const isDefault = flag.variations?.defaults[currentEnvironment] === variation;
+                      return (
+                        <div
+                          key={variation}
+                          className={`flex items-start gap-2 px-2 py-1 rounded ${
+                            served ? 'bg-primary/10 text-foreground border border-primary/30' : 'text-muted-foreground'
+                          }`}
+                        >
+                          <Shuffle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                          <span className="font-medium">{variation}</span>
+                          {weight !== undefined && <span>{weight}%</span>}
+                          {isDefault && <span className="text-accent">default</span>}
+                          <code className="ml-auto font-mono truncate max-w-[60%]" title={JSON.stringify(payload, null, 2)}>
+                            {JSON.stringify(payload)}
+                          </code>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <p className={`mt-2 text-xs ${flag.evaluation.enabled ? 'text-success' : 'text-muted-foreground'}`}>
+                  Per questo utente: {flag.evaluation.enabled ? 'attivo' : 'disattivo'}, {evaluationReasonLabels[flag.evaluation.reason]}
+                  {flag.evaluation.rule && ` (${flag.evaluation.rule.id})`}
+                  {flag.evaluation.prerequisite && ` (${flag.evaluation.prerequisite.flagId})`}
+                  {flag.value && (flag.value.variation
+                    ? `, variante «${flag.value.variation}»${flag.value.source === 'distribution' ? ' dalla distribuzione' : ''}`
+                    : ', valore di riserva del codice')}
+                </p>
+
                 {/* Metadata */}
                 {flag.metadata && (
                   <div className="flex flex-wrap gap-3 mt-3 text-xs text-muted-foreground">
@@ -94,6 +362,13 @@ const FeatureFlagsPanel = () => {
                         {flag.metadata.createdAt}
                       </span>
                     )}
+                    {flag.metadata.expiresAt && (
+                      <span className={`flex items-center gap-1 ${flag.state.expired ? 'text-warning' : ''}`}>
+                        <Hourglass className="w-3 h-3" />
+                        {flag.state.expired ? 'scaduto il' : 'scade il'} {flag.metadata.expiresAt}
+                        {' '}({expiryPolicyLabels[flag.metadata.expiryPolicy ?? 'auto-off']})
+                      </span>
+                    )}
                     {flag.metadata.jiraTicket && (
                       <span className="flex items-center gap-1 text-primary">
                         <ExternalLink className="w-3 h-3" />
@@ -104,9 +379,11 @@ const FeatureFlagsPanel = () => {
                 )}
               </div>
 
-              {/* Toggle visivo */}
-              <div
-                className={`w-12 h-6 rounded-full p-1 transition-all duration-300 ${
+              {/* Toggle: simula l'accensione o lo spegnimento nell'ambiente corrente */}
+              <button
+                onClick={() => toggleFlag(flag.id, flag.currentlyEnabled)}
+                title={`${flag.currentlyEnabled ? 'Spegni' : 'Accendi'} in ${currentEnvironment} (simulazione)`}
+                className={`shrink-0 w-12 h-6 rounded-full p-1 transition-all duration-300 ${
                   flag.currentlyEnabled
                     ? 'bg-success glow-success'
                     : 'bg-muted'
@@ -117,8 +394,32 @@ const FeatureFlagsPanel = () => {
                     flag.currentlyEnabled ? 'translate-x-6' : 'translate-x-0'
                   }`}
                 />
-              </div>
+              </button>
             </div>
+
+            {pendingOff?.flagId === flag.id && (
+              <div className="mt-3 p-3 rounded-lg bg-warning/10 border border-warning/30 text-sm">
+                <div className="flex items-center gap-2 text-warning font-medium">
+                  <AlertTriangle className="w-4 h-4" />
+                  Spegnere {flag.name} spegne a cascata anche:
+                </div>
+                <p className="mt-1 text-muted-foreground">{pendingOff.dependents.map(nameOf).join(', ')}</p>
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => applyToggle(flag.id, false)}
+                    className="px-3 py-1 rounded text-xs bg-warning/20 text-warning border border-warning/30 hover:bg-warning/30 transition-all"
+                  >
+                    Spegni comunque
+                  </button>
+                  <button
+                    onClick={() => setPendingOff(null)}
+                    className="px-3 py-1 rounded text-xs bg-muted/30 hover:bg-muted/50 border border-border transition-all"
+                  >
+                    Annulla
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         ))}
       </div>
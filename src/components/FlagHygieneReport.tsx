@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Brush, FileCode, CheckCircle, Info } from 'lucide-react';
+import { featureFlags, getEvaluationStats } from '@/config/featureFlags';
+import {
+  DEFAULT_FULL_ROLLOUT_DAYS,
+  DYNAMIC_FLAG_ID,
+  createHygieneReport,
+  hygieneIssueLabels,
+  type HygieneIssueKind,
+} from '@/config/flagHygiene';
+import { flagReferences } from '@/config/flagReferences.generated';
+
+/**
+ * 🧹 FLAG HYGIENE REPORT
+ *
+ * Elenca i flag da ripulire (scaduti, rilasciati a tutti, mai usati...)
+ * incrociando il registro con le chiamate trovate da `npm run scan:flags`.
+ */
+
+const kindStyles: Record<HygieneIssueKind, string> = {
+  expired: 'bg-warning/10 text-warning border-warning/30',
+  'fully-rolled-out': 'bg-success/10 text-success border-success/30',
+  'never-evaluated': 'bg-muted/30 text-muted-foreground border-border',
+  'no-owner': 'bg-accent/10 text-accent border-accent/30',
+  'unknown-reference': 'bg-destructive/10 text-destructive border-destructive/30',
+  unreferenced: 'bg-primary/10 text-primary border-primary/30',
+  'dynamic-reference': 'bg-warning/10 text-warning border-warning/30',
+};
+
+const FlagHygieneReport = () => {
+  const [fullRolloutDays, setFullRolloutDays] = useState(DEFAULT_FULL_ROLLOUT_DAYS);
+
+  const issues = useMemo(
+    () => createHygieneReport(featureFlags, {
+      now: new Date(),
+      fullRolloutDays,
+      references: flagReferences,
+      evaluations: getEvaluationStats(),
+    }),
+    [fullRolloutDays]
+  );
+
+  const counts = issues.reduce<Partial<Record<HygieneIssueKind, number>>>((acc, issue) => {
+    acc[issue.kind] = (acc[issue.kind] ?? 0) + 1;
+    return acc;
+  }, {});
+  const flagIds = [...new Set(issues.map(issue => issue.flagId))];
+  const nameOf = (flagId: string) => featureFlags.find(flag => flag.id === flagId)?.name;
+
+  return (
+    <Card className="glass-card overflow-hidden">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gradient-to-br from-primary/20 to-accent/20">
+            <Brush className="w-5 h-5 text-primary" />
+          </div>
+          <span>Igiene dei feature flag</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-2">
+          {featureFlags.length} flag nel registro, {flagReferences.length} chiamate trovate in{' '}
+          <code className="font-mono">src/</code>
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <label className="flex items-center gap-2 text-muted-foreground">
+            Rilasciato a tutti da almeno
+            <input
+              type="number"
+              min={0}
+              value={fullRolloutDays}
+              onChange={(e) => setFullRolloutDays(Math.max(0, Number(e.target.value)))}
+              className="w-16 px-2 py-1 rounded bg-background/50 border border-white/10 focus:outline-none focus:border-primary/50"
+            />
+            giorni
+          </label>
+          <div className="ml-auto flex flex-wrap gap-2">
+            {(Object.keys(hygieneIssueLabels) as HygieneIssueKind[])
+              .filter(kind => counts[kind])
+              .map(kind => (
+                <span key={kind} className={`px-2 py-1 rounded border ${kindStyles[kind]}`}>
+                  {hygieneIssueLabels[kind]}: {counts[kind]}
+                </span>
+              ))}
+          </div>
+        </div>
+
+        {issues.length === 0 && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-success/10 border border-success/30 text-sm text-success">
+            <CheckCircle className="w-4 h-4" />
+            Nessun flag da ripulire
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {flagIds.map(flagId => (
+            <div key={flagId} className="p-3 rounded-lg bg-muted/20 border border-border">
+              <div className="flex items-center gap-2">
+                <code className="font-mono text-sm text-foreground">
+                  {flagId === DYNAMIC_FLAG_ID ? 'id dinamici' : flagId}
+                </code>
+                {nameOf(flagId) && <span className="text-xs text-muted-foreground">{nameOf(flagId)}</span>}
+              </div>
+              <ul className="mt-2 space-y-1 text-xs">
+                {issues
+                  .filter(issue => issue.flagId === flagId)
+                  .map(issue => (
+                    <li key={issue.kind}>
+                      <span className={`px-1.5 py-0.5 rounded border mr-2 ${kindStyles[issue.kind]}`}>
+                        {hygieneIssueLabels[issue.kind]}
+                      </span>
+                      <span className="text-muted-foreground">{issue.message}</span>
+                      {issue.references.map(reference => (
+                        <div
+                          key={`${reference.file}:${reference.line}:${reference.column}`}
+                          className="flex items-center gap-1 mt-1 ml-2 text-muted-foreground"
+                        >
+                          <FileCode className="w-3 h-3" />
+                          <span className="font-mono">{reference.file}:{reference.line}:{reference.column}</span>
+                          <span>
+                            {reference.expression === undefined
+                              ? reference.call
+                              : `${reference.call}(${reference.expression})`}
+                          </span>
+                        </div>
+                      ))}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-3 rounded-lg bg-primary/10 border border-primary/30 text-xs text-primary flex items-start gap-2">
+          <Info className="w-4 h-4 shrink-0" />
+          <span>
+            Le chiamate nel codice vengono da <code className="font-mono">npm run scan:flags</code>, da rieseguire
+            quando si aggiunge o si toglie un flag. "Mai valutato" conta solo le valutazioni da quando è aperta la pagina.
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FlagHygieneReport;
@@ -2,15 +2,16 @@ import { useState, useEffect, useRef, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Terminal, Trash2, Pause, Play, AlertCircle, Info, AlertTriangle, Bug } from 'lucide-react';
 import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { useSimulationParam } from '@/hooks/use-simulation-param';
 
 /**
  * 📋 REAL-TIME LOG VIEWER
  * 
  * Questo componente simula un sistema di logging in tempo reale:
  * - I log vengono filtrati in base al logLevel dell'ambiente
- * - Development: mostra tutti i log (debug, info, warn, error)
- * - Staging: mostra info, warn, error
- * - Production: mostra solo error
+ * - debug (es. Development): mostra tutti i log
+ * - info (es. Staging): mostra info, warn, error
+ * - error (es. Production): mostra solo error
  * 
  * In produzione si userebbero servizi come:
  * - Datadog
@@ -60,6 +61,9 @@ const logLevelPriority: Record<LogLevel, number> = {
   error: 3,
 };
 
+// Filtro condivisibile via URL: /logs?level=error
+const isLevelFilter = (value: string): value is LogLevel | 'all' => value === 'all' || Object.keys(logLevelPriority).includes(value);
+
 const logLevelConfig: Record<LogLevel, { icon: React.ReactNode; color: string; bg: string }> = {
   debug: { 
     icon: <Bug className="w-3.5 h-3.5" />, 
@@ -87,7 +91,7 @@ const LogViewer = () => {
   const { currentEnvironment, config } = useEnvironment();
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
-  const [filter, setFilter] = useState<LogLevel | 'all'>('all');
+  const [filter, setFilter] = useSimulationParam<LogLevel | 'all'>('level', 'all', isLevelFilter);
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Get minimum log level based on environment config
@@ -148,12 +152,14 @@ const LogViewer = () => {
   };
 
   const getLogLevelLabel = () => {
-    switch (currentEnvironment) {
-      case 'development':
+    switch (minLogLevel) {
+      case 'debug':
         return { level: 'debug', desc: 'Tutti i log visibili' };
-      case 'staging':
+      case 'info':
         return { level: 'info', desc: 'Debug nascosti' };
-      case 'production':
+      case 'warn':
+        return { level: 'warn', desc: 'Solo avvisi ed errori' };
+      case 'error':
         return { level: 'error', desc: 'Solo errori critici' };
     }
   };
@@ -180,7 +186,8 @@ const LogViewer = () => {
               <span className="text-muted-foreground">Log Level:</span>
               <span className={`font-mono font-bold ${
                 levelInfo.level === 'debug' ? 'text-muted-foreground' :
-                levelInfo.level === 'info' ? 'text-primary' : 'text-destructive'
+                levelInfo.level === 'info' ? 'text-primary' :
+                levelInfo.level === 'warn' ? 'text-warning' : 'text-destructive'
               }`}>
                 {levelInfo.level.toUpperCase()}
               </span>
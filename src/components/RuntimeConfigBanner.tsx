@@ -0,0 +1,59 @@
+import { useEnvironment } from '@/contexts/EnvironmentContext';
+import { flattenValues } from '@/config/layers';
+import { ConfigValidationError } from '@/config/schema';
+import { AlertTriangle, CloudDownload } from 'lucide-react';
+
+/**
+ * Banner che segnala lo stato della configurazione a runtime:
+ * da dove arriva (window.__ENV__ o config.json) oppure perché non è stata applicata.
+ * Se la configurazione a runtime non è attiva non mostra nulla.
+ */
+const RuntimeConfigBanner = () => {
+  const { runtimeConfig } = useEnvironment();
+
+  if (runtimeConfig.status === 'error' && runtimeConfig.error) {
+    const issues = runtimeConfig.error instanceof ConfigValidationError ? runtimeConfig.error.issues : [];
+
+    return (
+      <div className="mb-6 p-4 rounded-xl bg-destructive/10 border border-destructive/30">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+          <div className="space-y-1 text-sm">
+            <p className="font-medium text-foreground">Configurazione a runtime non applicata</p>
+            {issues.length > 0 ? (
+              <ul className="space-y-0.5 text-muted-foreground">
+                {issues.map(issue => (
+                  <li key={`${issue.environment}-${issue.path}`}>
+                    <code className="font-mono text-xs">{issue.path}</code>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-muted-foreground">{runtimeConfig.error.message}</p>
+            )}
+            <p className="text-muted-foreground">Restano attivi i valori inclusi nel build.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (runtimeConfig.status === 'ready' && runtimeConfig.loaded) {
+    const { source, environment, overrides } = runtimeConfig.loaded;
+
+    return (
+      <div className="mb-6 p-3 rounded-xl bg-primary/5 border border-primary/20 flex items-center gap-3 text-sm">
+        <CloudDownload className="w-4 h-4 text-primary shrink-0" />
+        <p className="text-muted-foreground">
+          Configurazione a runtime caricata da <code className="font-mono text-foreground">{source}</code>{' '}
+          per <strong className="text-foreground">{environment}</strong>{' '}
+          ({Object.keys(flattenValues(overrides)).length} chiavi sovrascritte)
+        </p>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default RuntimeConfigBanner;
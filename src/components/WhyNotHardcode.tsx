@@ -1,4 +1,5 @@
 import { ShieldAlert, GitBranch, Wrench, Users, HelpCircle, Lightbulb, AlertTriangle } from 'lucide-react';
+import HardcodeScanner from '@/components/HardcodeScanner';
 
 const WhyNotHardcode = () => {
   const reasons = [
@@ -80,6 +81,9 @@ const WhyNotHardcode = () => {
         </div>
       </div>
 
+      {/* Scanner: dalla teoria al proprio codice */}
+      <HardcodeScanner />
+
       {/* I 4 motivi principali */}
       <div className="grid sm:grid-cols-2 gap-4">
         {reasons.map((reason, index) => (
@@ -0,0 +1,55 @@
+/**
+ * 🪣 BUCKETING DETERMINISTICO
+ *
+ * Per un rollout al 25% non si tira un dado a ogni chiamata (lo stesso
+ * utente vedrebbe la feature comparire e sparire): si calcola
+ *
+ *   bucket = hash(flagId + salt + userKey) % 10000
+ *
+ * e l'utente è dentro se bucket < percentuale × 100. Ne segue che:
+ *
+ * - lo stesso utente ottiene sempre la stessa risposta
+ * - alzare il rollout dal 25% al 50% tiene dentro chi c'era già
+ * - flag diversi (o salt diversi) distribuiscono gli utenti in modo indipendente
+ *
+ * L'hash è FNV-1a a 32 bit con il mescolamento finale di MurmurHash3,
+ * così anche chiavi quasi uguali (user-1, user-2...) finiscono lontane.
+ */
+
+export const BUCKET_COUNT = 10000;     // Granularità di 0,01%
+
+/**
+ * Hash a 32 bit senza segno di una stringa
+ */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // fmix32 di MurmurHash3
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+/**
+ * Bucket dell'utente per un flag, tra 0 e BUCKET_COUNT - 1.
+ * Il salt di default è l'id del flag: cambiarlo rimescola gli utenti.
+ */
+export const getBucket = (userKey: string, flagId: string, salt: string = flagId): number =>
+  hashString(`${flagId}:${salt}:${userKey}`) % BUCKET_COUNT;
+
+/**
+ * true se il bucket rientra nella percentuale (0-100, anche decimale)
+ */
+export const isInRollout = (bucket: number, percentage: number): boolean =>
+  bucket < Math.round(Math.min(100, Math.max(0, percentage)) * (BUCKET_COUNT / 100));
+
+/**
+ * Percentuale corrispondente a un bucket, per mostrarla (es. 37.12)
+ */
+export const bucketToPercentage = (bucket: number): number => bucket / (BUCKET_COUNT / 100);
@@ -0,0 +1,149 @@
+/**
+ * 🔀 CONFRONTO TRA AMBIENTI
+ *
+ * Confronta due configurazioni chiave per chiave (percorsi puntati)
+ * e segnala i valori "rischiosi": accettabili in development ma
+ * pericolosi in un ambiente più vicino agli utenti. Per ognuno indica
+ * se lo introduce uno dei due ambienti o se lo hanno entrambi.
+ */
+
+import { getEnvironmentDefinition, type Environment } from './environments';
+import { flattenValues } from './layers';
+import { environmentConfigSchema, type EnvironmentConfig } from './schema';
+
+export type ConfigDiffStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface ConfigDiffEntry {
+  path: string;
+  status: ConfigDiffStatus;
+  left: unknown;     // undefined se la chiave manca a sinistra
+  right: unknown;    // undefined se la chiave manca a destra
+}
+
+export type ConfigRiskSeverity = 'warning' | 'critical';
+
+export interface ConfigRisk {
+  environment: Environment;
+  path: string;
+  severity: ConfigRiskSeverity;
+  message: string;
+}
+
+// Dove compare il rischio: solo a sinistra, solo a destra o in entrambi gli ambienti
+export type ConfigRiskPresence = 'left' | 'right' | 'both';
+
+export interface ConfigDiffRisk extends ConfigRisk {
+  presence: ConfigRiskPresence;
+}
+
+export interface EnvironmentConfigDiff {
+  left: Environment;
+  right: Environment;
+  entries: ConfigDiffEntry[];
+  summary: Record<ConfigDiffStatus, number>;
+  risks: ConfigDiffRisk[];     // Tutti i rischi dei due ambienti, anche sulle chiavi uguali
+}
+
+/**
+ * Confronta due configurazioni qualsiasi.
+ * "added" = presente solo a destra, "removed" = presente solo a sinistra.
+ * Le chiavi seguono l'ordine dello schema, le eventuali extra in coda.
+ */
+export const diffConfigs = (left: unknown, right: unknown): ConfigDiffEntry[] => {
+  const leftValues = flattenValues(left);
+  const rightValues = flattenValues(right);
+  const schemaPaths = Object.keys(environmentConfigSchema);
+  const extraPaths = [...Object.keys(leftValues), ...Object.keys(rightValues)].filter(
+    path => !schemaPaths.includes(path)
+  );
+  const paths = [...new Set([...schemaPaths, ...extraPaths])].filter(
+    path => path in leftValues || path in rightValues
+  );
+
+  return paths.map(path => {
+    const inLeft = path in leftValues;
+    const inRight = path in rightValues;
+    const status: ConfigDiffStatus = !inLeft
+      ? 'added'
+      : !inRight
+        ? 'removed'
+        : Object.is(leftValues[path], rightValues[path])
+          ? 'unchanged'
+          : 'changed';
+
+    return { path, status, left: leftValues[path], right: rightValues[path] };
+  });
+};
+
+const isLocalUrl = (value: string): boolean => /^https?:\/\/(localhost|127\.0\.0\.1|0\.0\.0\.0)(:|\/|$)/.test(value);
+
+/**
+ * Valori rischiosi per lo stadio dell'ambiente (development, pre-production, production)
+ */
+export const findConfigRisks = (environment: Environment, config: EnvironmentConfig): ConfigRisk[] => {
+  const { stage } = getEnvironmentDefinition(environment);
+  const isProduction = stage === 'production';
+  const risks: ConfigRisk[] = [];
+  const add = (path: string, severity: ConfigRiskSeverity, message: string) => {
+    risks.push({ environment, path, severity, message });
+  };
+
+  if (stage === 'development') return risks;
+
+  if (config.debugMode) {
+    add('debugMode', isProduction ? 'critical' : 'warning', 'debugMode attivo fuori da development espone dettagli interni');
+  }
+  if (isLocalUrl(config.apiUrl)) {
+    add('apiUrl', 'critical', "apiUrl punta a un indirizzo locale: l'ambiente non raggiungerà il backend");
+  } else if (config.apiUrl.startsWith('http://')) {
+    add('apiUrl', isProduction ? 'critical' : 'warning', 'apiUrl non usa HTTPS');
+  }
+  if (isProduction && config.logLevel === 'debug') {
+    add('logLevel', 'warning', 'logLevel "debug" in produzione rallenta l\'app e può registrare dati sensibili');
+  }
+  if (isProduction && config.features.experimentalFeatures) {
+    add('features.experimentalFeatures', 'warning', 'funzionalità sperimentali attive per gli utenti reali');
+  }
+  if (isProduction && !config.features.errorReporting) {
+    add('features.errorReporting', 'warning', 'senza error reporting gli errori in produzione passano inosservati');
+  }
+
+  return risks;
+};
+
+/**
+ * Confronta due ambienti del registro: differenze, conteggi e rischi.
+ * Un rischio presente in entrambi (es. debugMode attivo sia in qa che in
+ * staging) non è una differenza, ma va comunque segnalato.
+ */
+export const compareEnvironments = (
+  left: Environment,
+  right: Environment,
+  registry: Record<Environment, EnvironmentConfig>
+): EnvironmentConfigDiff => {
+  const entries = diffConfigs(registry[left], registry[right]);
+
+  const summary: Record<ConfigDiffStatus, number> = { unchanged: 0, changed: 0, added: 0, removed: 0 };
+  entries.forEach(entry => {
+    summary[entry.status] += 1;
+  });
+
+  const leftRisks = findConfigRisks(left, registry[left]);
+  // Confrontando un ambiente con sé stesso ogni rischio è in entrambi: basta elencarlo una volta
+  const rightRisks = left === right ? [] : findConfigRisks(right, registry[right]);
+  const leftPaths = new Set(leftRisks.map(risk => risk.path));
+  const rightPaths = new Set(rightRisks.map(risk => risk.path));
+
+  const risks: ConfigDiffRisk[] = [
+    ...leftRisks.map(risk => ({
+      ...risk,
+      presence: left === right || rightPaths.has(risk.path) ? 'both' as const : 'left' as const,
+    })),
+    ...rightRisks.map(risk => ({
+      ...risk,
+      presence: leftPaths.has(risk.path) ? 'both' as const : 'right' as const,
+    })),
+  ];
+
+  return { left, right, entries, summary, risks };
+};
@@ -0,0 +1,310 @@
+/**
+ * 📦 EXPORT DELLA CONFIGURAZIONE
+ *
+ * Genera, a partire dalla configurazione di un ambiente, i file
+ * usati dai vari strumenti di deploy:
+ *
+ * - .env                    → sviluppo locale, build Vite
+ * - JSON / YAML             → config a runtime (config.json), strumenti generici.
+ *                             Solo EnvironmentConfig: niente valori extra né secrets
+ * - Kubernetes              → ConfigMap (valori pubblici) + Secret (valori sensibili)
+ * - docker-compose          → blocco environment: del servizio
+ * - Helm values.yaml        → valori per il chart
+ * - Terraform .tfvars       → variabili per l'infrastruttura
+ *
+ * Ogni formato ha le sue regole di quoting ed escaping: un valore con
+ * spazi, virgolette o "$" deve restare identico una volta letto dallo strumento.
+ * Il modulo è puro (nessun accesso al DOM): il download avviene nella UI.
+ */
+
+import { flattenValues } from './layers';
+import type { Environment } from './environments';
+import type { ConfigPrimitive, EnvironmentConfig } from './schema';
+
+export type ExportFormat = 'dotenv' | 'json' | 'yaml' | 'kubernetes' | 'docker-compose' | 'helm' | 'terraform';
+
+export interface ExportEntry {
+  key: string;              // Nome della variabile d'ambiente (es. VITE_API_URL)
+  path?: string;            // Percorso in EnvironmentConfig, assente per i valori extra (es. secrets)
+  value: ConfigPrimitive;
+  secret: boolean;          // true → finisce nel Secret, mai nella ConfigMap
+}
+
+export interface ExportArtifact {
+  format: ExportFormat;
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface ExportInput {
+  environment: Environment;
+  config: EnvironmentConfig;
+  extra?: ExportEntry[];     // Valori aggiuntivi, es. i secrets dell'ambiente
+}
+
+export const exportFormats: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'dotenv', label: '.env', description: 'File di variabili per Vite e sviluppo locale' },
+  { id: 'json', label: 'JSON', description: 'config.json per la configurazione a runtime, senza secrets' },
+  { id: 'yaml', label: 'YAML', description: 'Stessa struttura del JSON, in YAML' },
+  { id: 'kubernetes', label: 'Kubernetes', description: 'ConfigMap + Secret in un unico manifest' },
+  { id: 'docker-compose', label: 'docker-compose', description: 'Blocco environment: del servizio' },
+  { id: 'helm', label: 'Helm', description: 'values.yaml con sezioni config e secrets' },
+  { id: 'terraform', label: 'Terraform', description: 'Variabili .tfvars in sintassi HCL' },
+];
+
+const APP_NAME = 'environment-manager';
+
+/**
+ * "features.errorReporting" → "VITE_FEATURES_ERROR_REPORTING".
+ * Il nome dell'ambiente diventa VITE_APP_ENV, come lo legge getCurrentEnvironment().
+ */
+export const toEnvKey = (path: string): string => {
+  if (path === 'name') return 'VITE_APP_ENV';
+  const snake = path
+    .split('.')
+    .map(segment => segment.replace(/([a-z0-9])([A-Z])/g, '$1_$2'))
+    .join('_')
+    .toUpperCase();
+  return `VITE_${snake}`;
+};
+
+const toSnakeCase = (key: string): string => key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+export const collectExportEntries = (config: EnvironmentConfig, extra: ExportEntry[] = []): ExportEntry[] => {
+  const entries = Object.entries(flattenValues(config)).map(([path, value]) => ({
+    key: toEnvKey(path),
+    path,
+    value: value as ConfigPrimitive,
+    secret: false,
+  }));
+  return [...entries, ...extra];
+};
+
+// --- Quoting --------------------------------------------------------------
+
+/**
+ * .env: valori semplici senza virgolette, gli altri tra doppi apici.
+ * "$" viene preceduto da "\" per non essere interpretato come riferimento ${VAR}.
+ */
+export const quoteDotenv = (value: ConfigPrimitive): string => {
+  const text = String(value);
+  if (/^[A-Za-z0-9_./:@,+-]+$/.test(text)) return text;
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\$/g, '\\$');
+  return `"${escaped}"`;
+};
+
+/**
+ * YAML: le stringhe sono sempre tra doppi apici (sintassi compatibile con JSON),
+ * così "true", "null", "0755" o "a: b" non cambiano tipo né significato.
+ */
+export const quoteYaml = (value: ConfigPrimitive): string => {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+};
+
+const yamlKey = (key: string): string => (/^[A-Za-z_][A-Za-z0-9_.-]*$/.test(key) ? key : JSON.stringify(key));
+
+/**
+ * HCL (Terraform): oltre agli escape classici, "${" e "%{" aprirebbero
+ * un'interpolazione o una direttiva e vanno raddoppiati.
+ */
+export const quoteHcl = (value: ConfigPrimitive): string => {
+  if (typeof value !== 'string') return String(value);
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\$\{/g, '$$$${')
+    .replace(/%\{/g, '%%{');
+  return `"${escaped}"`;
+};
+
+/**
+ * docker-compose interpola "$VAR" anche nei valori: "$" letterale si scrive "$$"
+ */
+export const quoteCompose = (value: ConfigPrimitive): string => quoteYaml(String(value).replace(/\$/g, '$$$$'));
+
+// --- Serializzatori -------------------------------------------------------
+
+const toYaml = (value: unknown, indent = 0): string => {
+  const pad = ' '.repeat(indent);
+  return Object.entries(value as Record<string, unknown>)
+    .map(([key, child]) => {
+      if (child !== null && typeof child === 'object') {
+        const nested = toYaml(child, indent + 2);
+        return nested ? `${pad}${yamlKey(key)}:\n${nested}` : `${pad}${yamlKey(key)}: {}`;
+      }
+      return `${pad}${yamlKey(key)}: ${quoteYaml(child as ConfigPrimitive)}`;
+    })
+    .join('\n');
+};
+
+const toHcl = (value: unknown, indent = 0): string => {
+  const pad = ' '.repeat(indent);
+  return Object.entries(value as Record<string, unknown>)
+    .map(([key, child]) => {
+      const name = toSnakeCase(key);
+      if (child !== null && typeof child === 'object') {
+        return `${pad}${name} = {\n${toHcl(child, indent + 2)}\n${pad}}`;
+      }
+      return `${pad}${name} = ${quoteHcl(child as ConfigPrimitive)}`;
+    })
+    .join('\n');
+};
+
+const header = (environment: Environment) => `# Generato da ${APP_NAME} per l'ambiente "${environment}"`;
+
+const exportDotenv = ({ environment }: ExportInput, entries: ExportEntry[]): string => {
+  const lines = [header(environment)];
+  const publicEntries = entries.filter(entry => !entry.secret);
+  const secretEntries = entries.filter(entry => entry.secret);
+
+  lines.push(...publicEntries.map(entry => `${entry.key}=${quoteDotenv(entry.value)}`));
+  if (secretEntries.length > 0) {
+    lines.push('', '# Secrets: non committare questo file');
+    lines.push(...secretEntries.map(entry => `${entry.key}=${quoteDotenv(entry.value)}`));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Valori extra (senza percorso in EnvironmentConfig) divisi tra pubblici e sensibili
+ */
+const extraValues = (entries: ExportEntry[], secret: boolean): Record<string, ConfigPrimitive> => {
+  return Object.fromEntries(
+    entries.filter(entry => !entry.path && entry.secret === secret).map(entry => [entry.key, entry.value])
+  );
+};
+
+/**
+ * Struttura annidata per Helm: config + eventuali sezioni env e secrets.
+ * JSON e YAML invece esportano solo la config: sono file pubblici, letti
+ * da loadRuntimeConfig() che rifiuta qualsiasi chiave fuori dallo schema.
+ */
+const structuredValues = (config: EnvironmentConfig, entries: ExportEntry[]): Record<string, unknown> => {
+  const env = extraValues(entries, false);
+  const secrets = extraValues(entries, true);
+  return {
+    ...config,
+    ...(Object.keys(env).length > 0 ? { env } : {}),
+    ...(Object.keys(secrets).length > 0 ? { secrets } : {}),
+  };
+};
+
+const exportKubernetes = ({ environment }: ExportInput, entries: ExportEntry[]): string => {
+  const name = `${APP_NAME}-${environment}`;
+  const labels = ['  labels:', `    app.kubernetes.io/name: ${APP_NAME}`, `    environment: ${quoteYaml(environment)}`];
+  const data = (list: ExportEntry[]) => list.map(entry => `  ${yamlKey(entry.key)}: ${quoteYaml(String(entry.value))}`);
+
+  const configMap = [
+    'apiVersion: v1',
+    'kind: ConfigMap',
+    'metadata:',
+    `  name: ${name}-config`,
+    ...labels,
+    'data:',
+    ...data(entries.filter(entry => !entry.secret)),
+  ];
+
+  const secretEntries = entries.filter(entry => entry.secret);
+  const secret = secretEntries.length > 0
+    ? [
+        'apiVersion: v1',
+        'kind: Secret',
+        'metadata:',
+        `  name: ${name}-secrets`,
+        ...labels,
+        'type: Opaque',
+        '# stringData: Kubernetes codifica in base64 al momento dell\'apply',
+        'stringData:',
+        ...data(secretEntries),
+      ]
+    : ['# Nessun valore sensibile: Secret non generato'];
+
+  return `${header(environment)}\n${configMap.join('\n')}\n---\n${secret.join('\n')}\n`;
+};
+
+const exportCompose = ({ environment }: ExportInput, entries: ExportEntry[]): string => {
+  const lines = [
+    header(environment),
+    'services:',
+    '  app:',
+    '    environment:',
+    ...entries.map(entry =>
+      entry.secret
+        // I secrets non finiscono nel file: compose li legge dalla shell o da un .env non committato
+        ? `      ${yamlKey(entry.key)}: "\${${entry.key}:?${entry.key} mancante}"`
+        : `      ${yamlKey(entry.key)}: ${quoteCompose(entry.value)}`
+    ),
+  ];
+  return `${lines.join('\n')}\n`;
+};
+
+const exportHelm = ({ environment, config }: ExportInput, entries: ExportEntry[]): string => {
+  const values = { environment, ...structuredValues(config, entries) };
+  return `${header(environment)}\n${toYaml(values)}\n`;
+};
+
+const exportTerraform = ({ environment, config }: ExportInput, entries: ExportEntry[]): string => {
+  const hclMap = (name: string, values: Record<string, ConfigPrimitive>) =>
+    [`${name} = {`, ...Object.entries(values).map(([key, value]) => `  ${key} = ${quoteHcl(value)}`), '}'].join('\n');
+
+  const lines = [header(environment), toHcl({ environment, ...config })];
+  const env = extraValues(entries, false);
+  const secrets = extraValues(entries, true);
+  if (Object.keys(env).length > 0) {
+    lines.push('', hclMap('env', env));
+  }
+  if (Object.keys(secrets).length > 0) {
+    lines.push('', '# Secrets: dichiarare la variabile con sensitive = true', hclMap('secrets', secrets));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Genera il file per il formato richiesto
+ */
+export const exportConfig = (format: ExportFormat, input: ExportInput): ExportArtifact => {
+  const entries = collectExportEntries(input.config, input.extra);
+  const base = input.environment;
+
+  switch (format) {
+    case 'dotenv':
+      return { format, filename: `.env.${base}`, mimeType: 'text/plain', content: exportDotenv(input, entries) };
+    case 'json':
+      return {
+        format,
+        filename: `config.${base}.json`,
+        mimeType: 'application/json',
+        content: `${JSON.stringify(input.config, null, 2)}\n`,
+      };
+    case 'yaml':
+      return {
+        format,
+        filename: `config.${base}.yaml`,
+        mimeType: 'application/yaml',
+        content: `${header(input.environment)}\n${toYaml(input.config)}\n`,
+      };
+    case 'kubernetes':
+      return { format, filename: `${base}.k8s.yaml`, mimeType: 'application/yaml', content: exportKubernetes(input, entries) };
+    case 'docker-compose':
+      return {
+        format,
+        filename: `docker-compose.${base}.yaml`,
+        mimeType: 'application/yaml',
+        content: exportCompose(input, entries),
+      };
+    case 'helm':
+      return { format, filename: `values-${base}.yaml`, mimeType: 'application/yaml', content: exportHelm(input, entries) };
+    case 'terraform':
+      return { format, filename: `${base}.tfvars`, mimeType: 'text/plain', content: exportTerraform(input, entries) };
+  }
+};
@@ -0,0 +1,248 @@
+/**
+ * 📝 STORICO DELLE MODIFICHE ALLA CONFIGURAZIONE
+ *
+ * Ogni modifica fatta dalla UI viene registrata come evento:
+ * chi, quando, valore precedente, valore nuovo e (opzionale) il motivo.
+ *
+ * Lo storico è "append-only": la configurazione corrente si ottiene
+ * riapplicando tutte le modifiche sopra i valori di build. Anche annullare
+ * una modifica o ripristinare uno stato passato aggiunge nuovi eventi,
+ * così la timeline racconta sempre tutto ciò che è successo.
+ */
+
+import type { Environment } from './environments';
+import { unflattenValues } from './layers';
+import { validateSecretReferences } from './secrets';
+import {
+  checkFieldValue,
+  ConfigValidationError,
+  environmentConfigSchema,
+  getAtPath,
+  setAtPath,
+  type ConfigPrimitive,
+  type EnvironmentConfig,
+} from './schema';
+
+export const CONFIG_HISTORY_STORAGE_KEY = 'environment-manager:config-history';
+
+/**
+ * Provenienza mostrata per le chiavi modificate dalla UI
+ */
+export const EDITED_LAYER = 'modifica manuale';
+
+/**
+ * Identificativo speciale per ripristinare lo stato iniziale (nessuna modifica applicata)
+ */
+export const INITIAL_SNAPSHOT = 'initial';
+
+/**
+ * "name" identifica l'ambiente nel registro: non si modifica dalla UI
+ */
+export const EDITABLE_CONFIG_PATHS = Object.keys(environmentConfigSchema).filter(path => path !== 'name');
+
+export type ConfigChangeKind = 'edit' | 'revert' | 'restore';
+
+export interface ConfigChange {
+  id: string;
+  kind: ConfigChangeKind;
+  environment: Environment;
+  path: string;
+  oldValue: ConfigPrimitive;
+  newValue: ConfigPrimitive;
+  author: string;
+  timestamp: string;          // ISO 8601
+  reason?: string;
+  target?: string;            // Modifica annullata (revert) o stato ripristinato (restore)
+}
+
+export type ConfigRegistry = Record<Environment, EnvironmentConfig>;
+
+export interface ChangeRequest {
+  environment: Environment;
+  path: string;
+  value: ConfigPrimitive;
+  author: string;
+  reason?: string;
+  now?: Date;
+}
+
+const cloneRegistry = (registry: ConfigRegistry): ConfigRegistry => {
+  return JSON.parse(JSON.stringify(registry)) as ConfigRegistry;
+};
+
+const CHANGE_ID_PREFIX = 'chg-';
+
+// Dal suffisso più alto, non dalla lunghezza: lo storico caricato può aver
+// perso voci non valide, e revert/restore cercano le modifiche per id
+const nextId = (history: ConfigChange[]): string => {
+  const highest = history.reduce((max, change) => {
+    const suffix = change.id.startsWith(CHANGE_ID_PREFIX) ? Number(change.id.slice(CHANGE_ID_PREFIX.length)) : NaN;
+    return Number.isInteger(suffix) ? Math.max(max, suffix) : max;
+  }, 0);
+  return `${CHANGE_ID_PREFIX}${highest + 1}`;
+};
+
+/**
+ * Riapplica lo storico sopra la configurazione di build
+ */
+export const replayHistory = (base: ConfigRegistry, history: ConfigChange[]): ConfigRegistry => {
+  const registry = cloneRegistry(base);
+  history.forEach(change => {
+    if (!(change.environment in registry)) return;
+    setAtPath(registry[change.environment] as unknown as Record<string, unknown>, change.path, change.newValue);
+  });
+  return registry;
+};
+
+/**
+ * Stato della configurazione subito dopo una modifica (o quello iniziale)
+ */
+export const snapshotAt = (base: ConfigRegistry, history: ConfigChange[], changeId: string): ConfigRegistry => {
+  if (changeId === INITIAL_SNAPSHOT) return cloneRegistry(base);
+
+  const index = history.findIndex(change => change.id === changeId);
+  if (index === -1) {
+    throw new Error(`Modifica "${changeId}" non trovata nello storico`);
+  }
+  return replayHistory(base, history.slice(0, index + 1));
+};
+
+/**
+ * Valida e registra una modifica. Ritorna null se il valore non cambia.
+ */
+export const createChange = (
+  registry: ConfigRegistry,
+  history: ConfigChange[],
+  { environment, path, value, author, reason, now = new Date() }: ChangeRequest,
+  kind: ConfigChangeKind = 'edit',
+  target?: string
+): ConfigChange | null => {
+  if (!(environment in registry)) {
+    throw new Error(`Ambiente "${environment}" non registrato`);
+  }
+  if (!EDITABLE_CONFIG_PATHS.includes(path)) {
+    throw new Error(`La chiave "${path}" non è modificabile`);
+  }
+
+  const problem = checkFieldValue(environmentConfigSchema[path], value);
+  if (problem) {
+    throw new ConfigValidationError([{ environment, path, message: problem }]);
+  }
+  const secretIssues = validateSecretReferences(environment, unflattenValues({ [path]: value }));
+  if (secretIssues.length > 0) {
+    throw new ConfigValidationError(secretIssues);
+  }
+
+  const oldValue = getAtPath(registry[environment], path) as ConfigPrimitive;
+  if (Object.is(oldValue, value)) return null;
+
+  return {
+    id: nextId(history),
+    kind,
+    environment,
+    path,
+    oldValue,
+    newValue: value,
+    author: author.trim() || 'anonimo',
+    timestamp: now.toISOString(),
+    ...(reason?.trim() ? { reason: reason.trim() } : {}),
+    ...(target ? { target } : {}),
+  };
+};
+
+/**
+ * Annulla una singola modifica riportando la chiave al valore precedente
+ */
+export const createRevert = (
+  registry: ConfigRegistry,
+  history: ConfigChange[],
+  changeId: string,
+  author: string,
+  reason?: string,
+  now: Date = new Date()
+): ConfigChange | null => {
+  const change = history.find(item => item.id === changeId);
+  if (!change) {
+    throw new Error(`Modifica "${changeId}" non trovata nello storico`);
+  }
+
+  return createChange(
+    registry,
+    history,
+    { environment: change.environment, path: change.path, value: change.oldValue, author, reason, now },
+    'revert',
+    changeId
+  );
+};
+
+/**
+ * Riporta TUTTI gli ambienti allo stato di un momento passato.
+ * Genera una modifica per ogni chiave che differisce dallo stato attuale.
+ */
+export const createRestore = (
+  base: ConfigRegistry,
+  history: ConfigChange[],
+  changeId: string,
+  author: string,
+  reason?: string,
+  now: Date = new Date()
+): ConfigChange[] => {
+  const snapshot = snapshotAt(base, history, changeId);
+  const current = replayHistory(base, history);
+  const changes: ConfigChange[] = [];
+
+  Object.keys(current).forEach(environment => {
+    EDITABLE_CONFIG_PATHS.forEach(path => {
+      const value = getAtPath(snapshot[environment], path) as ConfigPrimitive;
+      const change = createChange(
+        current,
+        [...history, ...changes],
+        { environment, path, value, author, reason, now },
+        'restore',
+        changeId
+      );
+      if (change) changes.push(change);
+    });
+  });
+
+  return changes;
+};
+
+/**
+ * Una voce salvata è valida solo se i suoi valori rispettano lo schema della
+ * chiave: altrimenti un restore rimetterebbe in config un valore del tipo sbagliato
+ */
+const isConfigChange = (value: unknown): value is ConfigChange => {
+  if (value === null || typeof value !== 'object') return false;
+  const change = value as Record<string, unknown>;
+  return (
+    typeof change.id === 'string' &&
+    typeof change.environment === 'string' &&
+    typeof change.path === 'string' &&
+    typeof change.author === 'string' &&
+    typeof change.timestamp === 'string' &&
+    ['edit', 'revert', 'restore'].includes(change.kind as string) &&
+    EDITABLE_CONFIG_PATHS.includes(change.path) &&
+    checkFieldValue(environmentConfigSchema[change.path], change.oldValue) === null &&
+    checkFieldValue(environmentConfigSchema[change.path], change.newValue) === null
+  );
+};
+
+/**
+ * Legge lo storico salvato. Dati corrotti o illeggibili = storico vuoto.
+ */
+export const loadConfigHistory = (storage: Pick<Storage, 'getItem'> | undefined = globalThis.localStorage): ConfigChange[] => {
+  try {
+    const parsed: unknown = JSON.parse(storage?.getItem(CONFIG_HISTORY_STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isConfigChange) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveConfigHistory = (
+  history: ConfigChange[],
+  storage: Pick<Storage, 'setItem'> | undefined = globalThis.localStorage
+): void => {
+  storage?.setItem(CONFIG_HISTORY_STORAGE_KEY, JSON.stringify(history));
+};
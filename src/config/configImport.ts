@@ -0,0 +1,348 @@
+/**
+ * 📥 IMPORT DELLA CONFIGURAZIONE
+ *
+ * Il percorso inverso dell'export: si parte da un file esistente
+ * (.env, JSON, YAML o ConfigMap Kubernetes) e si arriva a una
+ * configurazione valida per un ambiente del registro.
+ *
+ * 1. parseImportSource  → chiavi e valori "grezzi" del file
+ * 2. suggestMapping     → per ogni chiave, il campo di EnvironmentConfig più simile
+ * 3. buildImportPreview → valori convertiti e validati contro lo schema
+ */
+
+import { parseAllDocuments } from 'yaml';
+import { parseDotenv, expandValue } from './dotenv';
+import { EDITABLE_CONFIG_PATHS } from './configHistory';
+import { toEnvKey } from './configExport';
+import { environments, type Environment, type EnvironmentDefinition, type EnvironmentStage } from './environments';
+import { flattenValues, unflattenValues } from './layers';
+import { validateSecretReferences } from './secrets';
+import {
+  environmentConfigSchema,
+  setAtPath,
+  validateConfig,
+  validatePartialConfig,
+  type ConfigFieldSchema,
+  type ConfigPrimitive,
+  type ConfigValidationIssue,
+  type DeepPartial,
+  type EnvironmentConfig,
+} from './schema';
+
+export const IMPORTED_ENVIRONMENTS_STORAGE_KEY = 'environment-manager:imported-environments';
+
+export type ImportFormat = 'dotenv' | 'json' | 'yaml' | 'configmap';
+
+export const importFormats: { id: ImportFormat; label: string }[] = [
+  { id: 'dotenv', label: '.env' },
+  { id: 'json', label: 'JSON' },
+  { id: 'yaml', label: 'YAML' },
+  { id: 'configmap', label: 'ConfigMap' },
+];
+
+export interface ParsedImport {
+  format: ImportFormat;
+  values: Record<string, ConfigPrimitive>;   // Chiave (anche puntata) → valore
+  errors: string[];
+}
+
+export interface MappingSuggestion {
+  source: string;
+  target: string | null;
+  score: number;            // 0..1, somiglianza tra i nomi
+}
+
+/** Chiave sorgente → percorso in EnvironmentConfig (null = ignorata) */
+export type ImportMapping = Record<string, string | null>;
+
+export interface ImportPreview {
+  values: DeepPartial<EnvironmentConfig>;
+  config: EnvironmentConfig | null;         // null se ci sono errori
+  issues: ConfigValidationIssue[];
+}
+
+export interface ImportedEnvironment {
+  definition: EnvironmentDefinition;
+  config: EnvironmentConfig;
+}
+
+// --- Parsing ----------------------------------------------------------------
+
+export const detectImportFormat = (source: string): ImportFormat => {
+  const text = source.trim();
+  if (text.startsWith('{')) return 'json';
+  if (/^kind:\s*["']?ConfigMap["']?\s*$/m.test(text)) return 'configmap';
+
+  const meaningful = text.split('\n').filter(line => line.trim() && !line.trim().startsWith('#'));
+  const looksLikeDotenv = meaningful.length > 0 && meaningful.every(line => /^(export\s+)?[A-Za-z_][A-Za-z0-9_]*=/.test(line));
+  return looksLikeDotenv ? 'dotenv' : 'yaml';
+};
+
+const collectPrimitives = (source: unknown, errors: string[]): Record<string, ConfigPrimitive> => {
+  const values: Record<string, ConfigPrimitive> = {};
+  Object.entries(flattenValues(source)).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'number') {
+      values[key] = value;
+    } else if (value !== null && value !== undefined) {
+      errors.push(`${key}: valore non supportato (${Array.isArray(value) ? 'array' : typeof value})`);
+    }
+  });
+  return values;
+};
+
+const parseYamlDocuments = (source: string, errors: string[]): unknown[] => {
+  return parseAllDocuments(source).flatMap(document => {
+    if (document.errors.length > 0) {
+      errors.push(...document.errors.map(error => error.message));
+      return [];
+    }
+    return [document.toJS()];
+  });
+};
+
+export const parseImportSource = (source: string, format: ImportFormat = detectImportFormat(source)): ParsedImport => {
+  const errors: string[] = [];
+
+  if (format === 'dotenv') {
+    const parsed = parseDotenv(source);
+    const values: Record<string, string> = {};
+    parsed.entries.forEach(entry => {
+      values[entry.key] = entry.interpolate ? expandValue(entry.value, key => values[key]) : entry.value;
+    });
+    errors.push(...parsed.errors.map(error => `riga ${error.line}: ${error.message}`));
+    return { format, values, errors };
+  }
+
+  if (format === 'json') {
+    try {
+      const parsed: unknown = JSON.parse(source);
+      if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return { format, values: {}, errors: ['il JSON deve essere un oggetto'] };
+      }
+      return { format, values: collectPrimitives(parsed, errors), errors };
+    } catch (error) {
+      return { format, values: {}, errors: [`JSON non valido: ${(error as Error).message}`] };
+    }
+  }
+
+  const documents = parseYamlDocuments(source, errors);
+
+  if (format === 'configmap') {
+    const configMap = documents.find(
+      (document): document is { data?: unknown } =>
+        document !== null && typeof document === 'object' && (document as { kind?: unknown }).kind === 'ConfigMap'
+    );
+    if (!configMap) {
+      return { format, values: {}, errors: [...errors, 'nessun documento con kind: ConfigMap'] };
+    }
+    return { format, values: collectPrimitives(configMap.data ?? {}, errors), errors };
+  }
+
+  return {
+    format,
+    values: documents.reduce<Record<string, ConfigPrimitive>>(
+      (values, document) => ({ ...values, ...collectPrimitives(document, errors) }),
+      {}
+    ),
+    errors,
+  };
+};
+
+// --- Mappatura ---------------------------------------------------------------
+
+const KNOWN_PREFIXES = /^(vite|react_app|next_public|app)_/i;
+
+/**
+ * "VITE_FEATURES_ERROR_REPORTING", "features.errorReporting" → "featureserrorreporting"
+ */
+export const normalizeKeyName = (key: string): string => {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(KNOWN_PREFIXES, '')
+    .replace(/[^A-Za-z0-9]/g, '')
+    .toLowerCase();
+};
+
+const bigrams = (text: string): string[] => {
+  return Array.from({ length: Math.max(text.length - 1, 0) }, (_, index) => text.slice(index, index + 2));
+};
+
+/**
+ * Coefficiente di Dice sui bigrammi dei nomi normalizzati (1 = identici)
+ */
+export const keySimilarity = (a: string, b: string): number => {
+  const left = normalizeKeyName(a);
+  const right = normalizeKeyName(b);
+  if (left === right) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  if (leftPairs.length === 0 || rightPairs.length === 0) return 0;
+
+  const remaining = [...rightPairs];
+  let matches = 0;
+  leftPairs.forEach(pair => {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      matches += 1;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * matches) / (leftPairs.length + rightPairs.length);
+};
+
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * Propone un campo per ogni chiave sorgente. Ogni campo viene assegnato
+ * al massimo una volta, partendo dalle coppie più somiglianti.
+ */
+export const suggestMapping = (
+  sourceKeys: string[],
+  targets: string[] = EDITABLE_CONFIG_PATHS
+): MappingSuggestion[] => {
+  const candidates = sourceKeys
+    .flatMap(source =>
+      targets.map(target => ({
+        source,
+        target,
+        score: Math.max(keySimilarity(source, target), keySimilarity(source, toEnvKey(target))),
+      }))
+    )
+    .filter(candidate => candidate.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const assigned = new Map<string, MappingSuggestion>();
+  const usedTargets = new Set<string>();
+  candidates.forEach(candidate => {
+    if (assigned.has(candidate.source) || usedTargets.has(candidate.target)) return;
+    assigned.set(candidate.source, candidate);
+    usedTargets.add(candidate.target);
+  });
+
+  return sourceKeys.map(source => assigned.get(source) ?? { source, target: null, score: 0 });
+};
+
+// --- Anteprima e validazione --------------------------------------------------
+
+const TRUE_VALUES = ['true', '1', 'yes', 'on'];
+const FALSE_VALUES = ['false', '0', 'no', 'off'];
+
+/**
+ * I file .env e le ConfigMap contengono solo stringhe: le convertiamo
+ * nel tipo atteso dal campo. Se la conversione non è possibile il valore
+ * resta com'è e sarà la validazione a segnalarlo.
+ */
+export const coerceImportValue = (field: ConfigFieldSchema, raw: ConfigPrimitive): ConfigPrimitive => {
+  if (typeof raw !== 'string') return raw;
+  const text = raw.trim();
+  if (field.type === 'boolean') {
+    if (TRUE_VALUES.includes(text.toLowerCase())) return true;
+    if (FALSE_VALUES.includes(text.toLowerCase())) return false;
+  }
+  if (field.type === 'number' && text !== '' && !Number.isNaN(Number(text))) {
+    return Number(text);
+  }
+  return raw;
+};
+
+/**
+ * Applica la mappatura e valida il risultato.
+ * Con `base` si aggiorna un ambiente esistente (bastano le chiavi importate),
+ * senza si crea un ambiente nuovo (servono tutte le chiavi obbligatorie).
+ */
+export const buildImportPreview = ({
+  environment,
+  values,
+  mapping,
+  base,
+}: {
+  environment: Environment;
+  values: Record<string, ConfigPrimitive>;
+  mapping: ImportMapping;
+  base?: EnvironmentConfig;
+}): ImportPreview => {
+  const partial: Record<string, unknown> = {};
+  const issues: ConfigValidationIssue[] = [];
+  const sourcesByTarget = new Map<string, string[]>();
+
+  Object.entries(mapping).forEach(([source, target]) => {
+    if (!target || !(source in values)) return;
+    sourcesByTarget.set(target, [...(sourcesByTarget.get(target) ?? []), source]);
+    setAtPath(partial, target, coerceImportValue(environmentConfigSchema[target], values[source]));
+  });
+
+  sourcesByTarget.forEach((sources, target) => {
+    if (sources.length > 1) {
+      issues.push({ environment, path: target, message: `mappato da più chiavi: ${sources.join(', ')}` });
+    }
+  });
+
+  const imported = partial as DeepPartial<EnvironmentConfig>;
+
+  issues.push(...validateSecretReferences(environment, imported));
+
+  if (base) {
+    issues.push(...validatePartialConfig(environment, imported));
+    const config = unflattenValues({ ...flattenValues(base), ...flattenValues(imported) }) as unknown as EnvironmentConfig;
+    return { values: imported, config: issues.length === 0 ? config : null, issues };
+  }
+
+  const result = validateConfig(environment, { ...imported, name: environment });
+  issues.push(...result.issues);
+  return { values: imported, config: issues.length === 0 ? result.config : null, issues };
+};
+
+// --- Nuovi ambienti ----------------------------------------------------------
+
+const stageColors: Record<EnvironmentStage, EnvironmentDefinition['color']> = {
+  development: 'primary',
+  'pre-production': 'accent',
+  production: 'success',
+};
+
+/**
+ * Definizione di registro per un ambiente nato da un import
+ */
+export const createImportedDefinition = ({
+  id,
+  displayName,
+  stage,
+}: {
+  id: Environment;
+  displayName: string;
+  stage: EnvironmentStage;
+}): EnvironmentDefinition => ({
+  id,
+  displayName: displayName.trim() || id,
+  color: stageColors[stage],
+  order: Math.max(0, ...environments.map(env => env.order)) + 10,
+  stage,
+  description: 'Ambiente creato importando una configurazione',
+  highlights: ['Importato'],
+  pipeline: { branch: id, target: displayName.trim() || id, autoDeploy: false, requiresApproval: stage === 'production' },
+});
+
+export const loadImportedEnvironments = (
+  storage: Pick<Storage, 'getItem'> | undefined = globalThis.localStorage
+): ImportedEnvironment[] => {
+  try {
+    const parsed: unknown = JSON.parse(storage?.getItem(IMPORTED_ENVIRONMENTS_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    // Le configurazioni salvate vengono rivalidate: lo schema potrebbe essere cambiato
+    return parsed.filter((item: ImportedEnvironment) => {
+      if (!item?.definition?.id) return false;
+      return validateConfig(item.definition.id, item.config).issues.length === 0 &&
+        validateSecretReferences(item.definition.id, item.config).length === 0;
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveImportedEnvironments = (
+  imported: ImportedEnvironment[],
+  storage: Pick<Storage, 'setItem'> | undefined = globalThis.localStorage
+): void => {
+  storage?.setItem(IMPORTED_ENVIRONMENTS_STORAGE_KEY, JSON.stringify(imported));
+};
@@ -0,0 +1,176 @@
+/**
+ * 📄 PARSER DEI FILE .env
+ *
+ * Implementa la sintassi usata da dotenv (e quindi da Vite):
+ *
+ *   # commento
+ *   export API_URL=https://api.example.com   # commento in linea
+ *   GREETING="Ciao\nmondo"                   # escape nelle doppie virgolette
+ *   RAW='${NON_ESPANSO}'                      # singole virgolette: valore letterale
+ *   PRIVATE_KEY="-----BEGIN KEY-----
+ *   ...righe multiple...
+ *   -----END KEY-----"
+ *   API_ENDPOINT=${API_URL}/v2               # interpolazione
+ *
+ * Il parser non interrompe la lettura al primo errore: raccoglie
+ * tutte le righe non valide con il loro numero, come farebbe un linter.
+ */
+
+export interface DotenvEntry {
+  key: string;
+  value: string;
+  line: number;          // Riga (1-based) in cui inizia la definizione
+  interpolate: boolean;  // false per i valori tra singole virgolette
+}
+
+export interface DotenvParseError {
+  line: number;
+  message: string;
+}
+
+export interface DotenvParseResult {
+  entries: DotenvEntry[];
+  errors: DotenvParseError[];
+}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const ASSIGNMENT_PATTERN = /^(?:export\s+)?([^=\s]+)\s*=\s*(.*)$/;
+const QUOTES = ['"', "'", '`'];
+
+/**
+ * Trova la virgoletta di chiusura, ignorando quelle precedute da "\"
+ * quando il valore è tra doppie virgolette
+ */
+const findClosingQuote = (text: string, quote: string): number => {
+  for (let index = 0; index < text.length; index++) {
+    if (quote === '"' && text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (text[index] === quote) return index;
+  }
+  return -1;
+};
+
+const unescapeDoubleQuoted = (value: string): string => {
+  return value.replace(/\\([nrt"\\])/g, (_, char: string) => {
+    switch (char) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      default: return char;
+    }
+  });
+};
+
+/**
+ * Analizza il contenuto di un file .env
+ */
+export const parseDotenv = (source: string): DotenvParseResult => {
+  const entries: DotenvEntry[] = [];
+  const errors: DotenvParseError[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+
+  let index = 0;
+  while (index < lines.length) {
+    const lineNumber = index + 1;
+    const trimmed = lines[index].trim();
+    index++;
+
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const match = ASSIGNMENT_PATTERN.exec(trimmed);
+    if (!match) {
+      errors.push({ line: lineNumber, message: 'riga non valida: atteso KEY=VALUE' });
+      continue;
+    }
+
+    const [, key, rest] = match;
+    if (!KEY_PATTERN.test(key)) {
+      errors.push({ line: lineNumber, message: `nome di variabile non valido: "${key}"` });
+      continue;
+    }
+
+    const quote = rest.trimStart()[0];
+    if (!QUOTES.includes(quote)) {
+      // Valore senza virgolette: " #" apre un commento in linea
+      const commentStart = rest.search(/\s#/);
+      entries.push({
+        key,
+        value: (commentStart === -1 ? rest : rest.slice(0, commentStart)).trim(),
+        line: lineNumber,
+        interpolate: true,
+      });
+      continue;
+    }
+
+    // Valore tra virgolette: può proseguire sulle righe successive
+    let buffer = rest.trimStart().slice(1);
+    let closing = findClosingQuote(buffer, quote);
+    while (closing === -1 && index < lines.length) {
+      buffer += '\n' + lines[index];
+      index++;
+      closing = findClosingQuote(buffer, quote);
+    }
+
+    if (closing === -1) {
+      errors.push({ line: lineNumber, message: `virgolette ${quote} non chiuse` });
+      continue;
+    }
+
+    const trailing = buffer.slice(closing + 1).trim();
+    if (trailing && !trailing.startsWith('#')) {
+      errors.push({ line: lineNumber, message: `contenuto inatteso dopo le virgolette: "${trailing}"` });
+      continue;
+    }
+
+    const inner = buffer.slice(0, closing);
+    entries.push({
+      key,
+      value: quote === '"' ? unescapeDoubleQuoted(inner) : inner,
+      line: lineNumber,
+      interpolate: quote !== "'",
+    });
+  }
+
+  return { entries, errors };
+};
+
+const REFERENCE_PATTERN = /\\\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}|\$([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Sostituisce ${VAR}, ${VAR:-default} e $VAR usando la funzione di lookup.
+ * "\$" produce un dollaro letterale. Le variabili sconosciute diventano
+ * stringa vuota, come in dotenv-expand.
+ */
+export const expandValue = (value: string, lookup: (key: string) => string | undefined): string => {
+  return value.replace(REFERENCE_PATTERN, (match, braced?: string, fallback?: string, bare?: string) => {
+    if (match === '\\$') return '$';
+    const resolved = lookup(braced ?? bare ?? '');
+    if (resolved !== undefined && resolved !== '') return resolved;
+    return fallback ?? resolved ?? '';
+  });
+};
+
+/**
+ * Comodità: analizza ed espande un singolo file isolato
+ */
+export const parseDotenvToRecord = (source: string): Record<string, string> => {
+  const { entries } = parseDotenv(source);
+  const raw = new Map(entries.map(entry => [entry.key, entry] as const));
+  const resolved: Record<string, string> = {};
+  const resolving = new Set<string>();
+
+  const resolve = (key: string): string | undefined => {
+    if (key in resolved) return resolved[key];
+    const entry = raw.get(key);
+    if (!entry || resolving.has(key)) return undefined;
+    resolving.add(key);
+    resolved[key] = entry.interpolate ? expandValue(entry.value, resolve) : entry.value;
+    resolving.delete(key);
+    return resolved[key];
+  };
+
+  raw.forEach((_, key) => resolve(key));
+  return resolved;
+};
@@ -0,0 +1,102 @@
+// ⚠️ FILE GENERATO da scripts/generate-env-types.ts: non modificare a mano.
+// Dopo aver cambiato lo schema (src/config/schema.ts) esegui `npm run generate:env`.
+
+import { getAtPath, type EnvironmentConfig } from './schema';
+
+declare global {
+  interface ImportMetaEnv {
+    /** Identificativo tecnico dell'ambiente */
+    readonly VITE_APP_ENV?: 'development' | 'preview' | 'qa' | 'staging' | 'canary' | 'production';
+    /** Nome leggibile dell'ambiente */
+    readonly VITE_DISPLAY_NAME?: string;
+    /** URL base delle API backend */
+    readonly VITE_API_URL?: string;
+    /** Abilita informazioni di debug aggiuntive */
+    readonly VITE_DEBUG_MODE?: 'true' | 'false';
+    /** Livello minimo dei log registrati */
+    readonly VITE_LOG_LEVEL?: 'debug' | 'info' | 'warn' | 'error';
+    /** Tracciamento del comportamento degli utenti */
+    readonly VITE_FEATURES_ANALYTICS?: 'true' | 'false';
+    /** Invio automatico degli errori (es. Sentry) */
+    readonly VITE_FEATURES_ERROR_REPORTING?: 'true' | 'false';
+    /** Funzionalità sperimentali non ancora stabili */
+    readonly VITE_FEATURES_EXPERIMENTAL_FEATURES?: 'true' | 'false';
+    /** URL della configurazione a runtime (es. /config.json) */
+    readonly VITE_RUNTIME_CONFIG_URL?: string;
+  }
+}
+
+/**
+ * Variabili lette dall'app: un nome sbagliato non compila
+ */
+export interface AppEnv {
+  readonly MODE: string;
+  /** Identificativo tecnico dell'ambiente */
+  readonly VITE_APP_ENV?: 'development' | 'preview' | 'qa' | 'staging' | 'canary' | 'production';
+  /** Nome leggibile dell'ambiente */
+  readonly VITE_DISPLAY_NAME?: string;
+  /** URL base delle API backend */
+  readonly VITE_API_URL?: string;
+  /** Abilita informazioni di debug aggiuntive */
+  readonly VITE_DEBUG_MODE?: 'true' | 'false';
+  /** Livello minimo dei log registrati */
+  readonly VITE_LOG_LEVEL?: 'debug' | 'info' | 'warn' | 'error';
+  /** Tracciamento del comportamento degli utenti */
+  readonly VITE_FEATURES_ANALYTICS?: 'true' | 'false';
+  /** Invio automatico degli errori (es. Sentry) */
+  readonly VITE_FEATURES_ERROR_REPORTING?: 'true' | 'false';
+  /** Funzionalità sperimentali non ancora stabili */
+  readonly VITE_FEATURES_EXPERIMENTAL_FEATURES?: 'true' | 'false';
+  /** URL della configurazione a runtime (es. /config.json) */
+  readonly VITE_RUNTIME_CONFIG_URL?: string;
+}
+
+export type AppEnvKey = keyof AppEnv;
+
+/**
+ * Legge una variabile da un insieme già caricato (es. i file .env del simulatore).
+ * Per import.meta.env usa l'accesso letterale: import.meta.env.VITE_…
+ */
+export const readEnv = <K extends AppEnvKey>(key: K, env: Partial<AppEnv>): Partial<AppEnv>[K] => env[key];
+
+/**
+ * Valore di ogni percorso di EnvironmentConfig
+ */
+export interface ConfigValues {
+  'name': string;
+  'displayName': string;
+  'apiUrl': string;
+  'debugMode': boolean;
+  'logLevel': 'debug' | 'info' | 'warn' | 'error';
+  'features.analytics': boolean;
+  'features.errorReporting': boolean;
+  'features.experimentalFeatures': boolean;
+}
+
+export type ConfigKey = keyof ConfigValues;
+
+export const configKeys: ConfigKey[] = [
+  'name',
+  'displayName',
+  'apiUrl',
+  'debugMode',
+  'logLevel',
+  'features.analytics',
+  'features.errorReporting',
+  'features.experimentalFeatures',
+];
+
+export const envKeyByConfigKey = {
+  'name': 'VITE_APP_ENV',
+  'displayName': 'VITE_DISPLAY_NAME',
+  'apiUrl': 'VITE_API_URL',
+  'debugMode': 'VITE_DEBUG_MODE',
+  'logLevel': 'VITE_LOG_LEVEL',
+  'features.analytics': 'VITE_FEATURES_ANALYTICS',
+  'features.errorReporting': 'VITE_FEATURES_ERROR_REPORTING',
+  'features.experimentalFeatures': 'VITE_FEATURES_EXPERIMENTAL_FEATURES',
+} as const satisfies Record<ConfigKey, AppEnvKey>;
+
+export const readConfigValue = <K extends ConfigKey>(config: EnvironmentConfig, key: K): ConfigValues[K] => {
+  return getAtPath(config, key) as ConfigValues[K];
+};
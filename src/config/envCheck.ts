@@ -0,0 +1,133 @@
+/**
+ * 🧱 CONTROLLO DELLE VARIABILI AL BUILD
+ *
+ * Usato dal plugin Vite (plugins/vite-plugin-env-check.ts) prima di ogni build:
+ *
+ * 1. l'ambiente deve essere riconoscibile: la modalità (--mode) è un ambiente
+ *    del registro oppure VITE_APP_ENV ne indica uno. Altrimenti l'app
+ *    ripiegherebbe in silenzio su "development"
+ * 2. le variabili richieste devono esserci: quelle dei campi marcati `requiredEnv`
+ *    nello schema, più le eventuali extra dichiarate per la modalità
+ * 3. le VITE_* che corrispondono a chiavi dello schema devono avere un valore valido
+ * 4. nessun segreto può avere il prefisso VITE_ (vedi leakCheck.ts)
+ *
+ * Il modulo è puro: riceve le variabili già caricate e ritorna l'elenco dei problemi.
+ */
+
+import { toEnvKey } from './configExport';
+import { environmentIds } from './environments';
+import { checkClientExposure } from './leakCheck';
+import { checkFieldValue, environmentConfigSchema, type ConfigFieldSchema, type ConfigPrimitive } from './schema';
+
+export type EnvIssueSeverity = 'error' | 'warning';
+
+export interface EnvIssue {
+  key: string;
+  severity: EnvIssueSeverity;
+  message: string;
+}
+
+export interface BuildEnvCheckOptions {
+  mode: string;
+  env: Record<string, string>;                // Variabili esposte, come le carica loadEnv()
+  envPrefix?: string | string[];
+  required?: Record<string, string[]>;        // modalità → variabili obbligatorie in più
+  environments?: readonly string[];
+}
+
+const APP_ENV_KEY = toEnvKey('name');
+
+/**
+ * Variabili obbligatorie per una modalità: quelle dei campi marcati `requiredEnv`
+ * nello schema più quelle extra della modalità. I campi solo `required` non
+ * contano: la configurazione arriva dai layer (configLayers.ts), non dalle VITE_*.
+ */
+export const requiredEnvKeys = (
+  mode: string,
+  extra: Record<string, string[]> = {},
+  schema: Record<string, ConfigFieldSchema> = environmentConfigSchema
+): string[] => {
+  const fromSchema = Object.entries(schema)
+    .filter(([, field]) => field.requiredEnv)
+    .map(([path]) => toEnvKey(path));
+  return [...new Set([...fromSchema, ...(extra[mode] ?? [])])];
+};
+
+/**
+ * Le variabili d'ambiente sono sempre stringhe: le convertiamo nel tipo
+ * del campo prima di validarle con le stesse regole della configurazione
+ */
+const parseEnvValue = (field: ConfigFieldSchema, raw: string): ConfigPrimitive => {
+  if (field.type === 'boolean' && (raw === 'true' || raw === 'false')) return raw === 'true';
+  if (field.type === 'number' && raw.trim() !== '' && !Number.isNaN(Number(raw))) return Number(raw);
+  return raw;
+};
+
+export const checkBuildEnv = ({
+  mode,
+  env,
+  envPrefix,
+  required = {},
+  environments = environmentIds,
+}: BuildEnvCheckOptions): EnvIssue[] => {
+  const issues: EnvIssue[] = [];
+
+  // 1. Ambiente
+  const appEnv = env[APP_ENV_KEY];
+  if (appEnv !== undefined && !environments.includes(appEnv)) {
+    issues.push({
+      key: APP_ENV_KEY,
+      severity: 'error',
+      message: `"${appEnv}" non è un ambiente registrato (validi: ${environments.join(', ')})`,
+    });
+  } else if (appEnv === undefined && !environments.includes(mode)) {
+    issues.push({
+      key: APP_ENV_KEY,
+      severity: 'error',
+      message: `mancante: la modalità "${mode}" non è un ambiente registrato, quindi va indicato quale usare`,
+    });
+  }
+
+  // 2. Obbligatorie per la modalità
+  const missing = requiredEnvKeys(mode, required).filter(key => !env[key]?.trim());
+  missing.forEach(key => {
+    issues.push({ key, severity: 'error', message: `obbligatoria per la modalità "${mode}"` });
+  });
+
+  // 3. Formato delle variabili che corrispondono allo schema
+  Object.entries(environmentConfigSchema).forEach(([path, field]) => {
+    const key = toEnvKey(path);
+    if (path === 'name' || env[key] === undefined || missing.includes(key)) return;
+    const problem = checkFieldValue(field, parseEnvValue(field, env[key]));
+    if (problem) {
+      issues.push({ key, severity: 'error', message: problem });
+    }
+  });
+
+  // 4. Segreti esposti al client
+  checkClientExposure(env, { envPrefix }).forEach(finding => {
+    issues.push({
+      key: finding.key,
+      severity: finding.severity === 'critical' ? 'error' : 'warning',
+      message: `finirebbe nel bundle pubblico: ${finding.matches.map(match => match.message).join('; ')}`,
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Report leggibile per il terminale e per l'overlay di Vite
+ */
+export const formatEnvReport = (mode: string, issues: EnvIssue[]): string => {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  const section = (title: string, list: EnvIssue[]) =>
+    list.length > 0 ? [title, ...list.map(issue => `  • ${issue.key}: ${issue.message}`)] : [];
+
+  return [
+    `Variabili d'ambiente non valide per la modalità "${mode}":`,
+    ...section(`✖ Errori (${errors.length})`, errors),
+    ...section(`⚠ Avvisi (${warnings.length})`, warnings),
+  ].join('\n');
+};
@@ -0,0 +1,163 @@
+/**
+ * 🗂️ RISOLUZIONE DEI FILE .env COME FA VITE
+ *
+ * Vite carica i file in questo ordine (i successivi vincono sui precedenti):
+ *
+ *   1. .env                 → valori comuni a tutte le modalità
+ *   2. .env.local           → override locali (non committati)
+ *   3. .env.[mode]          → valori della modalità (es. .env.staging)
+ *   4. .env.[mode].local    → override locali della modalità
+ *   5. process env          → variabili già presenti nella shell/CI
+ *
+ * Le variabili della shell vincono solo se hanno il prefisso VITE_,
+ * e SOLO le chiavi con prefisso VITE_ finiscono in import.meta.env:
+ * tutto il resto resta sul server di build.
+ *
+ * Per ogni chiave si conserva la "traccia": quale sorgente ha vinto
+ * e quali valori sono stati sovrascritti.
+ */
+
+import { expandValue, parseDotenv, type DotenvEntry } from './dotenv';
+
+export const PROCESS_ENV_SOURCE = 'process.env';
+export const DEFAULT_ENV_PREFIX = 'VITE_';
+
+export interface EnvKeyTrace {
+  key: string;
+  value: string;
+  source: string;                                      // File (o process.env) che ha vinto
+  overridden: { source: string; value: string }[];     // Valori perdenti, dal primo all'ultimo
+  exposed: boolean;                                    // Finisce in import.meta.env?
+}
+
+export interface EnvFileError {
+  file: string;
+  line: number;
+  message: string;
+}
+
+export interface ResolvedViteEnv {
+  mode: string;
+  env: Record<string, string>;       // Ciò che vede il client (import.meta.env)
+  all: Record<string, string>;       // Tutte le variabili risolte, anche quelle private
+  trace: EnvKeyTrace[];
+  loadedFiles: string[];             // File considerati per questa modalità, in ordine
+  ignoredFiles: string[];            // File forniti ma non pertinenti alla modalità
+  errors: EnvFileError[];
+}
+
+export interface ResolveViteEnvOptions {
+  mode: string;
+  files: Record<string, string>;          // nome file → contenuto
+  processEnv?: Record<string, string>;
+  envPrefix?: string | string[];
+}
+
+/**
+ * Nomi dei file .env letti da Vite per una modalità, in ordine di priorità crescente
+ */
+export const getViteEnvFileNames = (mode: string): string[] => [
+  '.env',
+  '.env.local',
+  `.env.${mode}`,
+  `.env.${mode}.local`,
+];
+
+export const isExposedKey = (key: string, envPrefix: string | string[] = DEFAULT_ENV_PREFIX): boolean => {
+  const prefixes = Array.isArray(envPrefix) ? envPrefix : [envPrefix];
+  return prefixes.some(prefix => key.startsWith(prefix));
+};
+
+/**
+ * Riproduce loadEnv() di Vite su file forniti in memoria
+ */
+export const resolveViteEnv = ({
+  mode,
+  files,
+  processEnv = {},
+  envPrefix = DEFAULT_ENV_PREFIX,
+}: ResolveViteEnvOptions): ResolvedViteEnv => {
+  if (mode === 'local') {
+    throw new Error('"local" non può essere usato come modalità: va in conflitto con il suffisso .local dei file .env');
+  }
+  if ((Array.isArray(envPrefix) ? envPrefix : [envPrefix]).includes('')) {
+    throw new Error('envPrefix vuoto: esporrebbe al client TUTTE le variabili, compresi i secrets');
+  }
+
+  const fileNames = getViteEnvFileNames(mode);
+  const loadedFiles = fileNames.filter(name => name in files);
+  const ignoredFiles = Object.keys(files).filter(name => !fileNames.includes(name));
+  const errors: EnvFileError[] = [];
+
+  // Ultima definizione per chiave + cronologia delle definizioni precedenti
+  const winners = new Map<string, { source: string; entry: DotenvEntry }>();
+  const history = new Map<string, { source: string; value: string }[]>();
+
+  loadedFiles.forEach(file => {
+    const parsed = parseDotenv(files[file]);
+    errors.push(...parsed.errors.map(error => ({ file, ...error })));
+    parsed.entries.forEach(entry => {
+      const previous = winners.get(entry.key);
+      if (previous) {
+        history.set(entry.key, [
+          ...(history.get(entry.key) ?? []),
+          { source: previous.source, value: previous.entry.value },
+        ]);
+      }
+      winners.set(entry.key, { source: file, entry });
+    });
+  });
+
+  // Interpolazione: nei riferimenti ${VAR} le variabili della shell
+  // hanno la precedenza, poi i valori (già espansi) dei file
+  const expanded: Record<string, string> = {};
+  const expanding = new Set<string>();
+  const expandFileValue = (key: string): string | undefined => {
+    if (key in expanded) return expanded[key];
+    const winner = winners.get(key);
+    if (!winner || expanding.has(key)) return undefined;
+    expanding.add(key);
+    expanded[key] = winner.entry.interpolate ? expandValue(winner.entry.value, lookup) : winner.entry.value;
+    expanding.delete(key);
+    return expanded[key];
+  };
+  const lookup = (key: string): string | undefined => {
+    return key in processEnv ? processEnv[key] : expandFileValue(key);
+  };
+
+  const trace: EnvKeyTrace[] = [];
+  const all: Record<string, string> = {};
+
+  winners.forEach((winner, key) => {
+    all[key] = expandFileValue(key) ?? '';
+    trace.push({
+      key,
+      value: all[key],
+      source: winner.source,
+      overridden: history.get(key) ?? [],
+      exposed: isExposedKey(key, envPrefix),
+    });
+  });
+
+  // Le variabili della shell con prefisso vincono sempre
+  Object.entries(processEnv)
+    .filter(([key]) => isExposedKey(key, envPrefix))
+    .forEach(([key, value]) => {
+      const existing = trace.find(item => item.key === key);
+      if (existing) {
+        existing.overridden = [...existing.overridden, { source: existing.source, value: existing.value }];
+        existing.source = PROCESS_ENV_SOURCE;
+        existing.value = value;
+      } else {
+        trace.push({ key, value, source: PROCESS_ENV_SOURCE, overridden: [], exposed: true });
+      }
+      all[key] = value;
+    });
+
+  const env: Record<string, string> = { MODE: mode };
+  trace.filter(item => item.exposed).forEach(item => {
+    env[item.key] = item.value;
+  });
+
+  return { mode, env, all, trace, loadedFiles, ignoredFiles, errors };
+};
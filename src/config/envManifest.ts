@@ -0,0 +1,112 @@
+/**
+ * 📦 MANIFEST DEI VALORI INLINEATI
+ *
+ * Durante `vite build` ogni `import.meta.env.CHIAVE` viene sostituito dal suo
+ * valore: nel bundle non resta la variabile, resta la stringa. Il plugin
+ * plugins/vite-plugin-env-manifest.ts registra ogni sostituzione e scrive
+ * dist/env-manifest.json, così si può verificare cosa ha "cotto dentro" un build.
+ *
+ * Qui ci sono i tipi del manifest e le funzioni per leggerlo.
+ */
+
+export const ENV_MANIFEST_FILE = 'env-manifest.json';
+
+// `import.meta.env` usato come oggetto: il build inlinea tutte le variabili
+export const WHOLE_ENV_KEY = '*';
+
+export type InlinedValue = string | boolean | null;      // null = non definita, diventa undefined
+
+export interface EnvReference {
+  key: string;
+  value: InlinedValue;
+  file: string;               // Relativo alla root del progetto
+  line: number;               // 1-based
+  column: number;             // 1-based
+}
+
+export interface EnvManifest {
+  mode: string;
+  command: 'build' | 'serve';
+  generatedAt: string;
+  env: Record<string, string | boolean>;   // Tutto ciò che il build può inlineare
+  references: EnvReference[];
+}
+
+export interface EnvKeyUsage {
+  key: string;
+  value: InlinedValue;
+  references: EnvReference[];
+}
+
+/**
+ * Il valore che Vite mette al posto di `import.meta.env.<key>`
+ */
+export const inlinedValue = (env: Record<string, string | boolean>, key: string): InlinedValue => {
+  if (key === 'SSR') return false;
+  return Object.prototype.hasOwnProperty.call(env, key) ? env[key] : null;
+};
+
+export const createEnvManifest = ({
+  mode,
+  command,
+  env,
+  references,
+  generatedAt = new Date(),
+}: Omit<EnvManifest, 'generatedAt'> & { generatedAt?: Date }): EnvManifest => ({
+  mode,
+  command,
+  generatedAt: generatedAt.toISOString(),
+  env,
+  references: [...references].sort((a, b) =>
+    a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column
+  ),
+});
+
+/**
+ * Raggruppa i riferimenti per variabile (ordine alfabetico, l'oggetto intero in fondo)
+ */
+export const groupReferencesByKey = (manifest: EnvManifest): EnvKeyUsage[] => {
+  const groups = new Map<string, EnvKeyUsage>();
+  manifest.references.forEach(reference => {
+    const group = groups.get(reference.key)
+      ?? { key: reference.key, value: reference.value, references: [] };
+    group.references.push(reference);
+    groups.set(reference.key, group);
+  });
+
+  return [...groups.values()].sort((a, b) =>
+    Number(a.key === WHOLE_ENV_KEY) - Number(b.key === WHOLE_ENV_KEY) || a.key.localeCompare(b.key)
+  );
+};
+
+/**
+ * Controlla che un JSON scaricato abbia la forma di un manifest
+ */
+export const parseEnvManifest = (payload: unknown): EnvManifest => {
+  const manifest = payload as Partial<EnvManifest> | null;
+  if (
+    !manifest || typeof manifest !== 'object' ||
+    typeof manifest.mode !== 'string' ||
+    !Array.isArray(manifest.references) ||
+    typeof manifest.env !== 'object'
+  ) {
+    throw new Error(`${ENV_MANIFEST_FILE} non ha il formato atteso`);
+  }
+  return manifest as EnvManifest;
+};
+
+export const loadEnvManifest = async (url: string, fetcher: typeof fetch = fetch): Promise<EnvManifest> => {
+  const response = await fetcher(url);
+  if (!response.ok) {
+    throw new Error(`Impossibile scaricare ${url}: HTTP ${response.status}`);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await response.json();
+  } catch {
+    throw new Error(`${url} non contiene JSON valido`);
+  }
+
+  return parseEnvManifest(payload);
+};
@@ -0,0 +1,138 @@
+/**
+ * 🧬 TIPI GENERATI PER LE VARIABILI D'AMBIENTE
+ *
+ * Dallo schema della configurazione si ricavano:
+ * - l'interfaccia ImportMetaEnv con tutte le VITE_* dell'app
+ * - AppEnv + readEnv(): accesso tipizzato a un insieme di variabili già caricato.
+ *   Nel codice dell'app si legge `import.meta.env.VITE_*` in forma letterale,
+ *   così Vite inlinea solo le variabili usate e il manifest del build punta
+ *   alla riga giusta. vite/client (5.x) tipizza ImportMetaEnv con
+ *   `[key: string]: any`, quindi un errore di battitura lo blocca ESLint:
+ *   eslint.config.js accetta solo le chiavi dichiarate nel file generato
+ * - ConfigValues + readConfigValue(): percorsi di EnvironmentConfig tipizzati
+ *
+ * Il risultato è salvato in env.generated.ts (rigenerabile con
+ * `npm run generate:env`); un test verifica che sia allineato allo schema.
+ */
+
+import { toEnvKey } from './configExport';
+import { environmentIds } from './environments';
+import { environmentConfigSchema, type ConfigFieldSchema } from './schema';
+
+export const GENERATED_ENV_TYPES_PATH = 'src/config/env.generated.ts';
+
+export interface EnvVariable {
+  key: string;
+  type: string;             // Tipo TypeScript del valore (sempre una stringa a runtime)
+  description: string;
+  configPath?: string;      // Percorso in EnvironmentConfig, se la variabile ne deriva
+}
+
+/**
+ * Variabili dell'app che non corrispondono a una chiave di EnvironmentConfig
+ */
+export const extraEnvVariables: EnvVariable[] = [
+  {
+    key: 'VITE_RUNTIME_CONFIG_URL',
+    type: 'string',
+    description: 'URL della configurazione a runtime (es. /config.json)',
+  },
+];
+
+const literalUnion = (values: readonly unknown[]): string => values.map(value => `'${String(value)}'`).join(' | ');
+
+/**
+ * Tipo del valore nella configurazione (già convertito)
+ */
+export const configValueType = (field: ConfigFieldSchema): string => {
+  if (field.allowed) return literalUnion(field.allowed);
+  return field.type;
+};
+
+/**
+ * Tipo della variabile d'ambiente: sempre una stringa, ma ristretta quando si può
+ */
+export const envValueType = (field: ConfigFieldSchema): string => {
+  if (field.allowed) return literalUnion(field.allowed);
+  if (field.type === 'boolean') return literalUnion(['true', 'false']);
+  if (field.type === 'number') return '`${number}`';
+  return 'string';
+};
+
+export const collectEnvVariables = (
+  schema: Record<string, ConfigFieldSchema> = environmentConfigSchema,
+  environments: readonly string[] = environmentIds
+): EnvVariable[] => [
+  ...Object.entries(schema).map(([path, field]) => ({
+    key: toEnvKey(path),
+    // L'ambiente selezionato con VITE_APP_ENV deve esistere nel registro
+    type: path === 'name' ? literalUnion(environments) : envValueType(field),
+    description: field.description,
+    configPath: path,
+  })),
+  ...extraEnvVariables,
+];
+
+export const renderEnvTypes = (
+  schema: Record<string, ConfigFieldSchema> = environmentConfigSchema,
+  environments: readonly string[] = environmentIds
+): string => {
+  const variables = collectEnvVariables(schema, environments);
+  const envLines = (indent: string) =>
+    variables.flatMap(variable => [
+      `${indent}/** ${variable.description} */`,
+      `${indent}readonly ${variable.key}?: ${variable.type};`,
+    ]);
+  const mapped = variables.filter(variable => variable.configPath);
+
+  return [
+    '// ⚠️ FILE GENERATO da scripts/generate-env-types.ts: non modificare a mano.',
+    '// Dopo aver cambiato lo schema (src/config/schema.ts) esegui `npm run generate:env`.',
+    '',
+    "import { getAtPath, type EnvironmentConfig } from './schema';",
+    '',
+    'declare global {',
+    '  interface ImportMetaEnv {',
+    ...envLines('    '),
+    '  }',
+    '}',
+    '',
+    '/**',
+    ' * Variabili lette dall\'app: un nome sbagliato non compila',
+    ' */',
+    'export interface AppEnv {',
+    '  readonly MODE: string;',
+    ...envLines('  '),
+    '}',
+    '',
+    'export type AppEnvKey = keyof AppEnv;',
+    '',
+    '/**',
+    ' * Legge una variabile da un insieme già caricato (es. i file .env del simulatore).',
+    ' * Per import.meta.env usa l\'accesso letterale: import.meta.env.VITE_…',
+    ' */',
+    'export const readEnv = <K extends AppEnvKey>(key: K, env: Partial<AppEnv>): Partial<AppEnv>[K] => env[key];',
+    '',
+    '/**',
+    ' * Valore di ogni percorso di EnvironmentConfig',
+    ' */',
+    'export interface ConfigValues {',
+    ...mapped.map(variable => `  '${variable.configPath}': ${configValueType(schema[variable.configPath as string])};`),
+    '}',
+    '',
+    'export type ConfigKey = keyof ConfigValues;',
+    '',
+    'export const configKeys: ConfigKey[] = [',
+    ...mapped.map(variable => `  '${variable.configPath}',`),
+    '];',
+    '',
+    'export const envKeyByConfigKey = {',
+    ...mapped.map(variable => `  '${variable.configPath}': '${variable.key}',`),
+    '} as const satisfies Record<ConfigKey, AppEnvKey>;',
+    '',
+    'export const readConfigValue = <K extends ConfigKey>(config: EnvironmentConfig, key: K): ConfigValues[K] => {',
+    '  return getAtPath(config, key) as ConfigValues[K];',
+    '};',
+    '',
+  ].join('\n');
+};
@@ -23,9 +23,27 @@
  *    - Variabili d'ambiente specifiche per ogni macchina
  */
 
+import {
+  ConfigValidationError,
+  createConfigRegistry,
+  environmentConfigSchema,
+  type EnvironmentConfig,
+} from './schema';
+import {
+  resolveLayers,
+  SCHEMA_DEFAULT_LAYER,
+  type ConfigLayer,
+  type RedundantOverride,
+  type ResolvedLayers,
+} from './layers';
+import { environmentIds, isKnownEnvironment, type Environment } from './environments';
+import { resolveConfigSecrets, validateSecretReferences } from './secrets';
+
+export type { EnvironmentConfig } from './schema';
+export type { Environment } from './environments';
+
 // Determina l'ambiente corrente usando import.meta.env di Vite
 // In Vite, le variabili VITE_* sono esposte al frontend
-export type Environment = 'development' | 'staging' | 'production';
 
 /**
  * Rileva l'ambiente corrente basandosi su import.meta.env.MODE
@@ -33,82 +51,189 @@ export type Environment = 'development' | 'staging' | 'production';
  * Vite imposta automaticamente:
  * - 'development' quando esegui `vite` o `vite dev`
  * - 'production' quando esegui `vite build`
+ * - il nome passato con `--mode` (es. `vite build --mode qa`)
  * 
- * Puoi anche usare variabili custom come VITE_APP_ENV
+ * Puoi anche usare variabili custom come VITE_APP_ENV.
+ * Sono riconosciuti solo gli ambienti presenti nel registro (./environments.ts).
+ * 
+ * Di default legge le due variabili da import.meta.env (una per una, così il
+ * manifest del build le registra), ma accetta qualsiasi sorgente con la
+ * stessa forma: ad esempio le variabili risolte da file .env caricati
+ * nel simulatore (vedi ./envFiles.ts).
  */
-export const getCurrentEnvironment = (): Environment => {
+export const getCurrentEnvironment = (
+  env: { MODE?: string; VITE_APP_ENV?: string } = { MODE: import.meta.env.MODE, VITE_APP_ENV: import.meta.env.VITE_APP_ENV }
+): Environment => {
   // Prima controlla se c'è una variabile custom
-  const customEnv = import.meta.env.VITE_APP_ENV as string | undefined;
+  const customEnv = env.VITE_APP_ENV;
   
-  if (customEnv === 'staging') return 'staging';
-  if (customEnv === 'production') return 'production';
+  if (isKnownEnvironment(customEnv)) return customEnv;
   
   // Altrimenti usa MODE di Vite
-  if (import.meta.env.MODE === 'production') return 'production';
+  if (isKnownEnvironment(env.MODE)) return env.MODE;
   
   return 'development';
 };
 
 /**
- * Configurazione specifica per ambiente
+ * Configurazione specifica per ambiente, organizzata a livelli
+ * 
+ * Ogni livello dichiara solo le differenze rispetto al genitore (`extends`);
+ * gli ambienti usano il livello con il loro stesso id. I livelli che non sono
+ * ambienti (base, local) raccolgono i valori condivisi.
  * 
- * Questo pattern permette di avere configurazioni diverse
- * per ogni ambiente, tutte in un unico posto.
+ * Il risultato della fusione viene validato contro lo schema (vedi ./schema.ts)
+ * al caricamento del modulo: se un ambiente ha una chiave mancante
+ * o un valore non ammesso, l'app si ferma subito con un errore preciso.
  */
-interface EnvironmentConfig {
-  name: Environment;
-  displayName: string;
-  apiUrl: string;
-  debugMode: boolean;
-  logLevel: 'debug' | 'info' | 'warn' | 'error';
-  features: {
-    analytics: boolean;
-    errorReporting: boolean;
-    experimentalFeatures: boolean;
-  };
-}
-
-const configs: Record<Environment, EnvironmentConfig> = {
+export const configLayers: Record<string, ConfigLayer> = {
+  base: {
+    values: {
+      debugMode: false,
+      logLevel: 'info',
+      features: {
+        analytics: true,            // Tracking attivo
+        errorReporting: true,       // Sentry, etc.
+        experimentalFeatures: false, // Solo feature stabili
+      },
+    },
+  },
+  local: {
+    extends: 'base',
+    values: {
+      apiUrl: 'http://localhost:3000/api',
+      debugMode: true,
+      logLevel: 'debug',
+      features: {
+        analytics: false,           // Non tracciamo in locale
+        errorReporting: false,      // Log locali sono sufficienti
+        experimentalFeatures: true, // Possiamo testare nuove feature
+      },
+    },
+  },
   development: {
-    name: 'development',
-    displayName: 'Development',
-    apiUrl: 'http://localhost:3000/api',
-    debugMode: true,
-    logLevel: 'debug',
-    features: {
-      analytics: false,           // Non tracciamo in development
-      errorReporting: false,      // Log locali sono sufficienti
-      experimentalFeatures: true, // Possiamo testare nuove feature
+    extends: 'local',
+    values: {
+      name: 'development',
+      displayName: 'Development',
     },
   },
   staging: {
-    name: 'staging',
-    displayName: 'Staging',
-    apiUrl: 'https://staging-api.example.com',
-    debugMode: true,
-    logLevel: 'info',
-    features: {
-      analytics: true,            // Testiamo analytics
-      errorReporting: true,       // Catturiamo errori
-      experimentalFeatures: true, // Testiamo nuove feature
+    extends: 'base',
+    values: {
+      name: 'staging',
+      displayName: 'Staging',
+      apiUrl: 'https://staging-api.example.com',
+      debugMode: true,
+      features: {
+        experimentalFeatures: true, // Testiamo nuove feature
+      },
+    },
+  },
+  qa: {
+    extends: 'staging',
+    values: {
+      name: 'qa',
+      displayName: 'QA',
+      apiUrl: 'https://qa-api.example.com',
+      features: {
+        analytics: false,
+      },
+    },
+  },
+  preview: {
+    extends: 'staging',
+    values: {
+      name: 'preview',
+      displayName: 'Preview',
+      apiUrl: 'https://preview-api.example.com',
+      logLevel: 'debug',
+      features: {
+        analytics: false,           // Le preview non devono sporcare le metriche
+      },
     },
   },
   production: {
-    name: 'production',
-    displayName: 'Production',
-    apiUrl: 'https://api.example.com',
-    debugMode: false,
-    logLevel: 'error',
-    features: {
-      analytics: true,            // Tracking attivo
-      errorReporting: true,       // Sentry, etc.
-      experimentalFeatures: false, // Solo feature stabili
+    extends: 'staging',
+    values: {
+      name: 'production',
+      displayName: 'Production',
+      apiUrl: 'https://api.example.com',
+      debugMode: false,
+      logLevel: 'error',
+      features: {
+        experimentalFeatures: false, // Solo feature stabili
+      },
+    },
+  },
+  canary: {
+    extends: 'production',
+    values: {
+      name: 'canary',
+      displayName: 'Canary',
+      apiUrl: 'https://canary-api.example.com',
+      logLevel: 'warn',             // Un po' più verboso per osservare il rilascio
     },
   },
 };
 
+/**
+ * Risultato della fusione dei livelli per ogni ambiente registrato
+ */
+export const resolvedLayers: Record<Environment, ResolvedLayers> = Object.fromEntries(
+  environmentIds.map(id => {
+    if (!(id in configLayers)) {
+      throw new ConfigValidationError([
+        { environment: id, path: '*', message: 'configurazione mancante per l\'ambiente' },
+      ]);
+    }
+    return [id, resolveLayers(configLayers, id)];
+  })
+);
+
+/**
+ * Registro unico delle configurazioni, già validato e completato con i default.
+ * È la sola fonte di verità: sia getConfig() che EnvironmentProvider lo usano.
+ */
+export const configs: Record<Environment, EnvironmentConfig> = createConfigRegistry(
+  Object.fromEntries(environmentIds.map(id => [id, resolvedLayers[id].values]))
+);
+
+// I riferimenti ${secret:...} restano nel registro: qui si controlla solo che siano risolvibili e sicuri
+const secretIssues = environmentIds.flatMap(id => validateSecretReferences(id, configs[id]));
+if (secretIssues.length > 0) {
+  throw new ConfigValidationError(secretIssues);
+}
+
+/**
+ * Per ogni ambiente e ogni chiave: il livello da cui proviene il valore.
+ * Le chiavi non definite da nessun livello arrivano dai default dello schema.
+ */
+export const configProvenance: Record<Environment, Record<string, string>> = Object.fromEntries(
+  environmentIds.map(id => [
+    id,
+    Object.fromEntries(
+      Object.keys(environmentConfigSchema).map(path => [
+        path,
+        resolvedLayers[id].provenance[path] ?? SCHEMA_DEFAULT_LAYER,
+      ])
+    ),
+  ])
+);
+
+/**
+ * Override che ripetono il valore già ereditato: si possono rimuovere
+ * senza cambiare il risultato. Ogni livello è riportato una sola volta.
+ */
+export const redundantOverrides: RedundantOverride[] = Object.values(resolvedLayers)
+  .flatMap(resolved => resolved.redundant)
+  .filter((override, index, all) =>
+    all.findIndex(other => other.layer === override.layer && other.path === override.path) === index
+  );
+
 export const getConfig = (): EnvironmentConfig => {
-  return configs[getCurrentEnvironment()];
+  const environment = getCurrentEnvironment();
+  return resolveConfigSecrets(configs[environment], environment);
 };
 
 export const config = getConfig();
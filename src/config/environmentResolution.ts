@@ -0,0 +1,92 @@
+/**
+ * 🧭 RISOLUZIONE DELL'AMBIENTE ATTIVO
+ *
+ * L'ambiente può arrivare da tre fonti, in ordine di precedenza:
+ *
+ * 1. simulato → scelto nel simulatore (o dall'URL ?env=), solo a scopo didattico
+ * 2. runtime  → indicato dalla configurazione a runtime (vedi runtimeConfig.ts)
+ * 3. build    → fissato da `vite build` (VITE_APP_ENV o --mode)
+ *
+ * Questo modulo è l'unico punto che decide: badge, diagramma, feature flag
+ * e filtri dei log leggono tutti da qui (in React tramite EnvironmentProvider),
+ * così non possono mostrare ambienti diversi. L'ambiente di build resta
+ * sempre disponibile per mostrarlo accanto a quello simulato.
+ */
+
+import { getCurrentEnvironment, type Environment } from './environment';
+
+export type EnvironmentSource = 'build' | 'runtime' | 'simulated';
+
+export interface EnvironmentInputs {
+  build: Environment;
+  runtime?: Environment;
+  simulated?: Environment;
+}
+
+export interface ResolvedEnvironment {
+  current: Environment;          // Quello che tutti devono usare
+  source: EnvironmentSource;
+  build: Environment;            // Quello reale del bundle
+  isSimulated: boolean;
+  differsFromBuild: boolean;
+}
+
+export const environmentSourceLabels: Record<EnvironmentSource, string> = {
+  build: 'Build',
+  runtime: 'Config a runtime',
+  simulated: 'Simulato',
+};
+
+export const resolveEnvironment = ({ build, runtime, simulated }: EnvironmentInputs): ResolvedEnvironment => {
+  const [current, source]: [Environment, EnvironmentSource] =
+    simulated ? [simulated, 'simulated'] : runtime ? [runtime, 'runtime'] : [build, 'build'];
+
+  return {
+    current,
+    source,
+    build,
+    isSimulated: source === 'simulated',
+    differsFromBuild: current !== build,
+  };
+};
+
+// Stato condiviso: EnvironmentProvider lo aggiorna, il codice fuori da React lo legge
+let inputs: EnvironmentInputs = { build: getCurrentEnvironment() };
+let resolved = resolveEnvironment(inputs);
+const listeners = new Set<() => void>();
+
+const update = (patch: Partial<EnvironmentInputs>) => {
+  inputs = { ...inputs, ...patch };
+  const next = resolveEnvironment(inputs);
+  if (next.current === resolved.current && next.source === resolved.source && next.build === resolved.build) return;
+  resolved = next;
+  listeners.forEach(listener => listener());
+};
+
+export const getResolvedEnvironment = (): ResolvedEnvironment => resolved;
+
+/**
+ * L'ambiente con cui valutare flag, log e configurazione
+ */
+export const getActiveEnvironment = (): Environment => resolved.current;
+
+export const setSimulatedEnvironment = (environment: Environment | undefined) => update({ simulated: environment });
+
+export const setRuntimeEnvironment = (environment: Environment | undefined) => update({ runtime: environment });
+
+/**
+ * Per i test: riparte dall'ambiente di build, senza simulazione né runtime
+ */
+export const resetEnvironmentResolution = (build: Environment = getCurrentEnvironment()) => {
+  update({ build, runtime: undefined, simulated: undefined });
+};
+
+/**
+ * Forma adatta a useSyncExternalStore
+ */
+export const subscribeToEnvironment = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,153 @@
+/**
+ * 🗺️ REGISTRO DEGLI AMBIENTI
+ *
+ * Gli ambienti non sono più un elenco fisso nel codice ma DATI:
+ * ogni team può aggiungere qa, preview, canary... semplicemente
+ * inserendo una voce in questo array (più la sua configurazione
+ * in environment.ts). Simulatore, Feature Flags, Secrets, diagramma
+ * e pipeline CI/CD leggono tutti da qui.
+ */
+
+/**
+ * Identificativo di un ambiente (es. 'development', 'qa', 'production')
+ */
+export type Environment = string;
+
+/**
+ * Colori del tema disponibili per rappresentare un ambiente
+ */
+export type EnvironmentColor = 'primary' | 'accent' | 'warning' | 'success' | 'destructive';
+
+/**
+ * Fase del ciclo di vita a cui appartiene l'ambiente.
+ * Serve per le regole generiche: "debug attivo fuori da development",
+ * "approvazione richiesta in production", ecc.
+ */
+export type EnvironmentStage = 'development' | 'pre-production' | 'production';
+
+export interface EnvironmentDefinition {
+  id: Environment;
+  displayName: string;
+  color: EnvironmentColor;
+  order: number;          // Posizione nel flusso di promozione (crescente)
+  stage: EnvironmentStage;
+  description: string;
+  highlights: string[];   // Caratteristiche mostrate nel diagramma
+  pipeline: {
+    branch: string;       // Branch che alimenta l'ambiente
+    target: string;       // Destinazione del deploy
+    autoDeploy: boolean;  // Deploy automatico dopo la pipeline
+    requiresApproval: boolean;
+  };
+}
+
+const environmentRegistry: EnvironmentDefinition[] = [
+  {
+    id: 'development',
+    displayName: 'Development',
+    color: 'primary',
+    order: 10,
+    stage: 'development',
+    description: 'Ambiente locale degli sviluppatori',
+    highlights: ['Hot reload', 'Debug attivo', 'Mock data'],
+    pipeline: { branch: 'feature/*', target: 'Dev Server', autoDeploy: true, requiresApproval: false },
+  },
+  {
+    id: 'preview',
+    displayName: 'Preview',
+    color: 'accent',
+    order: 20,
+    stage: 'pre-production',
+    description: 'Deploy effimero per ogni pull request',
+    highlights: ['URL per PR', 'Review visuale', 'Effimero'],
+    pipeline: { branch: 'pull/*', target: 'Preview URL', autoDeploy: true, requiresApproval: false },
+  },
+  {
+    id: 'qa',
+    displayName: 'QA',
+    color: 'accent',
+    order: 30,
+    stage: 'pre-production',
+    description: 'Verifica manuale del team QA',
+    highlights: ['Test manuali', 'Dati di test', 'Regressioni'],
+    pipeline: { branch: 'develop', target: 'QA Server', autoDeploy: true, requiresApproval: false },
+  },
+  {
+    id: 'staging',
+    displayName: 'Staging',
+    color: 'warning',
+    order: 40,
+    stage: 'pre-production',
+    description: 'Test pre-produzione',
+    highlights: ['Test E2E', 'Dati simulati', 'CI/CD'],
+    pipeline: { branch: 'release/*', target: 'Staging Server', autoDeploy: true, requiresApproval: false },
+  },
+  {
+    id: 'canary',
+    displayName: 'Canary',
+    color: 'success',
+    order: 50,
+    stage: 'production',
+    description: 'Production per una piccola quota di traffico',
+    highlights: ['5% traffico', 'Rollback rapido', 'Metriche'],
+    pipeline: { branch: 'main', target: 'Canary Pool', autoDeploy: false, requiresApproval: true },
+  },
+  {
+    id: 'production',
+    displayName: 'Production',
+    color: 'success',
+    order: 60,
+    stage: 'production',
+    description: 'Ambiente live per gli utenti',
+    highlights: ['Monitoring', 'Scaling', 'Backup'],
+    pipeline: { branch: 'main', target: 'Production Server', autoDeploy: false, requiresApproval: true },
+  },
+];
+
+/**
+ * Tutti gli ambienti, nell'ordine di promozione
+ */
+export const environments: EnvironmentDefinition[] = [...environmentRegistry].sort((a, b) => a.order - b.order);
+
+export const environmentIds: Environment[] = environments.map(env => env.id);
+
+export const isKnownEnvironment = (id: string | undefined): id is Environment => {
+  return id !== undefined && environmentIds.includes(id);
+};
+
+/**
+ * Restituisce la definizione di un ambiente.
+ * Lancia un errore se l'ambiente non è registrato: meglio fallire
+ * subito che mostrare dati di un ambiente sbagliato.
+ */
+export const getEnvironmentDefinition = (id: Environment): EnvironmentDefinition => {
+  const definition = environments.find(env => env.id === id);
+  if (!definition) {
+    throw new Error(`Ambiente "${id}" non registrato`);
+  }
+  return definition;
+};
+
+const ENVIRONMENT_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Aggiunge un ambiente a runtime (es. creato importando una configurazione).
+ *
+ * Modifica VOLUTAMENTE sul posto `environments` e `environmentIds` invece di
+ * restituire un registro nuovo: molti componenti li leggono a livello di modulo
+ * (e i Record<Environment, …> li usano come elenco delle chiavi), quindi solo
+ * così vedono il nuovo ambiente senza essere reimportati. Non esiste
+ * l'operazione inversa: un ambiente registrato resta fino al ricaricamento.
+ */
+export const registerEnvironment = (definition: EnvironmentDefinition): void => {
+  if (!ENVIRONMENT_ID_PATTERN.test(definition.id)) {
+    throw new Error(`Identificativo "${definition.id}" non valido: usa lettere minuscole, cifre e trattini`);
+  }
+  if (isKnownEnvironment(definition.id)) {
+    throw new Error(`Ambiente "${definition.id}" già registrato`);
+  }
+
+  environments.push(definition);
+  environments.sort((a, b) => a.order - b.order);
+  environmentIds.splice(0, environmentIds.length, ...environments.map(env => env.id));
+};
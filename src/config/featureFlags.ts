@@ -24,7 +24,28 @@
  *    - Accesso anticipato per beta tester
  */
 
-import { getCurrentEnvironment, type Environment } from './environment';
+import { z } from 'zod';
+import type { Environment } from './environment';
+import { getActiveEnvironment } from './environmentResolution';
+import { getBucket, isInRollout } from './bucketing';
+import {
+  findMatchingRule,
+  validateTargetingRules,
+  type TargetingInput,
+  type TargetingRule,
+} from './targeting';
+import { validatePrerequisites, type FlagPrerequisite } from './flagDependencies';
+import {
+  applySchedule,
+  isExpired,
+  systemClock,
+  validateSchedule,
+  type Clock,
+  type ExpiryPolicy,
+  type ScheduledAction,
+  type ScheduledState,
+} from './flagSchedule';
+import { defineVariations, pickWeightedVariation, validateVariations, type FlagVariations } from './variations';
 
 /**
  * Definizione di un Feature Flag
@@ -33,19 +54,32 @@ import { getCurrentEnvironment, type Environment } from './environment';
  * - id: identificatore univoco
  * - name: nome leggibile
  * - description: spiegazione della feature
- * - enabled: stato attuale (per ambiente)
+ * - enabled: stato attuale (per ambiente). Gli ambienti non elencati
+ *   sono considerati disattivati, così aggiungere un ambiente al
+ *   registro non accende nulla per sbaglio.
  * - rolloutPercentage: % di utenti che vedono la feature
+ * - salt: rimescola gli utenti del rollout (default: l'id del flag, vedi bucketing.ts)
+ * - prerequisites: flag che devono essere accesi prima di questo (vedi flagDependencies.ts)
+ * - rules: regole di targeting valutate in ordine prima del rollout (vedi targeting.ts)
+ * - schedule: accensioni, spegnimenti e rampe programmate per ambiente (vedi flagSchedule.ts)
+ * - variations: valori tipizzati per i flag multivariati (vedi variations.ts)
  */
 export interface FeatureFlag {
   id: string;
   name: string;
   description: string;
-  enabled: Record<Environment, boolean>;
+  enabled: Partial<Record<Environment, boolean>>;
   rolloutPercentage?: number; // 0-100, opzionale
+  salt?: string;
+  prerequisites?: FlagPrerequisite[];
+  rules?: TargetingRule[];
+  schedule?: ScheduledAction[];
+  variations?: FlagVariations;
   metadata?: {
     owner: string;       // Team responsabile
     createdAt: string;   // Data creazione
     expiresAt?: string;  // Data scadenza (per flag temporanei)
+    expiryPolicy?: ExpiryPolicy;  // Cosa succede alla scadenza (default: auto-off)
     jiraTicket?: string; // Riferimento al ticket
   };
 }
@@ -85,6 +119,20 @@ export const featureFlags: FeatureFlag[] = [
       production: true,    // Rilasciato gradualmente
     },
     rolloutPercentage: 50,  // Solo 50% degli utenti in produzione
+    rules: [
+      { id: 'staff', description: 'I dipendenti la provano per primi', segments: ['internal_staff'], serve: true },
+      {
+        id: 'legacy-app',
+        description: 'Le app precedenti alla 2.0 non hanno i widget',
+        conditions: [{ attribute: 'appVersion', operator: 'semver-lt', values: ['2.0.0'] }],
+        serve: false,
+      },
+      { id: 'enterprise', conditions: [{ attribute: 'plan', operator: 'in', values: ['enterprise'] }], serve: true },
+    ],
+    schedule: [
+      { type: 'ramp', environment: 'production', at: '2027-01-15T09:00:00Z', percentage: 75 },
+      { type: 'ramp', environment: 'production', at: '2027-02-01T09:00:00Z', percentage: 100 },
+    ],
     metadata: {
       owner: 'Team Product',
       createdAt: '2024-02-01',
@@ -100,6 +148,20 @@ export const featureFlags: FeatureFlag[] = [
       staging: false,      // Richiede risorse AI non disponibili in staging
       production: false,   // In attesa di approvazione budget
     },
+    rules: [
+      {
+        id: 'paying-beta',
+        segments: ['beta_testers'],
+        conditions: [{ attribute: 'plan', operator: 'in', values: ['pro', 'enterprise'] }],
+        serve: true,
+      },
+      {
+        id: 'free-plans',
+        description: 'I costi di inferenza non sono coperti dai piani gratuiti',
+        conditions: [{ attribute: 'plan', operator: 'not-in', values: ['pro', 'enterprise'] }],
+        serve: false,
+      },
+    ],
     metadata: {
       owner: 'Team ML',
       createdAt: '2024-03-01',
@@ -116,6 +178,30 @@ export const featureFlags: FeatureFlag[] = [
       production: false,
     },
     rolloutPercentage: 25,
+    prerequisites: [{ flagId: 'new_dashboard' }],  // I widget della nuova dashboard sono i primi client della V2
+    rules: [
+      {
+        id: 'qa-accounts',
+        description: 'Gli account di test usano sempre la V2',
+        conditions: [{ attribute: 'email', operator: 'matches', values: ['@(qa|test)\\.example\\.com$'] }],
+        serve: true,
+      },
+      {
+        id: 'new-signups',
+        description: 'Chi si è iscritto dopo il lancio nasce già sulla V2',
+        conditions: [{ attribute: 'signupDate', operator: 'after', values: ['2024-03-01'] }],
+        serve: true,
+      },
+      {
+        id: 'eu-data-residency',
+        description: 'Per i clienti UE si attende il datacenter europeo',
+        segments: ['eu_customers'],
+        serve: false,
+      },
+    ],
+    schedule: [
+      { type: 'enable', environment: 'production', at: '2027-03-01T07:00:00Z' },  // Insieme al rilascio delle SDK
+    ],
     metadata: {
       owner: 'Team Backend',
       createdAt: '2024-02-15',
@@ -137,56 +223,414 @@ export const featureFlags: FeatureFlag[] = [
       createdAt: '2023-12-01',
     },
   },
+  {
+    id: 'checkout_button_copy',
+    name: 'Checkout Button Copy',
+    description: 'Testo e stile del pulsante di checkout, in A/B test in produzione',
+    enabled: {
+      development: true,
+      staging: true,
+      production: true,
+    },
+    variations: defineVariations({
+      schema: z.object({
+        label: z.string().min(1).max(30),
+        tone: z.enum(['primary', 'accent', 'success']),
+        showPrice: z.boolean(),
+      }),
+      values: {
+        control: { label: 'Procedi al pagamento', tone: 'primary', showPrice: false },
+        urgency: { label: "Completa l'ordine ora", tone: 'accent', showPrice: false },
+        price: { label: 'Paga', tone: 'success', showPrice: true },
+      },
+      defaults: {
+        development: 'price',
+        staging: 'urgency',
+        production: 'control',
+      },
+      distribution: {
+        production: { control: 50, urgency: 25, price: 25 },
+      },
+    }),
+    metadata: {
+      owner: 'Team Growth',
+      createdAt: '2024-04-02',
+      jiraTicket: 'GROW-88',
+    },
+  },
+  {
+    id: 'search_page_size',
+    name: 'Search Page Size',
+    description: 'Numero di risultati per pagina nella ricerca',
+    enabled: {
+      development: true,
+      staging: true,
+      production: true,
+    },
+    variations: defineVariations({
+      schema: z.number().int().min(5).max(100),
+      values: { small: 10, medium: 25, large: 50 },
+      defaults: {
+        development: 'large',
+        staging: 'medium',
+        production: 'medium',
+      },
+    }),
+    metadata: {
+      owner: 'Team Search',
+      createdAt: '2024-04-10',
+    },
+  },
 ];
 
+// Regole con segmenti inesistenti o valori non validi: meglio fermarsi subito che valutarle male
+const targetingIssues = featureFlags.flatMap(flag => validateTargetingRules(flag.id, flag.rules ?? []));
+if (targetingIssues.length > 0) {
+  throw new Error(`Regole di targeting non valide:\n${targetingIssues.join('\n')}`);
+}
+
+// Un ciclo di prerequisiti renderebbe la valutazione infinita
+const prerequisiteIssues = validatePrerequisites(featureFlags);
+if (prerequisiteIssues.length > 0) {
+  throw new Error(`Prerequisiti dei flag non validi:\n${prerequisiteIssues.join('\n')}`);
+}
+
+// Date o ambienti non validi farebbero scattare (o mai scattare) le azioni in silenzio
+const scheduleIssues = featureFlags.flatMap(flag => validateSchedule(flag.id, flag.schedule ?? [], flag.metadata?.expiresAt));
+if (scheduleIssues.length > 0) {
+  throw new Error(`Programmazione dei flag non valida:\n${scheduleIssues.join('\n')}`);
+}
+
+// Stesso discorso per i payload dei flag multivariati
+const variationIssues = featureFlags.flatMap(flag => (flag.variations ? validateVariations(flag.id, flag.variations) : []));
+if (variationIssues.length > 0) {
+  throw new Error(`Varianti dei flag non valide:\n${variationIssues.join('\n')}`);
+}
+
+let flagClock: Clock = systemClock;
+
+/**
+ * Sostituisce l'orologio usato per programmazione e scadenze (nei test: createManualClock)
+ */
+export const setFlagClock = (clock: Clock): void => {
+  flagClock = clock;
+};
+
+export const resetFlagClock = (): void => {
+  flagClock = systemClock;
+};
+
+export const getFlagClock = (): Clock => flagClock;
+
+/**
+ * Contesto di valutazione: per chi e dove si decide il valore di un flag.
+ * `now` (da TargetingInput) vale anche per programmazione e scadenze.
+ */
+export interface EvaluationContext extends TargetingInput {
+  userKey?: string;             // Di default un id anonimo salvato nel browser
+  environment?: Environment;    // Di default l'ambiente attivo (vedi environmentResolution.ts)
+  overrides?: Record<string, boolean>;  // Stato nell'ambiente forzato per flag, per le simulazioni nella UI
+}
+
+/**
+ * Perché un flag ha il valore che ha:
+ * - not-found: il flag non esiste
+ * - environment-off: spento nell'ambiente, le regole non vengono nemmeno guardate
+ * - expired: scaduto; spento con auto-off, stato di default con la politica default
+ * - prerequisite: un prerequisito non è soddisfatto per questo utente
+ * - rule: ha deciso la prima regola di targeting che corrisponde
+ * - rollout: nessuna regola, deciso dal bucket dell'utente
+ * - default: nessuna regola e nessun rollout parziale
+ */
+export type EvaluationReason = 'not-found' | 'environment-off' | 'expired' | 'prerequisite' | 'rule' | 'rollout' | 'default';
+
+export const evaluationReasonLabels: Record<EvaluationReason, string> = {
+  'not-found': 'flag inesistente',
+  'environment-off': 'spento in questo ambiente',
+  expired: 'scaduto',
+  prerequisite: 'bloccato da un prerequisito',
+  rule: 'deciso da una regola',
+  rollout: 'deciso dal rollout',
+  default: 'attivo per tutti',
+};
+
+export interface FlagEvaluation {
+  flagId: string;
+  enabled: boolean;
+  reason: EvaluationReason;
+  prerequisite?: FlagPrerequisite;
+  rule?: TargetingRule;
+  bucket?: number;
+}
+
+export const USER_KEY_STORAGE_KEY = 'environment-manager:user-key';
+
+let memoryUserKey: string | undefined;
+
+// crypto.randomUUID esiste solo nei contesti sicuri: su http in LAN (il dev
+// server ascolta su ::) manca, e l'id deve comunque poter nascere
+const createAnonymousUserKey = (): string => {
+  const id = typeof globalThis.crypto?.randomUUID === 'function'
+    ? globalThis.crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  return `anon-${id}`;
+};
+
+/**
+ * Id anonimo e stabile del visitatore: serve solo a tenerlo nello stesso
+ * bucket tra una visita e l'altra. Senza localStorage dura quanto la pagina.
+ */
+export const getAnonymousUserKey = (
+  storage: Pick<Storage, 'getItem' | 'setItem'> | undefined = globalThis.localStorage
+): string => {
+  try {
+    const stored = storage?.getItem(USER_KEY_STORAGE_KEY);
+    if (stored) return stored;
+    if (storage) {
+      const created = createAnonymousUserKey();
+      storage.setItem(USER_KEY_STORAGE_KEY, created);
+      return created;
+    }
+  } catch {
+    // Storage non disponibile (es. navigazione privata): si usa la chiave in memoria
+  }
+  memoryUserKey ??= createAnonymousUserKey();
+  return memoryUserKey;
+};
+
+/**
+ * Stato di un flag in un ambiente a un certo istante: registro, azioni
+ * programmate già scattate e forzature della UI, più la scadenza
+ */
+export interface FlagState extends ScheduledState {
+  expired: boolean;
+}
+
+export const resolveFlagState = (
+  flag: FeatureFlag,
+  environment: Environment,
+  now: Date,
+  overrides: Record<string, boolean> = {}
+): FlagState => {
+  const scheduled = applySchedule(
+    { enabled: flag.enabled[environment] ?? false, rolloutPercentage: flag.rolloutPercentage },
+    flag.schedule ?? [],
+    environment,
+    now
+  );
+  return {
+    ...scheduled,
+    enabled: overrides[flag.id] ?? scheduled.enabled,
+    expired: isExpired(flag.metadata?.expiresAt, now),
+  };
+};
+
+// Un avviso per flag scaduto basta: la valutazione può girare a ogni render
+const warnedExpiredFlags = new Set<string>();
+
+/**
+ * Valuta un flag e spiega il risultato (regola applicata, bucket...)
+ * 
+ * Ordine: ambiente (con la programmazione) → scadenza → prerequisiti →
+ * regole di targeting (vince la prima) → rollout percentuale
+ */
+export const evaluateFeatureFlag = (flagId: string, context: EvaluationContext = {}): FlagEvaluation => {
+  const flag = featureFlags.find(f => f.id === flagId);
+  
+  if (!flag) {
+    console.warn(`Feature flag "${flagId}" non trovato!`);
+    return { flagId, enabled: false, reason: 'not-found' };
+  }
+  
+  // Lo stesso istante per tutto il resto, prerequisiti e regole compresi
+  const evaluationContext = {
+    ...context,
+    environment: context.environment ?? getActiveEnvironment(),
+    now: context.now ?? flagClock.now(),
+  };
+  const state = resolveFlagState(flag, evaluationContext.environment, evaluationContext.now, context.overrides);
+
+  // Se non è abilitato per l'ambiente, le regole non contano
+  if (!state.enabled) {
+    return { flagId, enabled: false, reason: 'environment-off' };
+  }
+
+  const expiryPolicy = state.expired ? flag.metadata?.expiryPolicy ?? 'auto-off' : undefined;
+  if (expiryPolicy === 'auto-off') {
+    return { flagId, enabled: false, reason: 'expired' };
+  }
+  if (expiryPolicy === 'warn' && !warnedExpiredFlags.has(flag.id)) {
+    warnedExpiredFlags.add(flag.id);
+    console.warn(`Feature flag "${flag.id}" scaduto il ${flag.metadata?.expiresAt}: va rimosso dal codice`);
+  }
+
+  // I prerequisiti si valutano per lo stesso utente: il registro non ha cicli
+  const unmet = (flag.prerequisites ?? []).find(prerequisite =>
+    prerequisite.variation === undefined
+      ? !evaluateFeatureFlag(prerequisite.flagId, evaluationContext).enabled
+      : evaluateFlagValue(prerequisite.flagId, undefined, evaluationContext).variation !== prerequisite.variation
+  );
+  if (unmet) {
+    return { flagId, enabled: false, reason: 'prerequisite', prerequisite: unmet };
+  }
+
+  // Scaduto con politica "default": niente targeting né rollout
+  if (expiryPolicy === 'default') {
+    return { flagId, enabled: true, reason: 'expired' };
+  }
+  
+  const rule = findMatchingRule(flag.rules ?? [], evaluationContext);
+  if (rule) {
+    return { flagId, enabled: rule.serve, reason: 'rule', rule };
+  }
+  
+  // Rollout parziale: lo stesso utente cade sempre nello stesso bucket
+  if (state.rolloutPercentage !== undefined && state.rolloutPercentage < 100) {
+    const bucket = getBucket(context.userKey ?? getAnonymousUserKey(), flag.id, flag.salt);
+    return { flagId, enabled: isInRollout(bucket, state.rolloutPercentage), reason: 'rollout', bucket };
+  }
+  
+  return { flagId, enabled: true, reason: 'default' };
+};
+
+/**
+ * Quante volte il codice dell'app ha chiesto un flag e quando l'ultima,
+ * dall'apertura della pagina. Le schermate di ispezione (getAllFeatureFlags)
+ * non contano: servono al report di igiene per trovare i flag mai usati.
+ */
+export interface FlagEvaluationStats {
+  count: number;
+  lastEvaluatedAt: string;
+}
+
+const evaluationStats = new Map<string, FlagEvaluationStats>();
+
+/**
+ * Registra una valutazione fatta dal codice dell'app. isFeatureEnabled e
+ * getFlagValue lo fanno da sole; gli hook React valutano con evaluate* nel
+ * render e registrano in un effetto (vedi contexts/FeatureFlagContext.ts).
+ */
+export const recordEvaluation = (flagId: string): void => {
+  evaluationStats.set(flagId, {
+    count: (evaluationStats.get(flagId)?.count ?? 0) + 1,
+    lastEvaluatedAt: flagClock.now().toISOString(),
+  });
+};
+
+export const getEvaluationStats = (): Record<string, FlagEvaluationStats> => Object.fromEntries(evaluationStats);
+
+export const resetEvaluationStats = (): void => {
+  evaluationStats.clear();
+};
+
 /**
  * Verifica se un feature flag è abilitato
  * 
  * @param flagId - ID del feature flag
- * @returns true se la feature è abilitata per l'ambiente corrente
+ * @param context - Utente, attributi e ambiente; senza, il visitatore anonimo nell'ambiente attivo
+ * @returns true se la feature è abilitata per l'ambiente e per l'utente
  * 
  * USO:
  * ```typescript
- * if (isFeatureEnabled('new_dashboard')) {
+ * if (isFeatureEnabled('new_dashboard', { userKey: user.id, attributes: { plan: user.plan } })) {
  *   return <NewDashboard />;
  * }
  * return <OldDashboard />;
  * ```
  */
-export const isFeatureEnabled = (flagId: string): boolean => {
+export const isFeatureEnabled = (flagId: string, context: EvaluationContext = {}): boolean => {
+  recordEvaluation(flagId);
+  return evaluateFeatureFlag(flagId, context).enabled;
+};
+
+/**
+ * Da dove arriva il valore di un flag multivariato:
+ * - distribution: dalla distribuzione pesata dell'ambiente, in base al bucket
+ * - default: dalla variante di default dell'ambiente
+ * - fallback: dal valore di riserva del chiamante (flag spento o senza varianti)
+ */
+export type ValueSource = 'distribution' | 'default' | 'fallback';
+
+export interface FlagValueEvaluation<T = unknown> {
+  flagId: string;
+  value: T;
+  variation?: string;
+  source: ValueSource;
+  evaluation: FlagEvaluation;
+}
+
+/**
+ * Valuta un flag multivariato e spiega quale variante è stata servita.
+ * Prima decide se il flag è acceso per l'utente (ambiente, regole, rollout),
+ * poi sceglie la variante con un bucket indipendente da quello del rollout.
+ */
+export const evaluateFlagValue = <T>(
+  flagId: string,
+  fallback: T,
+  context: EvaluationContext = {}
+): FlagValueEvaluation<T> => {
+  const environment = context.environment ?? getActiveEnvironment();
+  const evaluation = evaluateFeatureFlag(flagId, { ...context, environment });
   const flag = featureFlags.find(f => f.id === flagId);
-  
-  if (!flag) {
-    console.warn(`Feature flag "${flagId}" non trovato!`);
-    return false;
+  const variations = flag?.variations;
+
+  if (!flag || !variations || !evaluation.enabled) {
+    return { flagId, value: fallback, source: 'fallback', evaluation };
   }
-  
-  const currentEnv = getCurrentEnvironment();
-  const isEnabledForEnv = flag.enabled[currentEnv];
-  
-  // Se non è abilitato per l'ambiente, ritorna false
-  if (!isEnabledForEnv) return false;
-  
-  // Se c'è un rollout percentage, simula la logica
-  // (in produzione useresti l'ID utente per consistenza)
-  if (flag.rolloutPercentage !== undefined && flag.rolloutPercentage < 100) {
-    // Per demo, usiamo un valore random
-    // In produzione: hash(userId + flagId) % 100 < rolloutPercentage
-    return Math.random() * 100 < flag.rolloutPercentage;
+
+  // Un flag scaduto con politica "default" serve solo la variante di default
+  const weights = evaluation.reason === 'expired' ? undefined : variations.distribution?.[environment];
+  if (weights) {
+    const bucket = getBucket(context.userKey ?? getAnonymousUserKey(), flag.id, `${flag.salt ?? flag.id}:variations`);
+    const variation = pickWeightedVariation(bucket, weights);
+    if (variation !== undefined) {
+      return { flagId, value: variations.values[variation] as T, variation, source: 'distribution', evaluation };
+    }
   }
-  
-  return true;
+
+  const variation = variations.defaults[environment];
+  if (variation !== undefined) {
+    return { flagId, value: variations.values[variation] as T, variation, source: 'default', evaluation };
+  }
+  return { flagId, value: fallback, source: 'fallback', evaluation };
+};
+
+/**
+ * Valore di un flag multivariato, o `fallback` se il flag è spento per l'utente.
+ * Per i flag solo on/off si usa isFeatureEnabled.
+ * 
+ * USO:
+ * ```typescript
+ * const copy = getFlagValue('checkout_button_copy', { label: 'Paga', tone: 'primary', showPrice: false });
+ * const pageSize = getFlagValue('search_page_size', 20, { userKey: user.id });
+ * ```
+ */
+export const getFlagValue = <T>(flagId: string, fallback: T, context: EvaluationContext = {}): T => {
+  recordEvaluation(flagId);
+  return evaluateFlagValue(flagId, fallback, context).value;
 };
 
 /**
- * Hook-like function per ottenere tutti i flag con il loro stato
- * (In React, questo sarebbe un custom hook)
+ * Tutti i flag con il loro stato, per le schermate di ispezione.
+ * Nei componenti si usano gli hook di contexts/FeatureFlagContext.ts.
+ * 
+ * currentlyEnabled dice se il flag è acceso nell'ambiente (programmazione compresa),
+ * state il dettaglio di azioni programmate e scadenza,
+ * evaluation se l'utente del contesto lo vede davvero, e perché,
+ * value quale variante riceve (solo per i flag multivariati).
  */
-export const getAllFeatureFlags = () => {
-  const currentEnv = getCurrentEnvironment();
+export const getAllFeatureFlags = (context: EvaluationContext = {}) => {
+  const environment = context.environment ?? getActiveEnvironment();
+  const now = context.now ?? flagClock.now();
   
-  return featureFlags.map(flag => ({
-    ...flag,
-    currentlyEnabled: flag.enabled[currentEnv],
-  }));
+  return featureFlags.map(flag => {
+    const state = resolveFlagState(flag, environment, now, context.overrides);
+    return {
+      ...flag,
+      state,
+      currentlyEnabled: state.enabled,
+      evaluation: evaluateFeatureFlag(flag.id, { ...context, environment, now }),
+      value: flag.variations ? evaluateFlagValue(flag.id, undefined, { ...context, environment, now }) : undefined,
+    };
+  });
 };
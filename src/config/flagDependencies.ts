@@ -0,0 +1,145 @@
+/**
+ * 🔗 PREREQUISITI DEI FEATURE FLAG
+ *
+ * Un flag può dipendere da altri: beta_api_v2 ha senso solo se
+ * new_dashboard è acceso per lo stesso utente. I prerequisiti si
+ * valutano prima delle regole di targeting e, se uno non è soddisfatto,
+ * il flag è spento.
+ *
+ * Un prerequisito può chiedere anche una VARIANTE precisa di un flag
+ * multivariato (vedi variations.ts).
+ *
+ * I cicli (a richiede b, b richiede a) renderebbero la valutazione
+ * infinita: si cercano al caricamento del registro, come gli altri errori.
+ */
+
+export interface FlagPrerequisite {
+  flagId: string;
+  variation?: string;   // Se indicata, il prerequisito deve servire questa variante
+}
+
+/**
+ * La parte di un flag che serve per ragionare sulle dipendenze
+ */
+export interface DependencyNode {
+  id: string;
+  prerequisites?: FlagPrerequisite[];
+  variations?: { values: Record<string, unknown> };
+}
+
+export interface DependencyEdge {
+  from: string;         // Il prerequisito
+  to: string;           // Il flag che dipende da lui
+  variation?: string;
+}
+
+export interface DependencyGraph {
+  levels: string[][];   // Livello 0: flag senza prerequisiti; livello n: dipende da almeno un flag del livello n-1
+  edges: DependencyEdge[];
+}
+
+/**
+ * Cicli di prerequisiti, ognuno come percorso chiuso (es. ['a', 'b', 'a'])
+ */
+export const findPrerequisiteCycles = (flags: DependencyNode[]): string[][] => {
+  const byId = new Map(flags.map(flag => [flag.id, flag]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    (byId.get(id)?.prerequisites ?? []).forEach(({ flagId }) => {
+      if (!byId.has(flagId)) return;
+      if (state.get(flagId) === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(flagId)), flagId]);
+      } else if (!state.has(flagId)) {
+        visit(flagId);
+      }
+    });
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  flags.forEach(flag => {
+    if (!state.has(flag.id)) visit(flag.id);
+  });
+  return cycles;
+};
+
+/**
+ * Controlla i prerequisiti di tutto il registro: flag e varianti inesistenti, cicli
+ */
+export const validatePrerequisites = (flags: DependencyNode[]): string[] => {
+  const byId = new Map(flags.map(flag => [flag.id, flag]));
+
+  const references = flags.flatMap(flag =>
+    (flag.prerequisites ?? []).flatMap(({ flagId, variation }) => {
+      const prerequisite = byId.get(flagId);
+      if (!prerequisite) return [`${flag.id}: prerequisito "${flagId}" inesistente`];
+      if (variation !== undefined && !(variation in (prerequisite.variations?.values ?? {}))) {
+        return [`${flag.id}: il prerequisito ${flagId} non ha la variante "${variation}"`];
+      }
+      return [];
+    })
+  );
+
+  const cycles = findPrerequisiteCycles(flags).map(cycle => `ciclo di prerequisiti: ${cycle.join(' → ')}`);
+  return [...references, ...cycles];
+};
+
+/**
+ * Flag che dipendono da `flagId`, anche indirettamente, dal più vicino al più lontano.
+ * Sono quelli che si spengono a cascata quando si spegne `flagId`.
+ */
+export const getDependents = (flagId: string, flags: DependencyNode[]): string[] => {
+  const dependents: string[] = [];
+  const queue = [flagId];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    flags
+      .filter(flag => flag.prerequisites?.some(prerequisite => prerequisite.flagId === current))
+      .forEach(flag => {
+        if (flag.id !== flagId && !dependents.includes(flag.id)) {
+          dependents.push(flag.id);
+          queue.push(flag.id);
+        }
+      });
+  }
+  return dependents;
+};
+
+/**
+ * Grafo a livelli dei soli flag coinvolti in una dipendenza.
+ * Il registro deve essere già privo di cicli (vedi validatePrerequisites).
+ */
+export const buildDependencyGraph = (flags: DependencyNode[]): DependencyGraph => {
+  const byId = new Map(flags.map(flag => [flag.id, flag]));
+  const edges = flags.flatMap(flag =>
+    (flag.prerequisites ?? [])
+      .filter(({ flagId }) => byId.has(flagId))
+      .map(({ flagId, variation }) => ({ from: flagId, to: flag.id, variation }))
+  );
+
+  const depths = new Map<string, number>();
+  const depthOf = (id: string): number => {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    const prerequisites = edges.filter(edge => edge.to === id);
+    const depth = prerequisites.length === 0 ? 0 : 1 + Math.max(...prerequisites.map(edge => depthOf(edge.from)));
+    depths.set(id, depth);
+    return depth;
+  };
+
+  const levels: string[][] = [];
+  flags
+    .filter(flag => edges.some(edge => edge.from === flag.id || edge.to === flag.id))
+    .forEach(flag => {
+      const depth = depthOf(flag.id);
+      (levels[depth] ??= []).push(flag.id);
+    });
+
+  return { levels, edges };
+};
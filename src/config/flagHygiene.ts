@@ -0,0 +1,310 @@
+/**
+ * 🧹 IGIENE DEI FEATURE FLAG
+ *
+ * Ogni flag è debito tecnico: finito il rilascio va tolto dal codice.
+ * Il report segnala quelli da ripulire:
+ *
+ * - expired            → passata la data metadata.expiresAt
+ * - fully-rolled-out   → acceso al 100% in tutti i suoi ambienti da più di N giorni
+ * - never-evaluated    → nessuna valutazione registrata (vedi getEvaluationStats)
+ * - no-owner           → nessun team responsabile in metadata.owner
+ * - unknown-reference  → il codice chiede un flag che non esiste nel registro
+ * - unreferenced       → nessuna chiamata nel codice: il flag non serve a niente
+ * - dynamic-reference  → chiamate con un id calcolato (variabile, template con
+ *                        ${}): non si sa quale flag usano, vanno controllate a mano
+ *
+ * Le chiamate le trova findFlagReferences(), eseguito su tutto src/ da
+ * `npm run scan:flags` (vedi scripts/scan-flag-references.ts), che rigenera
+ * flagReferences.generated.ts. Come l'hardcode scanner niente AST: l'id si
+ * riconosce solo se è una stringa letterale, il resto è "dinamico".
+ */
+
+import type { FeatureFlag, FlagEvaluationStats } from './featureFlags';
+import { applySchedule, expiryPolicyLabels, isExpired } from './flagSchedule';
+
+export type HygieneIssueKind =
+  | 'expired'
+  | 'fully-rolled-out'
+  | 'never-evaluated'
+  | 'no-owner'
+  | 'unknown-reference'
+  | 'unreferenced'
+  | 'dynamic-reference';
+
+export const hygieneIssueLabels: Record<HygieneIssueKind, string> = {
+  expired: 'Scaduto',
+  'fully-rolled-out': 'Rilasciato a tutti',
+  'never-evaluated': 'Mai valutato',
+  'no-owner': 'Senza responsabile',
+  'unknown-reference': 'Flag inesistente nel codice',
+  unreferenced: 'Mai usato nel codice',
+  'dynamic-reference': 'Id dinamico nel codice',
+};
+
+export interface FlagReference {
+  flagId: string;           // DYNAMIC_FLAG_ID se l'id non è una stringa letterale
+  file: string;             // Relativo alla radice del progetto, es. src/pages/Index.tsx
+  line: number;             // 1-based
+  column: number;           // 1-based
+  call: string;             // Funzione chiamata, es. isFeatureEnabled
+  expression?: string;      // Solo per gli id dinamici: l'argomento com'è scritto nel codice
+}
+
+// Chiamata con un id calcolato: il flag usato si scopre solo eseguendo il codice
+export const DYNAMIC_FLAG_ID = '*';
+
+export interface HygieneIssue {
+  kind: HygieneIssueKind;
+  flagId: string;
+  message: string;
+  references: FlagReference[];
+}
+
+export interface HygieneOptions {
+  now: Date;
+  fullRolloutDays?: number;
+  references?: FlagReference[];                          // Senza, niente controlli sul codice
+  evaluations?: Record<string, FlagEvaluationStats>;     // Senza, niente controllo "mai valutato"
+}
+
+export const FLAG_REFERENCES_PATH = 'src/config/flagReferences.generated.ts';
+
+export const DEFAULT_FULL_ROLLOUT_DAYS = 30;
+
+export const FLAG_CALLS = [
+  'isFeatureEnabled',
+  'getFlagValue',
+  'evaluateFeatureFlag',
+  'evaluateFlagValue',
+  'useFeatureFlag',
+  'useFlagValue',
+] as const;
+
+/**
+ * File che implementano l'API dei flag: inoltrano l'id ricevuto dal chiamante,
+ * quindi le loro chiamate dinamiche non sono usi di un flag
+ */
+export const FLAG_API_FILES = [
+  'src/config/featureFlags.ts',
+  'src/contexts/FeatureFlagContext.ts',
+  'src/components/Feature.tsx',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * File di src/ da scansionare: sorgenti TypeScript, esclusi test e file generati
+ */
+export const isFlagSourceFile = (file: string): boolean =>
+  /\.tsx?$/.test(file) &&
+  !file.endsWith('.d.ts') &&
+  !file.endsWith('.generated.ts') &&
+  !/\.test\.tsx?$/.test(file) &&
+  !file.split('/').includes('test');
+
+/**
+ * Sostituisce i commenti con spazi lasciando gli a capo, così offset,
+ * righe e colonne restano quelli del sorgente originale
+ */
+const blankComments = (code: string): string => {
+  let result = '';
+  let quote: string | null = null;
+  let index = 0;
+
+  while (index < code.length) {
+    const char = code[index];
+    if (quote) {
+      result += char;
+      if (char === '\\') {
+        result += code[index + 1] ?? '';
+        index += 2;
+        continue;
+      }
+      // ' e " non vanno a capo: limita i danni di una regex letterale con un apice
+      if (char === quote || (char === '\n' && quote !== '`')) quote = null;
+      index++;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      result += char;
+      index++;
+      continue;
+    }
+    if (char === '/' && (code[index + 1] === '/' || code[index + 1] === '*')) {
+      const end = code[index + 1] === '/'
+        ? code.indexOf('\n', index)
+        : code.indexOf('*/', index + 2) + 2;
+      const stop = end <= 1 || end === -1 ? code.length : end;
+      result += code.slice(index, stop).replace(/[^\n]/g, ' ');
+      index = stop;
+      continue;
+    }
+    result += char;
+    index++;
+  }
+  return result;
+};
+
+/**
+ * Chiamate ai flag, es. isFeatureEnabled('new_dashboard'),
+ * getFlagValue<Copy>("checkout_button_copy", ...) o <Feature flag="export_pdf">.
+ * Un id che non è una stringa letterale (isFeatureEnabled(FLAG_ID), un template
+ * con ${}, flag={id}) diventa un riferimento dinamico. I commenti sono ignorati.
+ */
+export const findFlagReferences = (code: string, file: string): FlagReference[] => {
+  const source = blankComments(code);
+  // 2-3: id tra apici, 4: qualsiasi altra espressione fino alla virgola o alla parentesi
+  const calls = new RegExp(
+    `\\b(${FLAG_CALLS.join('|')})\\s*(?:<[^>()]*>)?\\s*\\(\\s*(?:(['"\`])([^'"\`\\n]+)\\2|([^,)\\s][^,)\\n]*))`,
+    'g'
+  );
+  const components = /<(Feature)\b[^>]*?\sflag=(?:(['"])([^'"\n]+)\2|\{([^}\n]+)\})/g;
+
+  return [...source.matchAll(calls), ...source.matchAll(components)]
+    .sort((a, b) => a.index - b.index)
+    .map(match => {
+      const before = source.slice(0, match.index);
+      const line = before.split('\n').length;
+      const [, call, quote, literal, expression] = match;
+      const isLiteral = literal !== undefined && !(quote === '`' && literal.includes('${'));
+      return {
+        flagId: isLiteral ? literal : DYNAMIC_FLAG_ID,
+        file,
+        line,
+        column: match.index - before.lastIndexOf('\n'),
+        call,
+        ...(isLiteral ? {} : { expression: (expression ?? `${quote}${literal}${quote}`).trim() }),
+      };
+    });
+};
+
+export const scanFlagReferences = (files: { file: string; code: string }[]): FlagReference[] =>
+  files
+    .flatMap(({ file, code }) => findFlagReferences(code, file))
+    .filter(reference => reference.flagId !== DYNAMIC_FLAG_ID || !FLAG_API_FILES.includes(reference.file))
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+
+/**
+ * Da quando il flag è al 100% in tutti gli ambienti in cui è definito, o null.
+ * Conta la più recente tra la creazione e le azioni programmate già scattate.
+ * Regole che spengono il flag o varianti multiple vogliono dire che non è per tutti.
+ */
+export const fullyRolledOutSince = (flag: FeatureFlag, now: Date): Date | null => {
+  if (flag.variations || (flag.rules ?? []).some(rule => !rule.serve)) return null;
+
+  const environments = [...new Set([
+    ...Object.keys(flag.enabled),
+    ...(flag.schedule ?? []).map(action => action.environment),
+  ])];
+  const states = environments.map(environment =>
+    applySchedule(
+      { enabled: flag.enabled[environment] ?? false, rolloutPercentage: flag.rolloutPercentage },
+      flag.schedule ?? [],
+      environment,
+      now
+    )
+  );
+  if (states.length === 0 || !states.every(state => state.enabled && (state.rolloutPercentage ?? 100) >= 100)) {
+    return null;
+  }
+
+  const createdAt = Date.parse(flag.metadata?.createdAt ?? '');
+  const changes = states.flatMap(state => state.applied.map(action => Date.parse(action.at)));
+  return new Date(Math.max(Number.isNaN(createdAt) ? 0 : createdAt, ...changes));
+};
+
+/**
+ * Report completo, nell'ordine del registro; in fondo i flag inesistenti usati
+ * nel codice e le chiamate con un id dinamico
+ */
+export const createHygieneReport = (flags: FeatureFlag[], options: HygieneOptions): HygieneIssue[] => {
+  const { now, fullRolloutDays = DEFAULT_FULL_ROLLOUT_DAYS, references, evaluations } = options;
+  const knownIds = new Set(flags.map(flag => flag.id));
+  const dynamicReferences = (references ?? []).filter(reference => reference.flagId === DYNAMIC_FLAG_ID);
+
+  const flagIssues = flags.flatMap(flag => {
+    const issues: HygieneIssue[] = [];
+    const add = (kind: HygieneIssueKind, message: string) => issues.push({ kind, flagId: flag.id, message, references: [] });
+
+    if (isExpired(flag.metadata?.expiresAt, now)) {
+      const policy = flag.metadata?.expiryPolicy ?? 'auto-off';
+      add('expired', `scaduto il ${flag.metadata?.expiresAt} (${expiryPolicyLabels[policy]})`);
+    }
+
+    const since = fullyRolledOutSince(flag, now);
+    if (since) {
+      const days = Math.floor((now.getTime() - since.getTime()) / DAY_MS);
+      if (days >= fullRolloutDays) {
+        add('fully-rolled-out', `al 100% ovunque da ${days} giorni: si può togliere dal codice`);
+      }
+    }
+
+    if (evaluations && !evaluations[flag.id]?.count) {
+      add('never-evaluated', 'nessuna valutazione da quando è stata aperta l\'app');
+    }
+
+    if (!flag.metadata?.owner?.trim()) {
+      add('no-owner', 'nessun team responsabile in metadata.owner');
+    }
+
+    if (references && !references.some(reference => reference.flagId === flag.id)) {
+      add(
+        'unreferenced',
+        dynamicReferences.length > 0
+          ? 'nessuna chiamata con questo id letterale (potrebbe usarlo una chiamata dinamica)'
+          : 'nessuna chiamata nel codice'
+      );
+    }
+    return issues;
+  });
+
+  const unknownIds = [...new Set((references ?? []).map(reference => reference.flagId))]
+    .filter(flagId => flagId !== DYNAMIC_FLAG_ID && !knownIds.has(flagId));
+  const unknownIssues = unknownIds.map(flagId => {
+    const found = (references ?? []).filter(reference => reference.flagId === flagId);
+    return {
+      kind: 'unknown-reference' as const,
+      flagId,
+      message: `flag inesistente usato in ${found.length} ${found.length === 1 ? 'punto' : 'punti'}`,
+      references: found,
+    };
+  });
+
+  const dynamicIssues: HygieneIssue[] = dynamicReferences.length > 0
+    ? [{
+        kind: 'dynamic-reference',
+        flagId: DYNAMIC_FLAG_ID,
+        message: `${dynamicReferences.length} ${dynamicReferences.length === 1 ? 'chiamata' : 'chiamate'} con un id non letterale: quale flag usano va verificato a mano`,
+        references: dynamicReferences,
+      }]
+    : [];
+
+  return [...flagIssues, ...unknownIssues, ...dynamicIssues];
+};
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * Contenuto di flagReferences.generated.ts
+ */
+export const renderFlagReferences = (references: FlagReference[]): string =>
+  [
+    '// ⚠️ FILE GENERATO da scripts/scan-flag-references.ts: non modificare a mano.',
+    '// Dopo aver aggiunto o tolto chiamate ai feature flag esegui `npm run scan:flags`.',
+    '',
+    "import type { FlagReference } from './flagHygiene';",
+    '',
+    ...(references.length === 0
+      ? ['export const flagReferences: FlagReference[] = [];']
+      : [
+          'export const flagReferences: FlagReference[] = [',
+          ...references.map(reference =>
+            `  { flagId: ${quote(reference.flagId)}, file: ${quote(reference.file)}, line: ${reference.line}, column: ${reference.column}, call: ${quote(reference.call)}${
+              reference.expression === undefined ? '' : `, expression: ${quote(reference.expression)}`
+            } },`
+          ),
+          '];',
+        ]),
+    '',
+  ].join('\n');
@@ -0,0 +1,11 @@
+// ⚠️ FILE GENERATO da scripts/scan-flag-references.ts: non modificare a mano.
+// Dopo aver aggiunto o tolto chiamate ai feature flag esegui `npm run scan:flags`.
+
+import type { FlagReference } from './flagHygiene';
+
+export const flagReferences: FlagReference[] = [
+  { flagId: 'checkout_button_copy', file: 'src/components/FeatureFlagPreview.tsx', line: 28, column: 16, call: 'useFlagValue' },
+  { flagId: 'search_page_size', file: 'src/components/FeatureFlagPreview.tsx', line: 29, column: 20, call: 'useFlagValue' },
+  { flagId: 'dark_mode_v2', file: 'src/components/FeatureFlagPreview.tsx', line: 30, column: 20, call: 'useFeatureFlag' },
+  { flagId: 'export_pdf', file: 'src/components/FeatureFlagPreview.tsx', line: 50, column: 9, call: 'Feature' },
+];
@@ -0,0 +1,167 @@
+/**
+ * ⏰ PROGRAMMAZIONE E SCADENZA DEI FLAG
+ *
+ * Invece di ricordarsi di cambiare un flag il giorno del lancio, si
+ * programmano le azioni per ambiente:
+ *
+ *   15/01 09:00  production  rollout al 75%
+ *   01/02 09:00  production  rollout al 100%
+ *
+ * Le azioni già passate si applicano in ordine di data sopra lo stato
+ * del registro: vince l'ultima.
+ *
+ * La SCADENZA (metadata.expiresAt) non è più solo un promemoria, ma
+ * segue una politica:
+ * - auto-off: finito il giorno indicato il flag è spento (default)
+ * - warn: il flag continua a funzionare, ma avvisa in console
+ * - default: si ignorano regole, rollout e distribuzioni e si serve
+ *   lo stato di default dell'ambiente
+ *
+ * L'ora corrente arriva da un Clock: nei test si usa createManualClock()
+ * per far avanzare il tempo senza aspettare.
+ */
+
+import type { Environment } from './environment';
+import { environmentIds } from './environments';
+
+export type ScheduledAction =
+  | { type: 'enable'; environment: Environment; at: string }
+  | { type: 'disable'; environment: Environment; at: string }
+  | { type: 'ramp'; environment: Environment; at: string; percentage: number };
+
+export type ExpiryPolicy = 'auto-off' | 'warn' | 'default';
+
+export const expiryPolicyLabels: Record<ExpiryPolicy, string> = {
+  'auto-off': 'spento alla scadenza',
+  warn: 'solo avviso',
+  default: 'torna allo stato di default',
+};
+
+export interface Clock {
+  now: () => Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface ManualClock extends Clock {
+  set: (date: Date | string) => void;
+  advance: (ms: number) => void;
+}
+
+/**
+ * Orologio fermo che si sposta solo a mano, per i test
+ */
+export const createManualClock = (start: Date | string): ManualClock => {
+  let current = new Date(start);
+  return {
+    now: () => new Date(current),
+    set: date => {
+      current = new Date(date);
+    },
+    advance: ms => {
+      current = new Date(current.getTime() + ms);
+    },
+  };
+};
+
+/**
+ * Stato di un flag in un ambiente, prima e dopo le azioni programmate
+ */
+export interface ScheduledState {
+  enabled: boolean;
+  rolloutPercentage?: number;
+  applied: ScheduledAction[];    // Azioni già eseguite, dalla più vecchia
+  upcoming: ScheduledAction[];   // Azioni future, dalla più vicina
+}
+
+const byDate = (a: ScheduledAction, b: ScheduledAction) => Date.parse(a.at) - Date.parse(b.at);
+
+/**
+ * Applica le azioni dell'ambiente già scattate a `now` sopra lo stato del registro
+ */
+export const applySchedule = (
+  base: { enabled: boolean; rolloutPercentage?: number },
+  actions: ScheduledAction[],
+  environment: Environment,
+  now: Date
+): ScheduledState => {
+  const forEnvironment = actions.filter(action => action.environment === environment).sort(byDate);
+  const applied = forEnvironment.filter(action => Date.parse(action.at) <= now.getTime());
+  const upcoming = forEnvironment.filter(action => Date.parse(action.at) > now.getTime());
+
+  return applied.reduce<ScheduledState>(
+    (state, action) => {
+      if (action.type === 'ramp') return { ...state, rolloutPercentage: action.percentage };
+      return { ...state, enabled: action.type === 'enable' };
+    },
+    { ...base, applied, upcoming }
+  );
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Istante in cui scatta la scadenza. Una data senza ora ("2024-12-31") vale
+ * per tutto quel giorno: il flag scade alla mezzanotte UTC successiva.
+ */
+const expiryTime = (expiresAt: string): number =>
+  DATE_ONLY.test(expiresAt) ? Date.parse(expiresAt) + DAY_MS : Date.parse(expiresAt);
+
+/**
+ * true se la scadenza è passata (vedi expiryTime per le date senza ora)
+ */
+export const isExpired = (expiresAt: string | undefined, now: Date): boolean =>
+  expiresAt !== undefined && expiryTime(expiresAt) <= now.getTime();
+
+/**
+ * Controlla ambienti, date e percentuali delle azioni programmate. Ritorna i problemi trovati.
+ * Un ambiente scritto male non darebbe errori: l'azione semplicemente non scatterebbe mai.
+ */
+export const validateSchedule = (
+  flagId: string,
+  actions: ScheduledAction[],
+  expiresAt?: string,
+  environments: readonly Environment[] = environmentIds
+): string[] => [
+  ...actions.flatMap(action => [
+    ...(!environments.includes(action.environment) ? [`${flagId}: ambiente "${action.environment}" non registrato`] : []),
+    ...(Number.isNaN(Date.parse(action.at)) ? [`${flagId}: "${action.at}" non è una data valida`] : []),
+    ...(action.type === 'ramp' && (action.percentage < 0 || action.percentage > 100)
+      ? [`${flagId}: rollout al ${action.percentage}% fuori dall'intervallo 0-100`]
+      : []),
+  ]),
+  ...(expiresAt !== undefined && Number.isNaN(Date.parse(expiresAt))
+    ? [`${flagId}: scadenza "${expiresAt}" non è una data valida`]
+    : []),
+];
+
+/**
+ * Prima data dopo `now` in cui il valore di qualche flag cambia da solo
+ * (azione programmata o scadenza), o null se non ce ne sono
+ */
+export const nextFlagChange = (
+  flags: { schedule?: ScheduledAction[]; metadata?: { expiresAt?: string } }[],
+  now: Date
+): Date | null => {
+  const upcoming = flags
+    .flatMap(flag => [
+      ...(flag.schedule ?? []).map(action => Date.parse(action.at)),
+      flag.metadata?.expiresAt === undefined ? NaN : expiryTime(flag.metadata.expiresAt),
+    ])
+    .filter(time => time > now.getTime());
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+};
+
+export const describeScheduledAction = (action: ScheduledAction): string => {
+  switch (action.type) {
+    case 'enable':
+      return 'accensione';
+    case 'disable':
+      return 'spegnimento';
+    case 'ramp':
+      return `rollout al ${action.percentage}%`;
+  }
+};
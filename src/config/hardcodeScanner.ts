@@ -0,0 +1,325 @@
+/**
+ * 🔎 SCANNER DEI VALORI HARDCODATI
+ *
+ * Analizza uno snippet TypeScript/JavaScript con regole semplici
+ * (niente AST: deve funzionare anche su codice incompleto incollato al volo):
+ *
+ * - url              → indirizzi http(s)/ws(s) scritti nel codice
+ * - api-key          → formati noti di chiavi e credenziali (vedi leakCheck.ts)
+ * - high-entropy     → stringhe lunghe e "casuali", tipiche di token e chiavi
+ * - env-conditional  → if sul nome dell'ambiente o sul dominio
+ *
+ * Per ogni problema propone una correzione: il valore diventa una lettura
+ * da `config` o `import.meta.env` (o `process.env` se è un segreto, che
+ * non deve mai arrivare al browser) e finisce in un file .env.
+ */
+
+import { quoteDotenv } from './configExport';
+import { configs } from './environment';
+import { matchSecretValue, type LeakSeverity } from './leakCheck';
+import { flattenValues } from './layers';
+
+export type HardcodeRule = 'url' | 'api-key' | 'high-entropy' | 'env-conditional';
+
+export interface HardcodeFix {
+  replacement: string;      // Codice che sostituisce il testo trovato
+  envKey?: string;          // Variabile da aggiungere al .env
+  envValue?: string;
+  serverOnly: boolean;      // true → senza prefisso VITE_, da leggere sul server
+}
+
+export interface HardcodeFinding {
+  rule: HardcodeRule;
+  severity: LeakSeverity;
+  line: number;             // 1-based
+  column: number;           // 1-based
+  start: number;            // Offset nel sorgente
+  end: number;
+  text: string;
+  message: string;
+  fix: HardcodeFix | null;  // null → va sistemato a mano
+}
+
+export interface HardcodeRefactor {
+  code: string;
+  envFile: string;
+  applied: number;
+}
+
+export interface HardcodeScanOptions {
+  /** Valore → espressione che lo legge già dalla configurazione (es. "config.apiUrl") */
+  knownValues?: Record<string, string>;
+}
+
+export const hardcodeRuleLabels: Record<HardcodeRule, string> = {
+  url: 'URL',
+  'api-key': 'Chiave / credenziale',
+  'high-entropy': 'Stringa ad alta entropia',
+  'env-conditional': "Condizione sull'ambiente",
+};
+
+const STRING_LITERAL = /(['"`])((?:\\.|(?!\1)[^\\\n])*)\1/g;
+const URL_PATTERN = /^(https?|wss?):\/\/\S+$/;
+const URL_ORIGIN = /^[a-z]+:\/\/[^/?#]+/i;
+const MIN_ENTROPY_LENGTH = 16;
+const ENTROPY_THRESHOLD = 3.5;
+
+const conditionalRules: { pattern: RegExp; message: string }[] = [
+  {
+    pattern: /\b(?:process\.env\.NODE_ENV|import\.meta\.env\.MODE)\s*(===|!==|==|!=)\s*(['"])(\w+)\2/g,
+    message: 'comportamento legato al nome della modalità: meglio un flag di configurazione',
+  },
+  {
+    pattern: /\b(?:window\.)?location\.hostname\b[^;)\n]*/g,
+    message: "ambiente dedotto dal dominio: usa config.name o un valore di configurazione",
+  },
+  {
+    pattern: /\b(?:env|environment|ENV|APP_ENV)\s*(===|!==|==|!=)\s*(['"])(prod|production|staging|dev|development)\2/g,
+    message: "confronto con il nome dell'ambiente: meglio un flag di configurazione",
+  },
+];
+
+/**
+ * Entropia di Shannon in bit per carattere
+ */
+export const shannonEntropy = (text: string): number => {
+  if (!text) return 0;
+  const counts = new Map<string, number>();
+  [...text].forEach(char => counts.set(char, (counts.get(char) ?? 0) + 1));
+  return [...counts.values()].reduce((sum, count) => {
+    const p = count / text.length;
+    return sum - p * Math.log2(p);
+  }, 0);
+};
+
+/**
+ * "stripeSecretKey" → "STRIPE_SECRET_KEY"
+ */
+export const toEnvName = (identifier: string): string => {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+};
+
+// Valori già presenti nella configurazione: si leggono da `config`, senza nuove variabili
+const defaultKnownValues = (): Record<string, string> => {
+  const known: Record<string, string> = {};
+  Object.values(configs).forEach(config => {
+    Object.entries(flattenValues(config)).forEach(([path, value]) => {
+      if (typeof value === 'string' && URL_PATTERN.test(value)) known[value] = `config.${path}`;
+    });
+  });
+  return known;
+};
+
+/**
+ * Il valore inizia con l'URL noto e subito dopo c'è un confine (percorso, query,
+ * frammento o fine stringa): "https://api.example.com.evil.org" non è apiUrl
+ */
+const startsWithUrl = (value: string, url: string): boolean => {
+  if (!value.startsWith(url)) return false;
+  const next = value.charAt(url.length);
+  return url.endsWith('/') || next === '' || next === '/' || next === '?' || next === '#';
+};
+
+const positionAt = (source: string, offset: number): { line: number; column: number } => {
+  const before = source.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+const lineBefore = (source: string, offset: number): string => {
+  return source.slice(source.lastIndexOf('\n', offset - 1) + 1, offset);
+};
+
+/**
+ * Nome della variabile a cui viene assegnato il valore, se riconoscibile
+ */
+const assignedName = (prefix: string): string | null => {
+  const match =
+    prefix.match(/(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*$/) ??
+    prefix.match(/\.([A-Za-z_$][\w$]*)\s*=\s*$/) ??
+    prefix.match(/['"]?([A-Za-z_$][\w$-]*)['"]?\s*:\s*$/);
+  return match ? match[1] : null;
+};
+
+const isInComment = (prefix: string): boolean => {
+  const trimmed = prefix.trimStart();
+  return trimmed.startsWith('//') || trimmed.startsWith('*') || trimmed.startsWith('/*');
+};
+
+const isModuleSpecifier = (prefix: string): boolean => /(\bfrom|\bimport|\brequire\()\s*\(?\s*$/.test(prefix);
+
+interface LiteralClassification {
+  rule: HardcodeRule;
+  severity: LeakSeverity;
+  message: string;
+  defaultName: string;      // Nome della variabile se non si ricava dal codice
+  serverOnly: boolean;
+}
+
+const classifyLiteral = (value: string, name: string | null): LiteralClassification | null => {
+  const secretMatches = matchSecretValue(value);
+  if (secretMatches.length > 0) {
+    return {
+      rule: 'api-key',
+      severity: secretMatches[0].severity,
+      message: `${secretMatches[0].message}: non deve stare nel codice né nel bundle`,
+      defaultName: 'SECRET_KEY',
+      serverOnly: true,
+    };
+  }
+  if (URL_PATTERN.test(value)) {
+    return {
+      rule: 'url',
+      severity: 'warning',
+      message: "URL fisso: cambia da un ambiente all'altro",
+      defaultName: 'API_URL',
+      serverOnly: false,
+    };
+  }
+  // Lettere e cifre mescolate: esclude slug e frasi, che hanno entropia alta ma non sono chiavi
+  const looksRandom = /\d/.test(value) && /[A-Za-z]/.test(value) && !/\s/.test(value);
+  if (value.length >= MIN_ENTROPY_LENGTH && looksRandom && shannonEntropy(value) >= ENTROPY_THRESHOLD) {
+    const declaredPublic = /public|publishable/i.test(name ?? '');
+    return {
+      rule: 'high-entropy',
+      severity: declaredPublic ? 'info' : 'warning',
+      message: declaredPublic
+        ? 'chiave pubblica: va comunque configurata per ambiente'
+        : 'stringa casuale, probabilmente una chiave o un token',
+      defaultName: 'API_KEY',
+      serverOnly: !declaredPublic,
+    };
+  }
+  return null;
+};
+
+const conditionalFix = (text: string): HardcodeFix | null => {
+  const match = text.match(/^(?:process\.env\.NODE_ENV|import\.meta\.env\.MODE)\s*(===|!==|==|!=)\s*['"](production|development)['"]$/);
+  if (!match) return null;
+  const flag = match[2] === 'production' ? 'import.meta.env.PROD' : 'import.meta.env.DEV';
+  return { replacement: match[1].startsWith('!') ? `!${flag}` : flag, serverOnly: false };
+};
+
+/**
+ * Trova i valori hardcodati in uno snippet, nell'ordine in cui compaiono
+ */
+export const scanHardcodedValues = (source: string, options: HardcodeScanOptions = {}): HardcodeFinding[] => {
+  const knownValues = options.knownValues ?? defaultKnownValues();
+  const findings: HardcodeFinding[] = [];
+  const names = new Map<string, string>();     // nome variabile → valore
+  const namesByValue = new Map<string, string>();
+
+  const uniqueName = (base: string, value: string): string => {
+    const existing = namesByValue.get(value);
+    if (existing) return existing;
+    let candidate = base;
+    for (let index = 2; names.has(candidate) && names.get(candidate) !== value; index++) {
+      candidate = `${base}_${index}`;
+    }
+    names.set(candidate, value);
+    namesByValue.set(value, candidate);
+    return candidate;
+  };
+
+  for (const match of source.matchAll(STRING_LITERAL)) {
+    const [text, quote, value] = match;
+    const start = match.index ?? 0;
+    const prefix = lineBefore(source, start);
+    if (isInComment(prefix) || isModuleSpecifier(prefix)) continue;
+    if (quote === '`' && value.includes('${')) continue;
+
+    const name = assignedName(prefix);
+    const classified = classifyLiteral(value, name);
+    if (!classified) continue;
+
+    const { defaultName, serverOnly, ...finding } = classified;
+    let fix: HardcodeFix;
+    if (serverOnly) {
+      const envName = uniqueName((name ? toEnvName(name) : '') || defaultName, value);
+      fix = { replacement: `process.env.${envName}`, envKey: envName, envValue: value, serverOnly };
+    } else {
+      // URL passati direttamente (es. a fetch): si configura la base, il percorso resta nel codice
+      const known = Object.keys(knownValues)
+        .filter(candidate => startsWithUrl(value, candidate))
+        .sort((a, b) => b.length - a.length)[0];
+      const origin = finding.rule === 'url' && !name ? value.match(URL_ORIGIN)?.[0] : undefined;
+      const base = known ?? origin ?? value;
+      const envName = known ? null : uniqueName((name ? toEnvName(name) : '') || defaultName, base);
+      const expression = known ? knownValues[known] : `import.meta.env.VITE_${envName}`;
+      const rest = value.slice(base.length);
+      fix = {
+        replacement: rest && rest !== '/' ? `\`\${${expression}}${rest}\`` : expression,
+        ...(envName ? { envKey: `VITE_${envName}`, envValue: base } : {}),
+        serverOnly,
+      };
+    }
+
+    findings.push({ ...finding, ...positionAt(source, start), start, end: start + text.length, text, fix });
+  }
+
+  conditionalRules.forEach(rule => {
+    for (const match of source.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      if (isInComment(lineBefore(source, start))) continue;
+      const text = match[0].trimEnd();
+      findings.push({
+        rule: 'env-conditional',
+        severity: 'info',
+        message: rule.message,
+        ...positionAt(source, start),
+        start,
+        end: start + text.length,
+        text,
+        fix: conditionalFix(text),
+      });
+    }
+  });
+
+  return findings.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Applica le correzioni proposte e genera il .env con le variabili necessarie
+ */
+export const refactorHardcodedValues = (
+  source: string,
+  findings: HardcodeFinding[] = scanHardcodedValues(source)
+): HardcodeRefactor => {
+  // Un valore dentro una condizione già segnalata non viene corretto due volte
+  const fixable = findings
+    .filter((finding): finding is HardcodeFinding & { fix: HardcodeFix } => finding.fix !== null)
+    .filter((finding, index, all) => !all.some((other, otherIndex) =>
+      otherIndex !== index && other.start <= finding.start && other.end >= finding.end && other.end - other.start > finding.end - finding.start
+    ));
+
+  let code = [...fixable]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, finding) => text.slice(0, finding.start) + finding.fix.replacement + text.slice(finding.end), source);
+
+  const usesConfig = fixable.some(finding => /(^|\{)config\./.test(finding.fix.replacement));
+  if (usesConfig && !/import\s*\{[^}]*\bconfig\b[^}]*\}\s*from/.test(code)) {
+    code = `import { config } from '@/config/environment';\n\n${code}`;
+  }
+
+  const entries = new Map<string, HardcodeFix>();
+  fixable.forEach(finding => {
+    if (finding.fix.envKey) entries.set(finding.fix.envKey, finding.fix);
+  });
+  const lines = (serverOnly: boolean) =>
+    [...entries.values()]
+      .filter(fix => fix.serverOnly === serverOnly)
+      .map(fix => `${fix.envKey}=${quoteDotenv(fix.envValue ?? '')}`);
+
+  const publicLines = lines(false);
+  const serverLines = lines(true);
+  const envFile = [
+    ...(publicLines.length > 0 ? ['# Esposte al client', ...publicLines] : []),
+    ...(publicLines.length > 0 && serverLines.length > 0 ? [''] : []),
+    ...(serverLines.length > 0 ? ['# Solo server: MAI con prefisso VITE_', ...serverLines] : []),
+  ].join('\n');
+
+  return { code, envFile: envFile ? `${envFile}\n` : '', applied: fixable.length };
+};
@@ -0,0 +1,180 @@
+/**
+ * 🩺 HEALTH CHECK DEGLI AMBIENTI
+ *
+ * Ogni ambiente espone GET <apiUrl>/health. Sondarlo a intervalli regolari
+ * dice se il backend risponde, quanto ci mette e da quanto è stabile:
+ *
+ * - stato      → up / degraded / down, calcolato sugli ultimi controlli
+ * - latenza    → percentili p50 / p95 / p99 sui campioni riusciti
+ * - uptime     → % di controlli riusciti nello storico
+ * - schema     → un apiUrl http:// verso un host remoto viaggia in chiaro
+ *
+ * Senza rete si usa il backend mock (vedi mockBackend.ts).
+ */
+
+export type HealthStatus = 'unknown' | 'up' | 'degraded' | 'down';
+
+export interface HealthSample {
+  timestamp: number;
+  ok: boolean;
+  httpStatus: number | null;      // null = nessuna risposta (rete, timeout)
+  latencyMs: number;
+  error?: string;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface HealthSummary {
+  status: HealthStatus;
+  uptime: number | null;          // 0-100, null senza campioni
+  latency: LatencyPercentiles | null;
+  last: HealthSample | null;
+}
+
+export interface SchemeCheck {
+  scheme: string;                 // 'https', 'http'...
+  secure: boolean;
+  local: boolean;
+  warning?: string;
+}
+
+export const DEFAULT_HEALTH_INTERVAL_MS = 5000;
+export const DEFAULT_HEALTH_TIMEOUT_MS = 3000;
+export const DEFAULT_HEALTH_HISTORY = 30;
+export const DEGRADED_LATENCY_MS = 500;     // p95 oltre questa soglia → degraded
+const RECENT_SAMPLES = 5;
+
+export const healthStatusLabels: Record<HealthStatus, string> = {
+  unknown: 'In attesa',
+  up: 'Operativo',
+  degraded: 'Degradato',
+  down: 'Non raggiungibile',
+};
+
+export const healthEndpoint = (apiUrl: string): string => `${apiUrl.replace(/\/+$/, '')}/health`;
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', '0.0.0.0']);
+
+/**
+ * Controlla lo schema dell'apiUrl: https ovunque, http accettato solo in locale
+ */
+export const checkScheme = (apiUrl: string): SchemeCheck => {
+  let url: URL;
+  try {
+    url = new URL(apiUrl);
+  } catch {
+    return { scheme: 'invalido', secure: false, local: false, warning: `"${apiUrl}" non è un URL valido` };
+  }
+
+  const scheme = url.protocol.replace(/:$/, '');
+  const secure = scheme === 'https';
+  const local = LOCAL_HOSTS.has(url.hostname) || url.hostname.endsWith('.localhost');
+  return {
+    scheme,
+    secure,
+    local,
+    ...(!secure && !local ? { warning: `${scheme}:// verso ${url.hostname}: il traffico non è cifrato` } : {}),
+  };
+};
+
+export interface ProbeOptions {
+  fetcher?: typeof fetch;
+  now?: () => number;
+  timeoutMs?: number;
+}
+
+/**
+ * Esegue un controllo: non lancia mai, un errore diventa un campione fallito
+ */
+export const probeHealth = async (
+  url: string,
+  { fetcher = fetch, now = () => performance.now(), timeoutMs = DEFAULT_HEALTH_TIMEOUT_MS }: ProbeOptions = {}
+): Promise<HealthSample> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const startedAt = now();
+  const timestamp = Date.now();
+
+  try {
+    const response = await fetcher(url, { signal: controller.signal, cache: 'no-store' });
+    const latencyMs = Math.round(now() - startedAt);
+    let body: { status?: unknown } | null = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Un /health senza JSON conta solo per il codice HTTP
+    }
+    const ok = response.ok && (body?.status === undefined || body.status === 'ok');
+    return {
+      timestamp,
+      ok,
+      httpStatus: response.status,
+      latencyMs,
+      ...(ok ? {} : { error: `HTTP ${response.status}` }),
+    };
+  } catch (error) {
+    return {
+      timestamp,
+      ok: false,
+      httpStatus: null,
+      latencyMs: Math.round(now() - startedAt),
+      error: controller.signal.aborted ? `Timeout dopo ${timeoutMs}ms` : (error as Error).message,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Aggiunge un campione mantenendo solo gli ultimi `limit`
+ */
+export const appendSample = (
+  history: HealthSample[],
+  sample: HealthSample,
+  limit = DEFAULT_HEALTH_HISTORY
+): HealthSample[] => [...history, sample].slice(-limit);
+
+/**
+ * Percentile con il metodo nearest-rank (p tra 0 e 100)
+ */
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) {
+    throw new Error('Percentile di un insieme vuoto');
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.max(1, Math.ceil((p / 100) * sorted.length));
+  return sorted[rank - 1];
+};
+
+export const summarizeHealth = (history: HealthSample[]): HealthSummary => {
+  if (history.length === 0) {
+    return { status: 'unknown', uptime: null, latency: null, last: null };
+  }
+
+  const last = history[history.length - 1];
+  const succeeded = history.filter(sample => sample.ok);
+  const latencies = succeeded.map(sample => sample.latencyMs);
+  const latency = latencies.length > 0
+    ? { p50: percentile(latencies, 50), p95: percentile(latencies, 95), p99: percentile(latencies, 99) }
+    : null;
+
+  // Lo stato guarda solo gli ultimi controlli: un disservizio passato pesa su uptime e percentili
+  const recent = history.slice(-RECENT_SAMPLES);
+  const recentLatencies = recent.filter(sample => sample.ok).map(sample => sample.latencyMs);
+  const status: HealthStatus = !last.ok
+    ? 'down'
+    : recent.some(sample => !sample.ok) || percentile(recentLatencies, 95) > DEGRADED_LATENCY_MS
+      ? 'degraded'
+      : 'up';
+
+  return {
+    status,
+    uptime: Math.round((succeeded.length / history.length) * 1000) / 10,
+    latency,
+    last,
+  };
+};
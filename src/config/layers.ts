@@ -0,0 +1,130 @@
+/**
+ * 🧱 CONFIGURAZIONE A LIVELLI (Layered Config)
+ *
+ * Invece di ripetere l'intera configurazione per ogni ambiente,
+ * ogni livello dichiara solo ciò che cambia rispetto al suo "genitore":
+ *
+ *   base → staging → production
+ *   base → local → development
+ *
+ * I livelli vengono fusi in profondità (deep merge) dal più generico
+ * al più specifico. Per ogni chiave si ricorda da quale livello arriva
+ * il valore finale (provenienza), e si segnalano gli override inutili:
+ * quelli che ripetono esattamente il valore già ereditato.
+ */
+
+import type { DeepPartial, EnvironmentConfig } from './schema';
+
+export interface ConfigLayer {
+  extends?: string;  // Livello genitore (assente per la radice)
+  values: DeepPartial<EnvironmentConfig>;
+}
+
+/**
+ * Provenienza usata per le chiavi che nessun livello definisce
+ * e che quindi prendono il default dello schema
+ */
+export const SCHEMA_DEFAULT_LAYER = 'schema-default';
+
+export interface RedundantOverride {
+  layer: string;
+  path: string;
+  value: unknown;
+  inheritedFrom: string;
+}
+
+export interface ResolvedLayers {
+  chain: string[];                      // Dal livello radice a quello richiesto
+  values: DeepPartial<EnvironmentConfig>;
+  provenance: Record<string, string>;   // percorso → livello che ha vinto
+  redundant: RedundantOverride[];
+}
+
+/**
+ * Appiattisce un oggetto annidato in coppie percorso → valore foglia
+ */
+export const flattenValues = (source: unknown, prefix = ''): Record<string, unknown> => {
+  if (source === null || typeof source !== 'object' || Array.isArray(source)) {
+    return prefix ? { [prefix]: source } : {};
+  }
+
+  return Object.entries(source as Record<string, unknown>).reduce<Record<string, unknown>>(
+    (flat, [key, value]) => ({
+      ...flat,
+      ...flattenValues(value, prefix ? `${prefix}.${key}` : key),
+    }),
+    {}
+  );
+};
+
+/**
+ * Ricostruisce l'oggetto annidato a partire dai percorsi puntati
+ */
+export const unflattenValues = (flat: Record<string, unknown>): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  Object.entries(flat).forEach(([path, value]) => {
+    const segments = path.split('.');
+    let current = result;
+    segments.slice(0, -1).forEach(segment => {
+      current[segment] = (current[segment] as Record<string, unknown>) ?? {};
+      current = current[segment] as Record<string, unknown>;
+    });
+    current[segments[segments.length - 1]] = value;
+  });
+  return result;
+};
+
+/**
+ * Calcola la catena di ereditarietà di un livello, dalla radice in giù.
+ * Fallisce se un genitore non esiste o se la catena forma un ciclo.
+ */
+export const resolveLayerChain = (layers: Record<string, ConfigLayer>, layerId: string): string[] => {
+  const chain: string[] = [];
+  let current: string | undefined = layerId;
+
+  while (current !== undefined) {
+    if (chain.includes(current)) {
+      throw new Error(`Ciclo di ereditarietà tra i livelli: ${[...chain, current].reverse().join(' → ')}`);
+    }
+    const layer: ConfigLayer | undefined = layers[current];
+    if (!layer) {
+      throw new Error(
+        chain.length === 0
+          ? `Livello "${current}" non definito`
+          : `Il livello "${chain[chain.length - 1]}" estende "${current}", che non esiste`
+      );
+    }
+    chain.push(current);
+    current = layer.extends;
+  }
+
+  return chain.reverse();
+};
+
+/**
+ * Fonde i livelli della catena e tiene traccia della provenienza di ogni chiave
+ */
+export const resolveLayers = (layers: Record<string, ConfigLayer>, layerId: string): ResolvedLayers => {
+  const chain = resolveLayerChain(layers, layerId);
+  const merged: Record<string, unknown> = {};
+  const provenance: Record<string, string> = {};
+  const redundant: RedundantOverride[] = [];
+
+  chain.forEach(id => {
+    Object.entries(flattenValues(layers[id].values)).forEach(([path, value]) => {
+      if (path in merged && Object.is(merged[path], value)) {
+        redundant.push({ layer: id, path, value, inheritedFrom: provenance[path] });
+        return;
+      }
+      merged[path] = value;
+      provenance[path] = id;
+    });
+  });
+
+  return {
+    chain,
+    values: unflattenValues(merged) as DeepPartial<EnvironmentConfig>,
+    provenance,
+    redundant,
+  };
+};
@@ -0,0 +1,140 @@
+/**
+ * 🚨 CONTROLLO DELLE VARIABILI ESPOSTE AL CLIENT
+ *
+ * Tutto ciò che ha il prefisso VITE_ viene copiato nel bundle JavaScript
+ * e chiunque può leggerlo dagli strumenti del browser. Questo modulo
+ * cerca, tra le variabili esposte, quelle che sembrano dei segreti:
+ *
+ * - registro  → la chiave o il valore corrispondono a un secret privato (secrets.ts)
+ * - valore    → formati riconoscibili (sk_live_, chiavi private, URL con password...)
+ * - nome      → SECRET, PASSWORD, TOKEN... nel nome della variabile
+ *
+ * Le variabili senza prefisso restano sul server di build e non vengono segnalate.
+ */
+
+import { DEFAULT_ENV_PREFIX, isExposedKey } from './envFiles';
+import { secrets as secretRegistry, type Secret } from './secrets';
+
+export type LeakSeverity = 'critical' | 'warning' | 'info';
+export type LeakRuleKind = 'registry' | 'value' | 'name';
+
+export interface LeakMatch {
+  rule: LeakRuleKind;
+  severity: LeakSeverity;
+  message: string;
+}
+
+export interface LeakFinding {
+  key: string;
+  value: string;
+  severity: LeakSeverity;     // La più grave tra le corrispondenze
+  matches: LeakMatch[];
+}
+
+export interface LeakCheckOptions {
+  envPrefix?: string | string[];
+  secrets?: Secret[];
+}
+
+export const leakSeverityRank: Record<LeakSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+interface PatternRule {
+  pattern: RegExp;
+  severity: LeakSeverity;
+  message: string;
+}
+
+const valueRules: PatternRule[] = [
+  { pattern: /\b(sk|rk)_live_[A-Za-z0-9]+/, severity: 'critical', message: 'chiave segreta Stripe di produzione' },
+  { pattern: /\b(sk|rk)_test_[A-Za-z0-9]+/, severity: 'warning', message: 'chiave segreta Stripe di test' },
+  { pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/, severity: 'critical', message: 'chiave privata PEM' },
+  { pattern: /\bAKIA[0-9A-Z]{16}\b/, severity: 'critical', message: 'access key AWS' },
+  { pattern: /\bSG\.[A-Za-z0-9_-]+/, severity: 'critical', message: 'API key SendGrid' },
+  { pattern: /\bgh[pousr]_[A-Za-z0-9]{20,}/, severity: 'critical', message: 'token GitHub' },
+  { pattern: /^[a-z][a-z0-9+.-]*:\/\/[^/\s:@]*:[^/\s@]+@/i, severity: 'critical', message: 'URL con credenziali (utente:password@host)' },
+  { pattern: /^eyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, severity: 'warning', message: 'token JWT' },
+];
+
+// Nomi che dichiarano esplicitamente un valore pubblico (es. STRIPE_PUBLISHABLE_KEY)
+const PUBLIC_NAME_PATTERN = /PUBLISHABLE|PUBLIC|ANON/;
+
+const nameRules: PatternRule[] = [
+  { pattern: /SECRET|PRIVATE_KEY/, severity: 'critical', message: 'il nome indica un segreto' },
+  { pattern: /PASSWORD|PASSWD|PWD/, severity: 'critical', message: 'il nome indica una password' },
+  { pattern: /TOKEN|CREDENTIAL/, severity: 'warning', message: 'il nome indica un token o una credenziale' },
+  { pattern: /API_KEY|ACCESS_KEY/, severity: 'info', message: 'chiave API: verifica che sia pensata per il browser' },
+];
+
+const stripPrefix = (key: string, envPrefix: string | string[]): string => {
+  const prefixes = Array.isArray(envPrefix) ? envPrefix : [envPrefix];
+  const prefix = prefixes.find(item => key.startsWith(item));
+  return prefix ? key.slice(prefix.length) : key;
+};
+
+const registryMatches = (key: string, value: string, bareKey: string, store: Secret[]): LeakMatch[] => {
+  const byName = store.find(secret => secret.key === bareKey || secret.key === key);
+  if (byName) {
+    return byName.isPublic
+      ? []
+      : [{ rule: 'registry', severity: 'critical', message: `è il secret privato ${byName.key}` }];
+  }
+
+  const byValue = value
+    ? store.find(secret => Object.values(secret.values).includes(value))
+    : undefined;
+  if (byValue && !byValue.isPublic) {
+    return [{ rule: 'registry', severity: 'critical', message: `contiene il valore del secret privato ${byValue.key}` }];
+  }
+  return [];
+};
+
+/**
+ * Formati di valore riconoscibili come segreti (sk_live_, chiavi PEM, URL con password...)
+ */
+export const matchSecretValue = (value: string): LeakMatch[] => {
+  return valueRules
+    .filter(rule => rule.pattern.test(value))
+    .map(rule => ({ rule: 'value' as const, severity: rule.severity, message: rule.message }));
+};
+
+/**
+ * Controlla una singola variabile esposta. Ritorna null se non sembra un segreto.
+ */
+export const checkExposedVariable = (
+  key: string,
+  value: string,
+  { envPrefix = DEFAULT_ENV_PREFIX, secrets = secretRegistry }: LeakCheckOptions = {}
+): LeakFinding | null => {
+  const bareKey = stripPrefix(key, envPrefix).toUpperCase();
+  const declaredPublic = PUBLIC_NAME_PATTERN.test(bareKey);
+
+  const matches: LeakMatch[] = [
+    ...registryMatches(key, value, bareKey, secrets),
+    ...matchSecretValue(value),
+    ...(declaredPublic ? [] : nameRules.filter(rule => rule.pattern.test(bareKey)).slice(0, 1))
+      .map(rule => ({ rule: 'name' as const, severity: rule.severity, message: rule.message })),
+  ];
+
+  if (matches.length === 0) return null;
+
+  matches.sort((a, b) => leakSeverityRank[a.severity] - leakSeverityRank[b.severity]);
+  return { key, value, severity: matches[0].severity, matches };
+};
+
+/**
+ * Analizza un insieme di variabili (es. un .env o import.meta.env) e
+ * riporta quelle esposte al client che non dovrebbero esserlo,
+ * dalla più grave alla meno grave.
+ */
+export const checkClientExposure = (
+  env: Record<string, string>,
+  options: LeakCheckOptions = {}
+): LeakFinding[] => {
+  const envPrefix = options.envPrefix ?? DEFAULT_ENV_PREFIX;
+
+  return Object.entries(env)
+    .filter(([key]) => isExposedKey(key, envPrefix))
+    .map(([key, value]) => checkExposedVariable(key, value, options))
+    .filter((finding): finding is LeakFinding => finding !== null)
+    .sort((a, b) => leakSeverityRank[a.severity] - leakSeverityRank[b.severity] || a.key.localeCompare(b.key));
+};
@@ -0,0 +1,133 @@
+/**
+ * 🧪 BACKEND MOCK LOCALE
+ *
+ * Gli apiUrl degli ambienti (api.example.com, staging-api...) non esistono:
+ * per provare gli health check senza rete ogni ambiente ha un backend finto
+ * che risponde su /__mock-backend/<ambiente>/health.
+ *
+ * - in sviluppo e in `vite preview` lo serve il plugin plugins/vite-plugin-mock-backend.ts
+ * - nei test createMockFetch() usa le stesse risposte senza nessun server
+ *
+ * Per ogni ambiente si può simulare un disservizio (vedi MockOutage).
+ */
+
+import type { Environment } from './environments';
+
+export const MOCK_BACKEND_BASE = '/__mock-backend';
+
+export type MockOutage = 'none' | 'slow' | 'flaky' | 'down';
+
+export const mockOutageLabels: Record<MockOutage, string> = {
+  none: 'Operativo',
+  slow: 'Lento',
+  flaky: 'Instabile',
+  down: 'Non raggiungibile',
+};
+
+export const mockOutages = Object.keys(mockOutageLabels) as MockOutage[];
+
+export const isMockOutage = (value: unknown): value is MockOutage =>
+  typeof value === 'string' && value in mockOutageLabels;
+
+export interface MockResponse {
+  status: number;
+  delayMs: number;
+  body: Record<string, unknown>;
+}
+
+export interface MockBackend {
+  getOutage: (environment: Environment) => MockOutage;
+  setOutage: (environment: Environment, outage: MockOutage) => void;
+  outages: () => Record<Environment, MockOutage>;
+  handle: (method: string, path: string, body?: unknown) => MockResponse;
+}
+
+const SLOW_DELAY_MS = 900;
+const FLAKY_FAILURE_RATE = 0.5;
+
+export const mockHealthUrl = (environment: Environment): string =>
+  `${MOCK_BACKEND_BASE}/${encodeURIComponent(environment)}/health`;
+
+export const mockOutageUrl = (environment: Environment): string =>
+  `${MOCK_BACKEND_BASE}/${encodeURIComponent(environment)}/outage`;
+
+/**
+ * Crea un backend mock. `random` è iniettabile per rendere i test deterministici.
+ */
+export const createMockBackend = ({ random = Math.random }: { random?: () => number } = {}): MockBackend => {
+  const outageByEnvironment = new Map<Environment, MockOutage>();
+  const getOutage = (environment: Environment) => outageByEnvironment.get(environment) ?? 'none';
+
+  const health = (environment: Environment): MockResponse => {
+    const outage = getOutage(environment);
+    const jitter = Math.round(random() * 40);
+
+    if (outage === 'down' || (outage === 'flaky' && random() < FLAKY_FAILURE_RATE)) {
+      return { status: 503, delayMs: 10 + jitter, body: { status: 'down', environment } };
+    }
+    return {
+      status: 200,
+      delayMs: (outage === 'slow' ? SLOW_DELAY_MS : 15) + jitter,
+      body: { status: 'ok', environment },
+    };
+  };
+
+  const handle = (method: string, path: string, body?: unknown): MockResponse => {
+    let segments: string[];
+    try {
+      segments = path.replace(/^\/+/, '').split('/').map(segment => decodeURIComponent(segment));
+    } catch {
+      // Sequenze % malformate (es. /staging/%E0): URIError
+      return { status: 400, delayMs: 0, body: { error: `Percorso non valido: ${path}` } };
+    }
+    const [environment, action] = segments;
+
+    if (method === 'GET' && action === 'health' && environment) {
+      return health(environment);
+    }
+    if (method === 'POST' && action === 'outage' && environment) {
+      const outage = (body as { outage?: unknown } | undefined)?.outage;
+      if (!isMockOutage(outage)) {
+        return { status: 400, delayMs: 0, body: { error: `Disservizio non valido (validi: ${mockOutages.join(', ')})` } };
+      }
+      outageByEnvironment.set(environment, outage);
+      return { status: 200, delayMs: 0, body: { environment, outage } };
+    }
+    if (method === 'GET' && environment === 'outages' && !action) {
+      return { status: 200, delayMs: 0, body: Object.fromEntries(outageByEnvironment) };
+    }
+    return { status: 404, delayMs: 0, body: { error: `${method} ${path} non esiste` } };
+  };
+
+  return {
+    getOutage,
+    setOutage: (environment, outage) => {
+      outageByEnvironment.set(environment, outage);
+    },
+    outages: () => Object.fromEntries(outageByEnvironment),
+    handle,
+  };
+};
+
+/**
+ * fetch() che risponde con il backend mock, senza rete.
+ * `wait` riceve il ritardo simulato: nei test può far avanzare un orologio finto.
+ */
+export const createMockFetch = (
+  backend: MockBackend,
+  { wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)) }: { wait?: (ms: number) => Promise<void> } = {}
+): typeof fetch => {
+  return (async (input: Parameters<typeof fetch>[0], init?: RequestInit) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url, 'http://localhost');
+    if (!url.pathname.startsWith(MOCK_BACKEND_BASE)) {
+      throw new TypeError(`Failed to fetch ${url.href}: fuori dal backend mock`);
+    }
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+    const response = backend.handle(init?.method ?? 'GET', url.pathname.slice(MOCK_BACKEND_BASE.length), body);
+    await wait(response.delayMs);
+    return new Response(JSON.stringify(response.body), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }) as typeof fetch;
+};
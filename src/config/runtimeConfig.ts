@@ -0,0 +1,141 @@
+/**
+ * 🚚 CONFIGURAZIONE A RUNTIME - Build once, deploy many
+ *
+ * Tutto ciò che passa da import.meta.env viene "congelato" nel bundle
+ * al momento del build: per cambiare un URL serve un nuovo build.
+ *
+ * Con la configurazione a runtime lo STESSO artefatto può essere promosso
+ * da staging a production: i valori specifici dell'ambiente arrivano
+ * al primo caricamento della pagina, da una di queste sorgenti:
+ *
+ * 1. window.__ENV__ → oggetto iniettato in index.html dal server/container
+ *    (es. <script>window.__ENV__ = { "name": "staging" }</script>)
+ * 2. config.json    → file servito accanto al bundle e scaricato con fetch
+ *
+ * I valori vengono validati contro lo schema e fusi sopra i default
+ * di build dell'ambiente indicato (o di quello rilevato al build).
+ */
+
+import { configs, getCurrentEnvironment } from './environment';
+import { isKnownEnvironment, type Environment } from './environments';
+import { flattenValues, unflattenValues } from './layers';
+import { validateSecretReferences } from './secrets';
+import {
+  ConfigValidationError,
+  validatePartialConfig,
+  type DeepPartial,
+  type EnvironmentConfig,
+} from './schema';
+
+declare global {
+  interface Window {
+    __ENV__?: unknown;
+  }
+}
+
+export const WINDOW_ENV_SOURCE = 'window.__ENV__';
+
+export type RuntimeConfigStatus = 'disabled' | 'loading' | 'ready' | 'error';
+
+export interface LoadedRuntimeConfig {
+  source: string;                              // window.__ENV__ oppure l'URL scaricato
+  environment: Environment;
+  overrides: DeepPartial<EnvironmentConfig>;   // Valori arrivati a runtime
+  config: EnvironmentConfig;                   // Default di build + override
+}
+
+export interface LoadRuntimeConfigOptions {
+  url?: string;
+  fetcher?: typeof fetch;
+  windowEnv?: unknown;
+  buildEnvironment?: Environment;
+}
+
+/**
+ * Fonde gli override sopra la configurazione di build, chiave per chiave
+ */
+export const mergeRuntimeConfig = (
+  base: EnvironmentConfig,
+  overrides: DeepPartial<EnvironmentConfig>
+): EnvironmentConfig => {
+  return unflattenValues({
+    ...flattenValues(base),
+    ...flattenValues(overrides),
+  }) as unknown as EnvironmentConfig;
+};
+
+/**
+ * Valida un payload arrivato a runtime e lo applica all'ambiente giusto
+ */
+export const applyRuntimeConfig = (
+  payload: unknown,
+  source: string,
+  buildEnvironment: Environment = getCurrentEnvironment()
+): LoadedRuntimeConfig => {
+  if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new ConfigValidationError([
+      { environment: source, path: '*', message: 'la configurazione a runtime deve essere un oggetto JSON' },
+    ]);
+  }
+
+  const overrides = payload as DeepPartial<EnvironmentConfig>;
+  const environment = overrides.name ?? buildEnvironment;
+
+  if (!isKnownEnvironment(environment)) {
+    throw new ConfigValidationError([
+      { environment: source, path: 'name', message: `ambiente "${environment}" non registrato` },
+    ]);
+  }
+
+  const issues = [...validatePartialConfig(environment, overrides), ...validateSecretReferences(environment, overrides)];
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+
+  return {
+    source,
+    environment,
+    overrides,
+    config: mergeRuntimeConfig(configs[environment], overrides),
+  };
+};
+
+/**
+ * Carica la configurazione a runtime.
+ * window.__ENV__ ha la precedenza: se è presente non serve nessuna richiesta.
+ */
+export const loadRuntimeConfig = async ({
+  url,
+  fetcher = fetch,
+  windowEnv = typeof window !== 'undefined' ? window.__ENV__ : undefined,
+  buildEnvironment,
+}: LoadRuntimeConfigOptions = {}): Promise<LoadedRuntimeConfig> => {
+  if (windowEnv !== undefined) {
+    return applyRuntimeConfig(windowEnv, WINDOW_ENV_SOURCE, buildEnvironment);
+  }
+
+  if (!url) {
+    throw new Error('Nessuna sorgente di configurazione a runtime: né window.__ENV__ né un URL');
+  }
+
+  const response = await fetcher(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Impossibile scaricare ${url}: HTTP ${response.status}`);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await response.json();
+  } catch {
+    throw new Error(`${url} non contiene JSON valido`);
+  }
+
+  return applyRuntimeConfig(payload, url, buildEnvironment);
+};
+
+/**
+ * La configurazione a runtime è opzionale: si attiva solo se c'è una sorgente
+ */
+export const isRuntimeConfigEnabled = (url?: string): boolean => {
+  return Boolean(url) || (typeof window !== 'undefined' && window.__ENV__ !== undefined);
+};
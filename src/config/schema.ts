@@ -0,0 +1,317 @@
+/**
+ * 📐 SCHEMA DELLA CONFIGURAZIONE
+ *
+ * Descrive in modo dichiarativo ogni chiave di EnvironmentConfig:
+ * - type: tipo atteso del valore
+ * - required: se la chiave deve essere presente (dopo l'applicazione dei default)
+ * - requiredEnv: se la variabile VITE_* corrispondente è obbligatoria al build
+ *   (vedi envCheck.ts). Solo per le chiavi che l'app legge davvero da import.meta.env
+ * - allowed: elenco dei valori ammessi
+ * - default: valore usato quando la chiave manca
+ * - description: spiegazione leggibile, mostrata anche nella UI
+ *
+ * Lo schema viene usato per validare OGNI ambiente al caricamento:
+ * un errore di battitura in un URL o un logLevel inesistente
+ * viene segnalato subito, con il percorso preciso della chiave.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface EnvironmentConfig {
+  name: string;
+  displayName: string;
+  apiUrl: string;
+  debugMode: boolean;
+  logLevel: LogLevel;
+  features: {
+    analytics: boolean;
+    errorReporting: boolean;
+    experimentalFeatures: boolean;
+  };
+}
+
+/**
+ * Versione "parziale" ricorsiva, usata per le configurazioni grezze
+ * prima che vengano applicati i default dello schema
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type ConfigValueType = 'string' | 'boolean' | 'number';
+export type ConfigPrimitive = string | boolean | number;
+
+export interface ConfigFieldSchema {
+  type: ConfigValueType;
+  required?: boolean;
+  requiredEnv?: boolean;
+  allowed?: readonly ConfigPrimitive[];
+  default?: ConfigPrimitive;
+  format?: 'url';
+  description: string;
+}
+
+/**
+ * Schema completo, indicizzato per percorso puntato (es. "features.analytics")
+ */
+export const environmentConfigSchema = {
+  name: {
+    type: 'string',
+    required: true,
+    description: "Identificativo tecnico dell'ambiente",
+  },
+  displayName: {
+    type: 'string',
+    required: true,
+    description: "Nome leggibile dell'ambiente",
+  },
+  apiUrl: {
+    type: 'string',
+    required: true,
+    format: 'url',
+    description: 'URL base delle API backend',
+  },
+  debugMode: {
+    type: 'boolean',
+    default: false,
+    description: 'Abilita informazioni di debug aggiuntive',
+  },
+  logLevel: {
+    type: 'string',
+    allowed: ['debug', 'info', 'warn', 'error'],
+    default: 'info',
+    description: 'Livello minimo dei log registrati',
+  },
+  'features.analytics': {
+    type: 'boolean',
+    default: false,
+    description: 'Tracciamento del comportamento degli utenti',
+  },
+  'features.errorReporting': {
+    type: 'boolean',
+    default: false,
+    description: 'Invio automatico degli errori (es. Sentry)',
+  },
+  'features.experimentalFeatures': {
+    type: 'boolean',
+    default: false,
+    description: 'Funzionalità sperimentali non ancora stabili',
+  },
+} as const satisfies Record<string, ConfigFieldSchema>;
+
+// Unione letterale dei percorsi: un percorso sbagliato non compila
+export type ConfigPath = keyof typeof environmentConfigSchema;
+
+/**
+ * Singolo problema trovato durante la validazione
+ */
+export interface ConfigValidationIssue {
+  environment: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * Errore lanciato quando uno o più ambienti non rispettano lo schema.
+ * Contiene l'elenco completo dei problemi, non solo il primo.
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigValidationIssue[];
+
+  constructor(issues: ConfigValidationIssue[]) {
+    super(
+      `Configurazione non valida:\n` +
+        issues.map(issue => `  - [${issue.environment}] ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Legge un valore annidato tramite percorso puntato
+ */
+export const getAtPath = (source: unknown, path: string): unknown => {
+  return path.split('.').reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') return undefined;
+    return (current as Record<string, unknown>)[segment];
+  }, source);
+};
+
+/**
+ * Scrive un valore annidato tramite percorso puntato, creando
+ * gli oggetti intermedi se mancano
+ */
+export const setAtPath = (target: Record<string, unknown>, path: string, value: unknown): void => {
+  const segments = path.split('.');
+  let current = target;
+  segments.slice(0, -1).forEach(segment => {
+    if (current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  });
+  current[segments[segments.length - 1]] = value;
+};
+
+/**
+ * Riferimento a un secret dentro un valore (es. "${secret:DATABASE_URL}").
+ * Viene risolto per ambiente al momento della lettura, vedi secrets.ts.
+ */
+export const SECRET_REFERENCE_PATTERN = /\$\{secret:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export const hasSecretReference = (value: unknown): value is string => {
+  return typeof value === 'string' && new RegExp(SECRET_REFERENCE_PATTERN.source).test(value);
+};
+
+const isValidUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Controlla un singolo valore contro la definizione del suo campo.
+ * Ritorna il messaggio di errore, oppure null se il valore è valido.
+ */
+export const checkFieldValue = (field: ConfigFieldSchema, value: unknown): string | null => {
+  if (typeof value !== field.type) {
+    return `atteso ${field.type}, trovato ${value === null ? 'null' : typeof value}`;
+  }
+  // Valori ammessi e formato si possono controllare solo dopo la risoluzione dei secrets
+  if (hasSecretReference(value)) return null;
+  if (field.allowed && !field.allowed.includes(value as ConfigPrimitive)) {
+    return `valore "${String(value)}" non ammesso (valori validi: ${field.allowed.join(', ')})`;
+  }
+  if (field.format === 'url' && !isValidUrl(value as string)) {
+    return `"${String(value)}" non è un URL http(s) valido`;
+  }
+  return null;
+};
+
+/**
+ * Valida una configurazione grezza e applica i default dello schema.
+ *
+ * Segnala anche le chiavi sconosciute: spesso sono errori di battitura
+ * (es. "apiURL" invece di "apiUrl") che altrimenti passerebbero inosservati.
+ */
+export const validateConfig = (
+  environment: string,
+  raw: DeepPartial<EnvironmentConfig>,
+  schema: Record<string, ConfigFieldSchema> = environmentConfigSchema
+): { config: EnvironmentConfig; issues: ConfigValidationIssue[] } => {
+  const issues: ConfigValidationIssue[] = [];
+  const config: Record<string, unknown> = {};
+
+  Object.entries(schema).forEach(([path, field]) => {
+    let value = getAtPath(raw, path);
+
+    if (value === undefined) {
+      if (field.default !== undefined) {
+        value = field.default;
+      } else if (field.required) {
+        issues.push({ environment, path, message: 'chiave obbligatoria mancante' });
+        return;
+      } else {
+        return;
+      }
+    }
+
+    const problem = checkFieldValue(field, value);
+    if (problem) {
+      issues.push({ environment, path, message: problem });
+      return;
+    }
+
+    setAtPath(config, path, value);
+  });
+
+  collectUnknownKeys(raw, schema).forEach(path => {
+    issues.push({ environment, path, message: 'chiave non prevista dallo schema' });
+  });
+
+  return { config: config as unknown as EnvironmentConfig, issues };
+};
+
+/**
+ * Valida solo le chiavi presenti: usata per gli override (es. config a runtime)
+ * che si fondono sopra una configurazione già completa.
+ */
+export const validatePartialConfig = (
+  environment: string,
+  raw: DeepPartial<EnvironmentConfig>,
+  schema: Record<string, ConfigFieldSchema> = environmentConfigSchema
+): ConfigValidationIssue[] => {
+  const issues: ConfigValidationIssue[] = [];
+
+  Object.entries(schema).forEach(([path, field]) => {
+    const value = getAtPath(raw, path);
+    if (value === undefined) return;
+
+    const problem = checkFieldValue(field, value);
+    if (problem) {
+      issues.push({ environment, path, message: problem });
+    }
+  });
+
+  collectUnknownKeys(raw, schema).forEach(path => {
+    issues.push({ environment, path, message: 'chiave non prevista dallo schema' });
+  });
+
+  return issues;
+};
+
+const collectUnknownKeys = (
+  raw: unknown,
+  schema: Record<string, ConfigFieldSchema>,
+  prefix = ''
+): string[] => {
+  if (raw === null || typeof raw !== 'object') return [];
+
+  return Object.entries(raw as Record<string, unknown>).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (path in schema) return [];
+
+    const hasNestedFields = Object.keys(schema).some(known => known.startsWith(`${path}.`));
+    if (hasNestedFields && value !== null && typeof value === 'object') {
+      return collectUnknownKeys(value, schema, path);
+    }
+    return [path];
+  });
+};
+
+/**
+ * Valida tutti gli ambienti insieme e lancia un unico errore
+ * con TUTTI i problemi trovati, così si correggono in un solo passaggio.
+ */
+export const createConfigRegistry = <K extends string>(
+  rawConfigs: Record<K, DeepPartial<EnvironmentConfig>>,
+  schema: Record<string, ConfigFieldSchema> = environmentConfigSchema
+): Record<K, EnvironmentConfig> => {
+  const registry = {} as Record<K, EnvironmentConfig>;
+  const issues: ConfigValidationIssue[] = [];
+
+  (Object.keys(rawConfigs) as K[]).forEach(environment => {
+    const result = validateConfig(environment, rawConfigs[environment], schema);
+    issues.push(...result.issues);
+
+    if (result.config.name !== undefined && result.config.name !== environment) {
+      issues.push({
+        environment,
+        path: 'name',
+        message: `il nome "${result.config.name}" non corrisponde alla chiave del registro`,
+      });
+    }
+
+    registry[environment] = result.config;
+  });
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+
+  return registry;
+};
@@ -0,0 +1,96 @@
+/**
+ * 🔗 STATO DELLA SIMULAZIONE - URL e localStorage
+ *
+ * Ambiente simulato, esperimento selezionato e filtri attivi vivono
+ * nei query param, così un link come /logs?env=production&level=error
+ * riproduce esattamente la stessa vista.
+ *
+ * L'ultimo stato viene anche salvato in localStorage: ricaricando
+ * la pagina (o aprendola senza parametri) si riparte da dove si era.
+ * Il parametro nell'URL vince sempre su quello salvato.
+ */
+
+import { isKnownEnvironment } from './environments';
+
+export const SIMULATION_STORAGE_KEY = 'environment-manager:simulation';
+
+export const SIMULATION_PARAMS = ['env', 'experiment', 'level', 'category'] as const;
+
+export type SimulationParam = (typeof SIMULATION_PARAMS)[number];
+
+export type SimulationState = Partial<Record<SimulationParam, string>>;
+
+const isSimulationParam = (key: string): key is SimulationParam => {
+  return (SIMULATION_PARAMS as readonly string[]).includes(key);
+};
+
+/**
+ * Estrae i parametri noti da un oggetto qualsiasi, scartando ambienti non registrati
+ */
+const pickSimulationState = (entries: Iterable<[string, unknown]>): SimulationState => {
+  const state: SimulationState = {};
+  for (const [key, value] of entries) {
+    if (!isSimulationParam(key) || typeof value !== 'string' || value === '') continue;
+    if (key === 'env' && !isKnownEnvironment(value)) continue;
+    state[key] = value;
+  }
+  return state;
+};
+
+export const readSimulationState = (search: string | URLSearchParams): SimulationState => {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  return pickSimulationState(params.entries());
+};
+
+/**
+ * Ritorna nuovi query param con lo stato aggiornato.
+ * I valori undefined rimuovono il parametro; gli altri parametri restano intatti.
+ */
+export const writeSimulationState = (search: string | URLSearchParams, state: SimulationState): URLSearchParams => {
+  const params = new URLSearchParams(search);
+  Object.entries(state).forEach(([key, value]) => {
+    if (value === undefined || value === '') {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+  });
+  return params;
+};
+
+export const clearSimulationParams = (search: string | URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(search);
+  SIMULATION_PARAMS.forEach(key => params.delete(key));
+  return params;
+};
+
+export const loadSimulationState = (
+  storage: Pick<Storage, 'getItem'> | undefined = globalThis.localStorage
+): SimulationState => {
+  try {
+    const parsed: unknown = JSON.parse(storage?.getItem(SIMULATION_STORAGE_KEY) ?? '{}');
+    return parsed !== null && typeof parsed === 'object' ? pickSimulationState(Object.entries(parsed)) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Aggiorna lo stato salvato (merge con quello esistente)
+ */
+export const saveSimulationState = (
+  state: SimulationState,
+  storage: Pick<Storage, 'getItem' | 'setItem'> | undefined = globalThis.localStorage
+): void => {
+  const merged = { ...loadSimulationState(storage), ...state };
+  Object.keys(merged).forEach(key => {
+    if (merged[key as SimulationParam] === undefined) delete merged[key as SimulationParam];
+  });
+  storage?.setItem(SIMULATION_STORAGE_KEY, JSON.stringify(merged));
+};
+
+export const clearSimulationState = (
+  storage: Pick<Storage, 'removeItem'> | undefined = globalThis.localStorage
+): void => {
+  storage?.removeItem(SIMULATION_STORAGE_KEY);
+};
@@ -0,0 +1,268 @@
+/**
+ * 🎯 TARGETING DEI FEATURE FLAG
+ *
+ * Oltre all'interruttore per ambiente e al rollout percentuale, un flag
+ * può avere delle REGOLE valutate in ordine sugli attributi dell'utente:
+ *
+ *   1. se l'email è @example.com              → attivo
+ *   2. se la versione dell'app è < 2.0.0      → disattivo
+ *   3. se il piano è enterprise               → attivo
+ *   altrimenti                                → rollout / default
+ *
+ * Vince la prima regola che corrisponde. Le condizioni usate da più flag
+ * (es. "beta tester", "clienti UE") si definiscono una volta sola come
+ * SEGMENTI e le regole li richiamano per id.
+ *
+ * Un attributo mancante non soddisfa nessuna condizione, nemmeno "not-in":
+ * così un utente anonimo non entra in una regola per esclusione.
+ */
+
+export interface ContextAttributes {
+  country?: string;          // ISO 3166-1, es. 'IT'
+  plan?: string;             // 'free' | 'pro' | 'enterprise'...
+  email?: string;
+  appVersion?: string;       // semver, es. '2.3.1'
+  betaTester?: boolean;
+  signupDate?: string;       // ISO 8601
+  [attribute: string]: string | number | boolean | undefined;
+}
+
+export type TargetingOperator = 'in' | 'not-in' | 'semver-gte' | 'semver-lt' | 'matches' | 'before' | 'after';
+
+export interface TargetingCondition {
+  attribute: string;         // Un attributo del contesto, oppure emailDomain / now (derivati)
+  operator: TargetingOperator;
+  values: string[];          // Lista per in / not-in, un solo valore per gli altri operatori
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string;
+  conditions: TargetingCondition[];   // Tutte devono essere vere
+}
+
+export interface TargetingRule {
+  id: string;
+  description?: string;
+  segments?: string[];                // Tutti i segmenti devono corrispondere...
+  conditions?: TargetingCondition[];  // ...e tutte le condizioni
+  serve: boolean;
+}
+
+export interface TargetingInput {
+  attributes?: ContextAttributes;
+  now?: Date;
+}
+
+export const attributeLabels: Record<string, string> = {
+  country: 'paese',
+  plan: 'piano',
+  email: 'email',
+  emailDomain: 'dominio email',
+  appVersion: 'versione app',
+  betaTester: 'beta tester',
+  signupDate: 'data di iscrizione',
+  now: 'la data di oggi',
+};
+
+export const operatorLabels: Record<TargetingOperator, string> = {
+  in: 'è uno tra',
+  'not-in': 'non è uno tra',
+  'semver-gte': '≥',
+  'semver-lt': '<',
+  matches: 'corrisponde a',
+  before: 'prima del',
+  after: 'dopo il',
+};
+
+/**
+ * Segmenti riutilizzabili, richiamati dalle regole dei flag
+ */
+export const segments: Segment[] = [
+  {
+    id: 'internal_staff',
+    name: 'Dipendenti',
+    description: 'Chi accede con un indirizzo aziendale',
+    conditions: [{ attribute: 'emailDomain', operator: 'in', values: ['example.com'] }],
+  },
+  {
+    id: 'beta_testers',
+    name: 'Beta tester',
+    description: 'Utenti iscritti al programma beta',
+    conditions: [{ attribute: 'betaTester', operator: 'in', values: ['true'] }],
+  },
+  {
+    id: 'eu_customers',
+    name: 'Clienti UE',
+    description: 'Utenti con paese nell\'Unione Europea (per i rilasci legati al GDPR)',
+    conditions: [{ attribute: 'country', operator: 'in', values: ['IT', 'FR', 'DE', 'ES', 'NL', 'BE', 'AT', 'PT', 'IE'] }],
+  },
+];
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Confronta due versioni semver: negativo, zero o positivo come sort().
+ * Una prerelease viene prima della release (2.0.0-beta < 2.0.0). null se non valide.
+ */
+export const compareSemver = (a: string, b: string): number | null => {
+  const left = SEMVER_PATTERN.exec(a.trim());
+  const right = SEMVER_PATTERN.exec(b.trim());
+  if (!left || !right) return null;
+
+  for (let index = 1; index <= 3; index++) {
+    const difference = Number(left[index]) - Number(right[index]);
+    if (difference !== 0) return difference;
+  }
+  if (left[4] === right[4]) return 0;
+  if (left[4] === undefined) return 1;
+  if (right[4] === undefined) return -1;
+  return left[4].localeCompare(right[4], undefined, { numeric: true });
+};
+
+// Regex delle condizioni "matches", compilate una volta sola (in validazione o al primo uso)
+const compiledPatterns = new Map<string, RegExp>();
+
+const compilePattern = (pattern: string): RegExp => {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+};
+
+const parseDate = (value: string): number | null => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Valore di un attributo, compresi quelli derivati (emailDomain, now)
+ */
+const attributeValue = (attribute: string, { attributes = {}, now = new Date() }: TargetingInput): string | undefined => {
+  if (attribute === 'now') return now.toISOString();
+  if (attribute === 'emailDomain') {
+    const domain = attributes.email?.split('@')[1];
+    return domain ? domain.toLowerCase() : undefined;
+  }
+  const value = attributes[attribute];
+  return value === undefined ? undefined : String(value);
+};
+
+export const matchesCondition = (condition: TargetingCondition, input: TargetingInput): boolean => {
+  const actual = attributeValue(condition.attribute, input);
+  if (actual === undefined) return false;
+
+  const [expected = ''] = condition.values;
+  switch (condition.operator) {
+    case 'in':
+      return condition.values.includes(actual);
+    case 'not-in':
+      return !condition.values.includes(actual);
+    case 'semver-gte': {
+      const comparison = compareSemver(actual, expected);
+      return comparison !== null && comparison >= 0;
+    }
+    case 'semver-lt': {
+      const comparison = compareSemver(actual, expected);
+      return comparison !== null && comparison < 0;
+    }
+    case 'matches':
+      return compilePattern(expected).test(actual);
+    case 'before':
+    case 'after': {
+      const actualTime = parseDate(actual);
+      const expectedTime = parseDate(expected);
+      if (actualTime === null || expectedTime === null) return false;
+      return condition.operator === 'before' ? actualTime < expectedTime : actualTime > expectedTime;
+    }
+  }
+};
+
+export const matchesSegment = (segment: Segment, input: TargetingInput): boolean =>
+  segment.conditions.every(condition => matchesCondition(condition, input));
+
+/**
+ * Prima regola che corrisponde al contesto, o undefined
+ */
+export const findMatchingRule = (
+  rules: TargetingRule[],
+  input: TargetingInput,
+  segmentRegistry: Segment[] = segments
+): TargetingRule | undefined =>
+  rules.find(rule =>
+    (rule.segments ?? []).every(id => {
+      const segment = segmentRegistry.find(item => item.id === id);
+      return segment !== undefined && matchesSegment(segment, input);
+    }) &&
+    (rule.conditions ?? []).every(condition => matchesCondition(condition, input))
+  );
+
+const checkCondition = (condition: TargetingCondition, where: string): string[] => {
+  const [value] = condition.values;
+  if (value === undefined) return [`${where}: nessun valore per "${condition.attribute}"`];
+  if (condition.operator === 'matches') {
+    try {
+      compilePattern(value);
+    } catch {
+      return [`${where}: regex non valida /${value}/`];
+    }
+  }
+  if ((condition.operator === 'semver-gte' || condition.operator === 'semver-lt') && compareSemver(value, value) === null) {
+    return [`${where}: "${value}" non è una versione semver`];
+  }
+  if ((condition.operator === 'before' || condition.operator === 'after') && parseDate(value) === null) {
+    return [`${where}: "${value}" non è una data`];
+  }
+  return [];
+};
+
+/**
+ * Controlla le regole di un flag: segmenti inesistenti, regex non valide,
+ * versioni e date non interpretabili, anche dentro i segmenti richiamati.
+ * Ritorna i problemi trovati.
+ */
+export const validateTargetingRules = (
+  flagId: string,
+  rules: TargetingRule[],
+  segmentRegistry: Segment[] = segments
+): string[] => {
+  // Ogni segmento richiamato si controlla una volta, anche se lo usano più regole
+  const referenced = [...new Set(rules.flatMap(rule => rule.segments ?? []))]
+    .map(id => segmentRegistry.find(segment => segment.id === id))
+    .filter((segment): segment is Segment => segment !== undefined);
+
+  return [
+    ...rules.flatMap(rule => [
+      ...(rule.segments ?? [])
+        .filter(id => !segmentRegistry.some(segment => segment.id === id))
+        .map(id => `${flagId}/${rule.id}: segmento "${id}" inesistente`),
+      ...(rule.conditions ?? []).flatMap(condition => checkCondition(condition, `${flagId}/${rule.id}`)),
+    ]),
+    ...referenced.flatMap(segment =>
+      segment.conditions.flatMap(condition => checkCondition(condition, `${flagId}/segmento ${segment.id}`))
+    ),
+  ];
+};
+
+export const describeCondition = (condition: TargetingCondition): string => {
+  const attribute = attributeLabels[condition.attribute] ?? condition.attribute;
+  const values = condition.operator === 'matches'
+    ? `/${condition.values[0]}/`
+    : condition.values.join(', ');
+  return `${attribute} ${operatorLabels[condition.operator]} ${values}`;
+};
+
+/**
+ * Regola in forma leggibile, es. "Se segmento «Beta tester» e piano è uno tra pro → attivo"
+ */
+export const describeRule = (rule: TargetingRule, segmentRegistry: Segment[] = segments): string => {
+  const parts = [
+    ...(rule.segments ?? []).map(id => `segmento «${segmentRegistry.find(segment => segment.id === id)?.name ?? id}»`),
+    ...(rule.conditions ?? []).map(describeCondition),
+  ];
+  const condition = parts.length > 0 ? `Se ${parts.join(' e ')}` : 'Sempre';
+  return `${condition} → ${rule.serve ? 'attivo' : 'disattivo'}`;
+};
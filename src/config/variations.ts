@@ -0,0 +1,81 @@
+/**
+ * 🎛️ FLAG MULTIVARIATI
+ *
+ * Un flag booleano risponde solo sì o no. Un flag multivariato serve invece
+ * uno tra più VALORI tipizzati (stringa, numero, oggetto JSON):
+ *
+ *   checkout_button_copy:  control  → { label: 'Procedi al pagamento', ... }
+ *                          urgency  → { label: 'Completa l'ordine ora', ... }
+ *
+ * Per ogni ambiente si indica la variante di default e, se serve, una
+ * distribuzione pesata (es. 50% control, 50% urgency) decisa dal bucket
+ * dell'utente come per il rollout.
+ *
+ * Ogni payload è validato con uno schema zod al caricamento: un'etichetta
+ * troppo lunga o un tono inesistente bloccano l'app in sviluppo invece di
+ * arrivare fino al checkout.
+ */
+
+import type { ZodType } from 'zod';
+import type { Environment } from './environment';
+import { BUCKET_COUNT } from './bucketing';
+
+export interface FlagVariations<T = unknown> {
+  schema: ZodType<T>;
+  values: Record<string, T>;                                            // id variante → payload
+  defaults: Partial<Record<Environment, string>>;                       // Variante servita nell'ambiente
+  distribution?: Partial<Record<Environment, Record<string, number>>>;  // id variante → peso in %, somma 100
+}
+
+/**
+ * Dichiara le varianti di un flag: il tipo dei valori viene dedotto dallo
+ * schema, così un payload sbagliato è un errore già in compilazione.
+ */
+export const defineVariations = <T>(variations: FlagVariations<T>): FlagVariations =>
+  variations as FlagVariations;
+
+/**
+ * Variante che tocca a un bucket, scorrendo i pesi nell'ordine in cui sono scritti.
+ * Con { a: 30, b: 70 } i bucket da 0 a 2999 vanno ad a, gli altri a b.
+ */
+export const pickWeightedVariation = (bucket: number, weights: Record<string, number>): string | undefined => {
+  let threshold = 0;
+  for (const [variation, weight] of Object.entries(weights)) {
+    threshold += weight * (BUCKET_COUNT / 100);
+    if (bucket < Math.round(threshold)) return variation;
+  }
+  return undefined;
+};
+
+/**
+ * Controlla payload, default e distribuzioni di un flag. Ritorna i problemi trovati.
+ */
+export const validateVariations = (flagId: string, variations: FlagVariations): string[] => {
+  const ids = Object.keys(variations.values);
+  if (ids.length === 0) return [`${flagId}: nessuna variante definita`];
+
+  const unknownVariation = (variation: string, where: string) =>
+    ids.includes(variation) ? [] : [`${flagId}: variante "${variation}" inesistente (${where})`];
+
+  return [
+    ...Object.entries(variations.values).flatMap(([variation, value]) => {
+      const result = variations.schema.safeParse(value);
+      return result.success
+        ? []
+        : result.error.issues.map(issue => `${flagId}/${variation}: ${issue.path.join('.') || 'valore'} - ${issue.message}`);
+    }),
+    ...Object.entries(variations.defaults).flatMap(([environment, variation]) =>
+      unknownVariation(variation ?? '', `default di ${environment}`)
+    ),
+    ...Object.entries(variations.distribution ?? {}).flatMap(([environment, weights = {}]) => {
+      const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+      return [
+        ...Object.keys(weights).flatMap(variation => unknownVariation(variation, `distribuzione di ${environment}`)),
+        ...Object.entries(weights)
+          .filter(([, weight]) => weight < 0)
+          .map(([variation]) => `${flagId}: peso negativo per "${variation}" in ${environment}`),
+        ...(Math.abs(total - 100) > 1e-9 ? [`${flagId}: i pesi di ${environment} sommano a ${total}, non a 100`] : []),
+      ];
+    }),
+  ];
+};
@@ -6,85 +6,295 @@
  * 
  * In un'app reale, l'ambiente viene determinato dalle variabili
  * d'ambiente al momento del build, non può essere cambiato runtime.
+ * L'unica eccezione è la configurazione a runtime (vedi runtimeConfig.ts):
+ * se attiva, il provider la carica prima di mostrare l'app.
+ *
+ * Quali valori un build ha effettivamente fissato, e in quali file,
+ * lo dice il manifest generato da `vite build` (vedi config/envManifest.ts).
  */
 
-import React, { createContext, useContext, useState, useCallback } from 'react';
-import type { Environment } from '@/config/environment';
-
-interface EnvironmentConfig {
-  name: Environment;
-  displayName: string;
-  apiUrl: string;
-  debugMode: boolean;
-  logLevel: 'debug' | 'info' | 'warn' | 'error';
-  features: {
-    analytics: boolean;
-    errorReporting: boolean;
-    experimentalFeatures: boolean;
-  };
-}
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import {
+  configs,
+  configProvenance,
+  resolvedLayers,
+  type Environment,
+  type EnvironmentConfig,
+} from '@/config/environment';
+import { isKnownEnvironment, registerEnvironment, type EnvironmentDefinition } from '@/config/environments';
+import { useSearchParams } from 'react-router-dom';
+import { flattenValues } from '@/config/layers';
+import {
+  createChange,
+  createRestore,
+  createRevert,
+  loadConfigHistory,
+  replayHistory,
+  saveConfigHistory,
+  EDITED_LAYER,
+  type ChangeRequest,
+  type ConfigChange,
+  type ConfigRegistry,
+} from '@/config/configHistory';
+import {
+  isRuntimeConfigEnabled,
+  loadRuntimeConfig,
+  mergeRuntimeConfig,
+  type LoadedRuntimeConfig,
+  type RuntimeConfigStatus,
+} from '@/config/runtimeConfig';
+import {
+  clearSimulationParams,
+  clearSimulationState,
+  loadSimulationState,
+  readSimulationState,
+  saveSimulationState,
+  writeSimulationState,
+} from '@/config/simulationState';
+import {
+  loadImportedEnvironments,
+  saveImportedEnvironments,
+  type ImportedEnvironment,
+} from '@/config/configImport';
+import { ConfigValidationError, validateConfig } from '@/config/schema';
+import {
+  getResolvedEnvironment,
+  setRuntimeEnvironment,
+  setSimulatedEnvironment,
+  subscribeToEnvironment,
+  type EnvironmentSource,
+} from '@/config/environmentResolution';
+import { resolveConfigSecrets, validateSecretReferences } from '@/config/secrets';
 
-const configs: Record<Environment, EnvironmentConfig> = {
-  development: {
-    name: 'development',
-    displayName: 'Development',
-    apiUrl: 'http://localhost:3000/api',
-    debugMode: true,
-    logLevel: 'debug',
-    features: {
-      analytics: false,
-      errorReporting: false,
-      experimentalFeatures: true,
-    },
-  },
-  staging: {
-    name: 'staging',
-    displayName: 'Staging',
-    apiUrl: 'https://staging-api.example.com',
-    debugMode: true,
-    logLevel: 'info',
-    features: {
-      analytics: true,
-      errorReporting: true,
-      experimentalFeatures: true,
-    },
-  },
-  production: {
-    name: 'production',
-    displayName: 'Production',
-    apiUrl: 'https://api.example.com',
-    debugMode: false,
-    logLevel: 'error',
-    features: {
-      analytics: true,
-      errorReporting: true,
-      experimentalFeatures: false,
-    },
-  },
-};
+interface RuntimeConfigState {
+  status: RuntimeConfigStatus;
+  error: Error | null;
+  loaded: LoadedRuntimeConfig | null;
+}
 
 interface EnvironmentContextType {
-  currentEnvironment: Environment;
-  config: EnvironmentConfig;
+  currentEnvironment: Environment;     // Simulato, se c'è, altrimenti quello effettivo (vedi environmentResolution.ts)
+  buildEnvironment: Environment;       // Quello fissato dal build, da mostrare quando è diverso
+  environmentSource: EnvironmentSource;
+  config: EnvironmentConfig;           // Con i riferimenti ${secret:...} già risolti
+  rawConfig: EnvironmentConfig;        // Come salvata, con i riferimenti ancora da risolvere
+  provenance: Record<string, string>;  // percorso → livello da cui arriva il valore
+  layerChain: string[];                // es. ['base', 'staging', 'production']
   setEnvironment: (env: Environment) => void;
   isSimulated: boolean;
+  resetSimulation: () => void;          // Dimentica ambiente simulato, esperimento e filtri
+  runtimeConfig: RuntimeConfigState;
+  configs: ConfigRegistry;             // Tutti gli ambienti, con le modifiche fatte dalla UI
+  configHistory: ConfigChange[];
+  updateConfigValue: (request: Omit<ChangeRequest, 'now'>) => void;
+  updateConfigValues: (requests: Omit<ChangeRequest, 'now'>[]) => void;   // Più modifiche in un colpo solo
+  revertConfigChange: (changeId: string, author: string, reason?: string) => void;
+  restoreConfigSnapshot: (changeId: string, author: string, reason?: string) => void;
+  importEnvironment: (definition: EnvironmentDefinition, config: EnvironmentConfig) => void;
 }
 
 const EnvironmentContext = createContext<EnvironmentContextType | null>(null);
 
-export const EnvironmentProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [currentEnvironment, setCurrentEnvironment] = useState<Environment>('development');
-  const [isSimulated, setIsSimulated] = useState(false);
+// Stato iniziale, preparato una volta al caricamento del modulo e non durante il
+// render (che React può ripetere, e in StrictMode ripete sempre).
+// Gli ambienti importati vanno registrati prima di leggere ?env= dall'URL.
+loadImportedEnvironments().forEach(({ definition }) => {
+  if (isKnownEnvironment(definition.id)) return;  // Già registrato (es. modulo ricaricato da HMR)
+  try {
+    registerEnvironment(definition);
+  } catch {
+    // Definizione non valida: resta fuori dal registro, e quindi anche dallo stato
+  }
+});
+
+// L'ambiente simulato arriva dall'URL (?env=) o, in mancanza, dall'ultima sessione
+setSimulatedEnvironment(
+  readSimulationState(globalThis.location?.search ?? '').env ?? loadSimulationState().env
+);
+
+interface EnvironmentProviderProps {
+  children: React.ReactNode;
+  runtimeConfigUrl?: string;     // es. '/config.json'; senza URL si usa solo window.__ENV__
+  fallback?: React.ReactNode;    // Mostrato mentre la configurazione a runtime è in caricamento
+}
+
+export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({ children, runtimeConfigUrl, fallback = null }) => {
+  // Ambienti creati con l'import: solo quelli che il registro ha accettato
+  const [importedEnvironments, setImportedEnvironments] = useState<ImportedEnvironment[]>(() =>
+    loadImportedEnvironments().filter(({ definition }) => isKnownEnvironment(definition.id))
+  );
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlEnvironment = readSimulationState(searchParams).env;
+  const resolution = useSyncExternalStore(subscribeToEnvironment, getResolvedEnvironment);
+  const { current: currentEnvironment, isSimulated } = resolution;
+  const [runtimeConfig, setRuntimeConfig] = useState<RuntimeConfigState>(() => ({
+    status: isRuntimeConfigEnabled(runtimeConfigUrl) ? 'loading' : 'disabled',
+    error: null,
+    loaded: null,
+  }));
+
+  useEffect(() => {
+    if (!isRuntimeConfigEnabled(runtimeConfigUrl)) return;
+
+    let cancelled = false;
+    setRuntimeConfig({ status: 'loading', error: null, loaded: null });
+
+    loadRuntimeConfig({ url: runtimeConfigUrl })
+      .then(loaded => {
+        if (cancelled) return;
+        setRuntimeConfig({ status: 'ready', error: null, loaded });
+        // Una simulazione ripresa dall'URL o dalla sessione precedente mantiene comunque la precedenza
+        setRuntimeEnvironment(loaded.environment);
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        // In caso di errore restano validi i default di build
+        setRuntimeConfig({ status: 'error', error, loaded: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runtimeConfigUrl]);
 
   const setEnvironment = useCallback((env: Environment) => {
-    setCurrentEnvironment(env);
-    setIsSimulated(true);
+    setSimulatedEnvironment(env);
+    saveSimulationState({ env });
+    setSearchParams(prev => writeSimulationState(prev, { env }), { replace: true });
+  }, [setSearchParams]);
+
+  // Link aperto (o navigazione) verso un URL con ?env=: l'ambiente diventa quello
+  // simulato e l'ultimo salvato, anche se al caricamento era già stato letto dall'URL
+  useEffect(() => {
+    if (!urlEnvironment) return;
+    if (urlEnvironment !== currentEnvironment) {
+      setSimulatedEnvironment(urlEnvironment);
+    }
+    if (loadSimulationState().env !== urlEnvironment) {
+      saveSimulationState({ env: urlEnvironment });
+    }
+  }, [urlEnvironment, currentEnvironment]);
+
+  // Cambiando pagina il parametro si perde: lo rimettiamo, così ogni URL resta condivisibile
+  useEffect(() => {
+    if (isSimulated && !urlEnvironment) {
+      setSearchParams(prev => writeSimulationState(prev, { env: currentEnvironment }), { replace: true });
+    }
+  }, [isSimulated, urlEnvironment, currentEnvironment, setSearchParams]);
+
+  const resetSimulation = useCallback(() => {
+    clearSimulationState();
+    setSearchParams(prev => clearSimulationParams(prev), { replace: true });
+    setSimulatedEnvironment(undefined);
+  }, [setSearchParams]);
+
+  // Storico delle modifiche: persistito in localStorage e riapplicato sopra i valori di build
+  const [configHistory, setConfigHistory] = useState<ConfigChange[]>(() => loadConfigHistory());
+  const baseConfigs = useMemo(
+    () => ({
+      ...configs,
+      ...Object.fromEntries(importedEnvironments.map(({ definition, config }) => [definition.id, config])),
+    }),
+    [importedEnvironments]
+  );
+  const editedConfigs = useMemo(() => replayHistory(baseConfigs, configHistory), [baseConfigs, configHistory]);
+
+  useEffect(() => {
+    saveConfigHistory(configHistory);
+  }, [configHistory]);
+
+  useEffect(() => {
+    saveImportedEnvironments(importedEnvironments);
+  }, [importedEnvironments]);
+
+  // Le validazioni lanciano eccezioni: chi chiama mostra l'errore all'utente.
+  // Se una modifica del gruppo non è valida non ne viene applicata nessuna.
+  const updateConfigValues = useCallback((requests: Omit<ChangeRequest, 'now'>[]) => {
+    let history = configHistory;
+    requests.forEach(request => {
+      const change = createChange(replayHistory(baseConfigs, history), history, request);
+      if (change) history = [...history, change];
+    });
+    if (history !== configHistory) setConfigHistory(history);
+  }, [baseConfigs, configHistory]);
+
+  const updateConfigValue = useCallback((request: Omit<ChangeRequest, 'now'>) => {
+    updateConfigValues([request]);
+  }, [updateConfigValues]);
+
+  const revertConfigChange = useCallback((changeId: string, author: string, reason?: string) => {
+    const change = createRevert(editedConfigs, configHistory, changeId, author, reason);
+    if (change) setConfigHistory([...configHistory, change]);
+  }, [editedConfigs, configHistory]);
+
+  const restoreConfigSnapshot = useCallback((changeId: string, author: string, reason?: string) => {
+    const changes = createRestore(baseConfigs, configHistory, changeId, author, reason);
+    if (changes.length > 0) setConfigHistory([...configHistory, ...changes]);
+  }, [baseConfigs, configHistory]);
+
+  const importEnvironment = useCallback((definition: EnvironmentDefinition, config: EnvironmentConfig) => {
+    const issues = [...validateConfig(definition.id, config).issues, ...validateSecretReferences(definition.id, config)];
+    if (issues.length > 0) {
+      throw new ConfigValidationError(issues);
+    }
+    registerEnvironment(definition);
+    setImportedEnvironments(prev => [...prev, { definition, config }]);
   }, []);
 
-  const config = configs[currentEnvironment];
+  // Gli override a runtime valgono solo per l'ambiente a cui sono destinati
+  const runtimeOverride = runtimeConfig.loaded?.environment === currentEnvironment ? runtimeConfig.loaded : null;
+  const editedConfig = editedConfigs[currentEnvironment];
+  const rawConfig = runtimeOverride ? mergeRuntimeConfig(editedConfig, runtimeOverride.overrides) : editedConfig;
+  const config = resolveConfigSecrets(rawConfig, currentEnvironment);
+
+  // Provenienza: livello di build, poi modifiche dalla UI, poi sorgente a runtime
+  const buildValues = flattenValues(baseConfigs[currentEnvironment]);
+  const editedValues = flattenValues(editedConfig);
+  const provenance = {
+    // Gli ambienti importati non hanno livelli: ogni valore è dell'ambiente stesso
+    ...(configProvenance[currentEnvironment] ??
+      Object.fromEntries(Object.keys(buildValues).map(path => [path, currentEnvironment]))),
+    ...Object.fromEntries(
+      Object.keys(editedValues)
+        .filter(path => !Object.is(editedValues[path], buildValues[path]))
+        .map(path => [path, EDITED_LAYER])
+    ),
+    ...(runtimeOverride
+      ? Object.fromEntries(
+          Object.keys(flattenValues(runtimeOverride.overrides)).map(path => [path, runtimeOverride.source])
+        )
+      : {}),
+  };
+  const layerChain = resolvedLayers[currentEnvironment]?.chain ?? [currentEnvironment];
+
+  if (runtimeConfig.status === 'loading') {
+    return <>{fallback}</>;
+  }
 
   return (
-    <EnvironmentContext.Provider value={{ currentEnvironment, config, setEnvironment, isSimulated }}>
+    <EnvironmentContext.Provider
+      value={{
+        currentEnvironment,
+        buildEnvironment: resolution.build,
+        environmentSource: resolution.source,
+        config,
+        rawConfig,
+        provenance,
+        layerChain,
+        setEnvironment,
+        isSimulated,
+        resetSimulation,
+        runtimeConfig,
+        configs: editedConfigs,
+        configHistory,
+        updateConfigValue,
+        updateConfigValues,
+        revertConfigChange,
+        restoreConfigSnapshot,
+        importEnvironment,
+      }}
+    >
       {children}
     </EnvironmentContext.Provider>
   );
@@ -0,0 +1,87 @@
+/**
+ * 🚩 FEATURE FLAG CONTEXT - Flag nei componenti React
+ *
+ * FeatureFlagProvider (vedi FeatureFlagProvider.tsx) porta a tutto
+ * l'albero il contesto di valutazione: utente, attributi, ambiente attivo.
+ * I componenti leggono i flag con gli hook di questo file:
+ *
+ *   const showDashboard = useFeatureFlag('new_dashboard');
+ *   const pageSize = useFlagValue('search_page_size', 20);
+ *
+ * oppure con <Feature flag="export_pdf" fallback={...}> (vedi components/Feature.tsx).
+ *
+ * Il provider si ridisegna quando cambia l'ambiente, il contesto o scatta
+ * un'azione programmata: i componenti ricalcolano i flag da soli.
+ * Nei test, FeatureFlagTestProvider (src/test) forza i valori.
+ */
+
+import { createContext, useContext, useEffect, useRef } from 'react';
+import { evaluateFeatureFlag, evaluateFlagValue, recordEvaluation, type EvaluationContext } from '@/config/featureFlags';
+import type { Environment } from '@/config/environment';
+
+export interface FeatureFlagContextType {
+  environment: Environment;
+  context: EvaluationContext;                 // Con l'ambiente già risolto
+  forcedValues: Record<string, unknown>;      // false spegne, un payload vale per useFlagValue, il resto accende
+  isolated: boolean;                          // true → i flag non forzati sono spenti (test)
+  revision: number;                           // Cresce a ogni azione programmata o scadenza
+  updateContext: (patch: Partial<EvaluationContext>) => void;
+}
+
+export const FeatureFlagContext = createContext<FeatureFlagContextType | null>(null);
+
+export const useFeatureFlagContext = () => {
+  const context = useContext(FeatureFlagContext);
+  if (!context) {
+    throw new Error('useFeatureFlagContext must be used within FeatureFlagProvider');
+  }
+  return context;
+};
+
+/**
+ * Il render deve restare puro: StrictMode e i render concorrenti lo ripetono
+ * e conterebbero la stessa valutazione più volte nelle statistiche di igiene.
+ * La registriamo dopo il commit, una volta per flag, contesto e ambiente.
+ * Il ref copre anche il doppio mount simulato di StrictMode, che riesegue l'effetto.
+ */
+const useRecordEvaluation = (flagId: string, { context, environment }: FeatureFlagContextType, evaluated: boolean) => {
+  const recorded = useRef<readonly unknown[]>();
+
+  useEffect(() => {
+    if (!evaluated) return;
+    const key = [flagId, context, environment];
+    if (recorded.current?.every((value, index) => value === key[index])) return;
+    recorded.current = key;
+    recordEvaluation(flagId);
+  }, [flagId, context, environment, evaluated]);
+};
+
+/**
+ * true se il flag è acceso per l'utente del provider
+ */
+export const useFeatureFlag = (flagId: string): boolean => {
+  const flagContext = useFeatureFlagContext();
+  const { context, forcedValues, isolated } = flagContext;
+  const forced = forcedValues[flagId];
+  const evaluated = forced === undefined && !isolated;
+  useRecordEvaluation(flagId, flagContext, evaluated);
+
+  if (forced !== undefined) return forced !== false;
+  if (isolated) return false;
+  return evaluateFeatureFlag(flagId, context).enabled;
+};
+
+/**
+ * Payload della variante servita all'utente del provider, o `fallback`
+ */
+export const useFlagValue = <T>(flagId: string, fallback: T): T => {
+  const flagContext = useFeatureFlagContext();
+  const { context, forcedValues, isolated } = flagContext;
+  const forced = forcedValues[flagId];
+  const evaluated = forced === undefined && !isolated;
+  useRecordEvaluation(flagId, flagContext, evaluated);
+
+  if (forced !== undefined) return typeof forced === 'boolean' ? fallback : (forced as T);
+  if (isolated) return fallback;
+  return evaluateFlagValue(flagId, fallback, context).value;
+};
@@ -0,0 +1,72 @@
+/**
+ * 🚩 FEATURE FLAG PROVIDER
+ *
+ * Fornisce il contesto di valutazione ai hook di FeatureFlagContext.ts.
+ * Senza `context.environment` segue l'ambiente attivo (vedi
+ * environmentResolution.ts), quindi cambiare ambiente nell'header
+ * ricalcola subito tutti i flag.
+ *
+ * Le azioni programmate e le scadenze cambiano i flag senza che cambi
+ * niente in React: il provider mette un timer sulla prossima e si
+ * ridisegna quando scatta.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { featureFlags, getFlagClock, type EvaluationContext } from '@/config/featureFlags';
+import { nextFlagChange } from '@/config/flagSchedule';
+import { getResolvedEnvironment, subscribeToEnvironment } from '@/config/environmentResolution';
+import { FeatureFlagContext } from './FeatureFlagContext';
+
+// setTimeout non accetta ritardi oltre ~24,8 giorni: oltre si riprova dopo
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const noForcedValues: Record<string, unknown> = {};
+
+interface FeatureFlagProviderProps {
+  children: React.ReactNode;
+  context?: EvaluationContext;
+  forcedValues?: Record<string, unknown>;
+  isolated?: boolean;
+}
+
+export const FeatureFlagProvider: React.FC<FeatureFlagProviderProps> = ({
+  children,
+  context,
+  forcedValues = noForcedValues,
+  isolated = false,
+}) => {
+  const resolution = useSyncExternalStore(subscribeToEnvironment, getResolvedEnvironment);
+  const [patch, setPatch] = useState<Partial<EvaluationContext>>({});
+  const [revision, setRevision] = useState(0);
+
+  const updateContext = useCallback((changes: Partial<EvaluationContext>) => {
+    setPatch(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  useEffect(() => {
+    const now = getFlagClock().now();
+    const next = nextFlagChange(featureFlags, now);
+    if (!next) return;
+
+    const timeout = setTimeout(
+      () => setRevision(prev => prev + 1),
+      Math.min(next.getTime() - now.getTime(), MAX_TIMEOUT_MS)
+    );
+    return () => clearTimeout(timeout);
+  }, [revision]);
+
+  const value = useMemo(() => {
+    const merged = { ...context, ...patch };
+    const environment = merged.environment ?? resolution.current;
+    return {
+      environment,
+      context: { ...merged, environment },
+      forcedValues,
+      isolated,
+      revision,
+      updateContext,
+    };
+  }, [context, patch, resolution, forcedValues, isolated, revision, updateContext]);
+
+  return <FeatureFlagContext.Provider value={value}>{children}</FeatureFlagContext.Provider>;
+};
@@ -0,0 +1,52 @@
+import * as React from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  loadSimulationState,
+  saveSimulationState,
+  writeSimulationState,
+  type SimulationParam,
+} from "@/config/simulationState";
+
+/**
+ * Un pezzo di stato della simulazione (es. filtro dei log) letto dall'URL,
+ * con fallback sull'ultimo valore salvato e poi sul default.
+ * Il valore di default non viene scritto nell'URL per tenere i link corti.
+ */
+export function useSimulationParam<T extends string>(
+  name: SimulationParam,
+  fallback: T,
+  isValid: (value: string) => value is T
+): [T, (value: T) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlValue = searchParams.get(name);
+  const storedValue = loadSimulationState()[name];
+  const candidate = urlValue ?? storedValue;
+  const value = candidate !== undefined && isValid(candidate) ? candidate : fallback;
+
+  // Valore arrivato dall'URL (es. un link condiviso): diventa l'ultimo stato salvato
+  React.useEffect(() => {
+    if (urlValue === null || urlValue !== value) return;
+    const stored = value === fallback ? undefined : value;
+    if (loadSimulationState()[name] !== stored) {
+      saveSimulationState({ [name]: stored });
+    }
+  }, [urlValue, value, fallback, name]);
+
+  // Valore ripreso da localStorage: lo riportiamo nell'URL così il link è condivisibile
+  React.useEffect(() => {
+    if (urlValue === null && value !== fallback) {
+      setSearchParams(prev => writeSimulationState(prev, { [name]: value }), { replace: true });
+    }
+  }, [urlValue, value, fallback, name, setSearchParams]);
+
+  const setValue = React.useCallback(
+    (next: T) => {
+      const stored = next === fallback ? undefined : next;
+      saveSimulationState({ [name]: stored });
+      setSearchParams(prev => writeSimulationState(prev, { [name]: stored }), { replace: true });
+    },
+    [name, fallback, setSearchParams]
+  );
+
+  return [value, setValue];
+}
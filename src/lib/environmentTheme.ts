@@ -0,0 +1,73 @@
+import { Server, Beaker, Rocket, type LucideIcon } from 'lucide-react';
+import type { EnvironmentColor, EnvironmentStage } from '@/config/environments';
+
+/**
+ * Classi Tailwind per ogni colore d'ambiente.
+ *
+ * Le classi sono scritte per esteso (niente `bg-${color}/20`) perché
+ * Tailwind genera solo le classi che trova letteralmente nei sorgenti.
+ */
+export const environmentColorClasses: Record<EnvironmentColor, {
+  text: string;
+  bgSoft: string;
+  bg: string;
+  bgStrong: string;
+  border: string;
+  glow: string;
+  badge: string;
+}> = {
+  primary: {
+    text: 'text-primary',
+    bgSoft: 'bg-primary/10',
+    bg: 'bg-primary/20',
+    bgStrong: 'bg-primary/30',
+    border: 'border-primary/50',
+    glow: 'glow-primary',
+    badge: 'env-primary',
+  },
+  accent: {
+    text: 'text-accent',
+    bgSoft: 'bg-accent/10',
+    bg: 'bg-accent/20',
+    bgStrong: 'bg-accent/30',
+    border: 'border-accent/50',
+    glow: 'glow-accent',
+    badge: 'env-accent',
+  },
+  warning: {
+    text: 'text-warning',
+    bgSoft: 'bg-warning/10',
+    bg: 'bg-warning/20',
+    bgStrong: 'bg-warning/30',
+    border: 'border-warning/50',
+    glow: 'glow-warning',
+    badge: 'env-warning',
+  },
+  success: {
+    text: 'text-success',
+    bgSoft: 'bg-success/10',
+    bg: 'bg-success/20',
+    bgStrong: 'bg-success/30',
+    border: 'border-success/50',
+    glow: 'glow-success',
+    badge: 'env-success',
+  },
+  destructive: {
+    text: 'text-destructive',
+    bgSoft: 'bg-destructive/10',
+    bg: 'bg-destructive/20',
+    bgStrong: 'bg-destructive/30',
+    border: 'border-destructive/50',
+    glow: 'glow-destructive',
+    badge: 'env-destructive',
+  },
+};
+
+/**
+ * Icona rappresentativa per ogni fase del ciclo di vita
+ */
+export const environmentStageIcons: Record<EnvironmentStage, LucideIcon> = {
+  development: Server,
+  'pre-production': Beaker,
+  production: Rocket,
+};
@@ -0,0 +1,17 @@
+import BuildManifestViewer from '@/components/BuildManifestViewer';
+
+const BuildManifestPage = () => {
+  return (
+    <div className="space-y-6 animate-fade-up">
+      <div>
+        <h1 className="text-3xl font-bold gradient-text mb-2">Manifest di Build</h1>
+        <p className="text-muted-foreground">
+          Cosa ha inserito nel bundle un build: valore, file e riga di ogni variabile d'ambiente.
+        </p>
+      </div>
+      <BuildManifestViewer />
+    </div>
+  );
+};
+
+export default BuildManifestPage;
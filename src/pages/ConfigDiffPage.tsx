@@ -0,0 +1,40 @@
+import ConfigDiff from '@/components/ConfigDiff';
+import { GitCompare, ArrowLeft } from 'lucide-react';
+import { Link } from 'react-router-dom';
+
+const ConfigDiffPage = () => {
+  return (
+    <div className="space-y-6">
+      {/* Header animato */}
+      <div className="animate-fade-in">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 rounded-lg bg-primary/20">
+            <GitCompare className="w-6 h-6 text-primary" />
+          </div>
+          <h1 className="text-3xl font-bold gradient-text">Confronto Ambienti</h1>
+        </div>
+        <p className="text-muted-foreground">
+          Affianca due ambienti e scopri quali valori cambiano, quali mancano e quali sono rischiosi.
+        </p>
+      </div>
+
+      {/* Breadcrumb / Navigator */}
+      <div className="flex items-center justify-between animate-fade-in" style={{ animationDelay: '0.1s' }}>
+        <Link 
+          to="/config"
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-primary transition-colors group"
+        >
+          <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+          <span>Configurazione</span>
+        </Link>
+      </div>
+
+      {/* Main content */}
+      <div className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
+        <ConfigDiff />
+      </div>
+    </div>
+  );
+};
+
+export default ConfigDiffPage;
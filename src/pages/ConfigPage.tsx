@@ -1,4 +1,7 @@
 import ConfigExplainer from '@/components/ConfigExplainer';
+import ConfigHistoryPanel from '@/components/ConfigHistoryPanel';
+import ConfigExportPanel from '@/components/ConfigExportPanel';
+import ConfigImportWizard from '@/components/ConfigImportWizard';
 import { Settings, ArrowRight, ArrowLeft } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
@@ -41,12 +44,29 @@ const ConfigPage = () => {
         <ConfigExplainer />
       </div>
 
+      {/* Modifiche e storico */}
+      <div className="animate-fade-in" style={{ animationDelay: '0.25s' }}>
+        <ConfigHistoryPanel />
+      </div>
+
+      {/* Export verso i formati di deploy */}
+      <div className="animate-fade-in" style={{ animationDelay: '0.3s' }}>
+        <ConfigExportPanel />
+      </div>
+
+      {/* Import da file esistenti */}
+      <div className="animate-fade-in" style={{ animationDelay: '0.3s' }}>
+        <ConfigImportWizard />
+      </div>
+
       {/* Suggerimento */}
       <div className="p-4 rounded-xl bg-accent/5 border border-accent/20 animate-fade-in" style={{ animationDelay: '0.3s' }}>
         <p className="text-sm text-muted-foreground">
           💡 <strong className="text-foreground">Prova:</strong> Vai al{' '}
           <Link to="/simulator" className="text-primary hover:underline">Simulatore Ambiente</Link>
-          {' '}e cambia ambiente per vedere come cambiano questi valori!
+          {' '}e cambia ambiente per vedere come cambiano questi valori, oppure{' '}
+          <Link to="/config/diff" className="text-primary hover:underline">confronta due ambienti</Link>
+          {' '}affiancati!
         </p>
       </div>
     </div>
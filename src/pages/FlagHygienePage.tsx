@@ -0,0 +1,17 @@
+import FlagHygieneReport from '@/components/FlagHygieneReport';
+
+const FlagHygienePage = () => {
+  return (
+    <div className="space-y-6 animate-fade-up">
+      <div>
+        <h1 className="text-3xl font-bold gradient-text mb-2">Igiene dei Flag</h1>
+        <p className="text-muted-foreground">
+          Flag scaduti, rilasciati a tutti o mai usati: quelli da togliere dal codice, con file e riga.
+        </p>
+      </div>
+      <FlagHygieneReport />
+    </div>
+  );
+};
+
+export default FlagHygienePage;
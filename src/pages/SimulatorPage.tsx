@@ -1,4 +1,5 @@
 import EnvironmentSimulator from '@/components/EnvironmentSimulator';
+import EnvFilesSimulator from '@/components/EnvFilesSimulator';
 
 const SimulatorPage = () => {
   return (
@@ -10,6 +11,7 @@ const SimulatorPage = () => {
         </p>
       </div>
       <EnvironmentSimulator />
+      <EnvFilesSimulator />
     </div>
   );
 };
@@ -1,5 +1,6 @@
 import WhyNotHardcode from '@/components/WhyNotHardcode';
 import ConfigExplainer from '@/components/ConfigExplainer';
+import ClientExposureChecker from '@/components/ClientExposureChecker';
 
 const WhyNotHardcodePage = () => {
   return (
@@ -11,6 +12,7 @@ const WhyNotHardcodePage = () => {
         </p>
       </div>
       <WhyNotHardcode />
+      <ClientExposureChecker />
       <ConfigExplainer />
     </div>
   );
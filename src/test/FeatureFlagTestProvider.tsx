@@ -0,0 +1,29 @@
+import React from "react";
+import { FeatureFlagProvider } from "@/contexts/FeatureFlagProvider";
+import type { EvaluationContext } from "@/config/featureFlags";
+
+/**
+ * Provider per i test: i flag in `flags` hanno il valore indicato
+ * (true/false, o il payload per useFlagValue), tutti gli altri sono
+ * spenti, così il test non dipende da registro, ambiente o bucket.
+ * Con `isolated={false}` gli altri si valutano normalmente.
+ *
+ *   render(
+ *     <FeatureFlagTestProvider flags={{ new_dashboard: true }}>
+ *       <Dashboard />
+ *     </FeatureFlagTestProvider>
+ *   );
+ */
+
+interface FeatureFlagTestProviderProps {
+  children: React.ReactNode;
+  flags?: Record<string, unknown>;
+  isolated?: boolean;
+  context?: EvaluationContext;
+}
+
+export const FeatureFlagTestProvider = ({ children, flags, isolated = true, context }: FeatureFlagTestProviderProps) => (
+  <FeatureFlagProvider forcedValues={flags} isolated={isolated} context={context}>
+    {children}
+  </FeatureFlagProvider>
+);
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { BUCKET_COUNT, getBucket, hashString, isInRollout } from "@/config/bucketing";
+import { USER_KEY_STORAGE_KEY, getAnonymousUserKey, isFeatureEnabled } from "@/config/featureFlags";
+
+const users = Array.from({ length: 20000 }, (_, index) => `user-${index}`);
+
+describe("getBucket", () => {
+  it("is stable and within range", () => {
+    expect(getBucket("user-42", "new_dashboard")).toBe(getBucket("user-42", "new_dashboard"));
+    users.slice(0, 1000).forEach(user => {
+      const bucket = getBucket(user, "new_dashboard");
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(BUCKET_COUNT);
+    });
+    expect(hashString("")).toBe(hashString(""));
+  });
+
+  it("spreads users uniformly", () => {
+    const bins = new Array(10).fill(0);
+    users.forEach(user => {
+      bins[Math.floor(getBucket(user, "new_dashboard") / (BUCKET_COUNT / 10))]++;
+    });
+
+    // Chi quadro con 9 gradi di libertà: 21.67 è la soglia dell'1%
+    const expected = users.length / 10;
+    const chiSquare = bins.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+    expect(chiSquare).toBeLessThan(21.67);
+  });
+
+  it("matches the requested percentage", () => {
+    [1, 10, 25, 50, 90].forEach(percentage => {
+      const included = users.filter(user => isInRollout(getBucket(user, "beta_api_v2"), percentage)).length;
+      expect(Math.abs(included / users.length * 100 - percentage)).toBeLessThan(1);
+    });
+  });
+
+  it("keeps everyone already in when the rollout grows", () => {
+    const at25 = users.filter(user => isInRollout(getBucket(user, "beta_api_v2"), 25));
+    const at50 = new Set(users.filter(user => isInRollout(getBucket(user, "beta_api_v2"), 50)));
+    expect(at25.every(user => at50.has(user))).toBe(true);
+  });
+
+  it("buckets flags and salts independently", () => {
+    const inBoth = (a: (user: string) => number, b: (user: string) => number) =>
+      users.filter(user => isInRollout(a(user), 50) && isInRollout(b(user), 50)).length / users.length;
+
+    // Indipendenti: circa il 25% degli utenti è dentro entrambi
+    expect(inBoth(user => getBucket(user, "flag_a"), user => getBucket(user, "flag_b"))).toBeCloseTo(0.25, 1);
+    expect(inBoth(user => getBucket(user, "flag_a"), user => getBucket(user, "flag_a", "v2"))).toBeCloseTo(0.25, 1);
+  });
+
+  it("handles the edges of the range", () => {
+    expect(isInRollout(0, 0)).toBe(false);
+    expect(isInRollout(BUCKET_COUNT - 1, 100)).toBe(true);
+    expect(isInRollout(2499, 25)).toBe(true);
+    expect(isInRollout(2500, 25)).toBe(false);
+  });
+});
+
+describe("isFeatureEnabled with a user", () => {
+  // Prima delle rampe programmate per new_dashboard
+  const beforeRamp = new Date("2026-01-01T00:00:00Z");
+
+  it("gives the same user the same answer", () => {
+    const context = { userKey: "user-7", environment: "production" };
+    const first = isFeatureEnabled("new_dashboard", context);
+    for (let index = 0; index < 20; index++) {
+      expect(isFeatureEnabled("new_dashboard", context)).toBe(first);
+    }
+  });
+
+  it("includes about half of the users at 50%", () => {
+    const included = users.slice(0, 4000)
+      .filter(userKey => isFeatureEnabled("new_dashboard", { userKey, environment: "production", now: beforeRamp })).length;
+    expect(included / 4000).toBeCloseTo(0.5, 1);
+  });
+
+  it("remembers the anonymous user key", () => {
+    const values = new Map<string, string>();
+    const storage = { getItem: (key: string) => values.get(key) ?? null, setItem: (key: string, value: string) => values.set(key, value) };
+
+    const key = getAnonymousUserKey(storage);
+    expect(values.get(USER_KEY_STORAGE_KEY)).toBe(key);
+    expect(getAnonymousUserKey(storage)).toBe(key);
+  });
+
+  it("creates the anonymous user key without crypto.randomUUID", () => {
+    // Contesto non sicuro (http in LAN): randomUUID non esiste
+    vi.stubGlobal("crypto", {});
+    try {
+      const values = new Map<string, string>();
+      const storage = { getItem: (key: string) => values.get(key) ?? null, setItem: (key: string, value: string) => values.set(key, value) };
+      expect(getAnonymousUserKey(storage)).toMatch(/^anon-[a-z0-9]+-[a-z0-9]+$/);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
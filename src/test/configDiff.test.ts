@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { configs } from "@/config/environment";
+import { compareEnvironments, diffConfigs, findConfigRisks } from "@/config/configDiff";
+
+describe("diffConfigs", () => {
+  it("classifies every key as unchanged, changed, added or removed", () => {
+    const entries = diffConfigs(
+      { apiUrl: "https://a", features: { analytics: true, legacy: 1 } },
+      { apiUrl: "https://b", features: { analytics: true }, extra: "x" }
+    );
+
+    expect(entries).toEqual([
+      { path: "apiUrl", status: "changed", left: "https://a", right: "https://b" },
+      { path: "features.analytics", status: "unchanged", left: true, right: true },
+      { path: "features.legacy", status: "removed", left: 1, right: undefined },
+      { path: "extra", status: "added", left: undefined, right: "x" },
+    ]);
+  });
+});
+
+describe("findConfigRisks", () => {
+  it("ignores development and grades the other stages", () => {
+    expect(findConfigRisks("development", configs.development)).toEqual([]);
+
+    const risky = { ...configs.production, debugMode: true, apiUrl: "http://localhost:3000" };
+    expect(findConfigRisks("production", risky).map(risk => [risk.path, risk.severity])).toEqual([
+      ["debugMode", "critical"],
+      ["apiUrl", "critical"],
+    ]);
+    expect(findConfigRisks("staging", configs.staging)).toMatchObject([{ path: "debugMode", severity: "warning" }]);
+  });
+});
+
+describe("compareEnvironments", () => {
+  it("summarises the delta and marks the side that introduces each risk", () => {
+    const diff = compareEnvironments("staging", "production", configs);
+
+    expect(diff.summary.changed).toBeGreaterThan(0);
+    expect(diff.summary.added + diff.summary.removed).toBe(0);
+    expect(diff.risks.map(risk => `${risk.environment}:${risk.path}:${risk.presence}`)).toEqual(["staging:debugMode:left"]);
+    expect(compareEnvironments("production", "staging", configs).risks).toMatchObject([
+      { environment: "staging", path: "debugMode", presence: "right" },
+    ]);
+    expect(compareEnvironments("production", "production", configs).risks).toEqual([]);
+  });
+
+  it("keeps risks that both environments share", () => {
+    // debugMode è attivo sia in qa che in staging: non è una differenza, ma resta un rischio
+    const diff = compareEnvironments("qa", "staging", configs);
+    expect(diff.entries.find(entry => entry.path === "debugMode")?.status).toBe("unchanged");
+    expect(diff.risks.map(risk => `${risk.environment}:${risk.path}:${risk.presence}`)).toEqual([
+      "qa:debugMode:both",
+      "staging:debugMode:both",
+    ]);
+
+    expect(compareEnvironments("staging", "staging", configs).risks).toMatchObject([
+      { environment: "staging", path: "debugMode", presence: "both" },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { configs } from "@/config/environment";
+import { parseDotenvToRecord } from "@/config/dotenv";
+import { applyRuntimeConfig } from "@/config/runtimeConfig";
+import {
+  exportConfig,
+  quoteCompose,
+  quoteDotenv,
+  quoteHcl,
+  quoteYaml,
+  toEnvKey,
+  type ExportEntry,
+} from "@/config/configExport";
+
+const secrets: ExportEntry[] = [
+  { key: "DATABASE_URL", value: "postgresql://prod:pr0d$ecret@db:5432/app", secret: true },
+  { key: "STRIPE_PUBLISHABLE_KEY", value: "pk_live_123", secret: false },
+];
+
+const input = { environment: "production", config: configs.production, extra: secrets };
+
+describe("toEnvKey", () => {
+  it("maps config paths to Vite variable names", () => {
+    expect(toEnvKey("apiUrl")).toBe("VITE_API_URL");
+    expect(toEnvKey("features.errorReporting")).toBe("VITE_FEATURES_ERROR_REPORTING");
+    expect(toEnvKey("name")).toBe("VITE_APP_ENV");
+  });
+});
+
+describe("quoting", () => {
+  const tricky = 'say "hi" $HOME\nnext ${x} %{y}';
+
+  it("round-trips tricky values through the dotenv parser", () => {
+    expect(quoteDotenv("https://api.example.com")).toBe("https://api.example.com");
+    expect(parseDotenvToRecord(`KEY=${quoteDotenv(tricky)}`)).toEqual({ KEY: tricky });
+    expect(parseDotenvToRecord(`KEY=${quoteDotenv("a # b")}`)).toEqual({ KEY: "a # b" });
+  });
+
+  it("keeps YAML strings from changing type", () => {
+    expect(quoteYaml("true")).toBe('"true"');
+    expect(quoteYaml(true)).toBe("true");
+    expect(quoteYaml("a: b")).toBe('"a: b"');
+  });
+
+  it("escapes interpolation for compose and HCL", () => {
+    expect(quoteCompose("p$ss")).toBe('"p$$ss"');
+    expect(quoteHcl(tricky)).toBe('"say \\"hi\\" $HOME\\nnext $${x} %%{y}"');
+  });
+});
+
+describe("exportConfig", () => {
+  it("writes a .env that parses back to the same values", () => {
+    const artifact = exportConfig("dotenv", input);
+    const parsed = parseDotenvToRecord(artifact.content);
+
+    expect(artifact.filename).toBe(".env.production");
+    expect(parsed.VITE_API_URL).toBe(configs.production.apiUrl);
+    expect(parsed.VITE_APP_ENV).toBe("production");
+    expect(parsed.DATABASE_URL).toBe(secrets[0].value);
+  });
+
+  it("puts secrets in the Secret and never in the ConfigMap", () => {
+    const [configMap, secret] = exportConfig("kubernetes", input).content.split("\n---\n");
+
+    expect(configMap).toContain("kind: ConfigMap");
+    expect(configMap).toContain('VITE_DEBUG_MODE: "false"');
+    expect(configMap).toContain('STRIPE_PUBLISHABLE_KEY: "pk_live_123"');
+    expect(configMap).not.toContain("DATABASE_URL");
+    expect(secret).toContain("kind: Secret");
+    expect(secret).toContain(`DATABASE_URL: "${secrets[0].value}"`);
+
+    expect(exportConfig("kubernetes", { ...input, extra: [] }).content).not.toContain("kind: Secret");
+  });
+
+  it("references secrets from the shell in docker-compose", () => {
+    const content = exportConfig("docker-compose", input).content;
+
+    expect(content).toContain('DATABASE_URL: "${DATABASE_URL:?DATABASE_URL mancante}"');
+    expect(content).not.toContain("pr0d");
+  });
+
+  it("produces nested JSON, Helm values and tfvars", () => {
+    const json = JSON.parse(exportConfig("json", input).content);
+    expect(json.features).toEqual(configs.production.features);
+
+    const helm = exportConfig("helm", input).content;
+    expect(helm).toContain('environment: "production"');
+    expect(helm).toMatch(/features:\n {2}analytics: true/);
+
+    const tfvars = exportConfig("terraform", input).content;
+    expect(tfvars).toContain(`api_url = "${configs.production.apiUrl}"`);
+    expect(tfvars).toContain("error_reporting = true");
+    expect(tfvars).toContain('DATABASE_URL = "postgresql://prod:pr0d$ecret@db:5432/app"');
+  });
+
+  it("keeps secrets and extra values out of JSON and YAML", () => {
+    (["json", "yaml"] as const).forEach(format => {
+      const content = exportConfig(format, input).content;
+      expect(content).not.toContain("DATABASE_URL");
+      expect(content).not.toContain("pr0d");
+      expect(content).not.toContain("STRIPE_PUBLISHABLE_KEY");
+    });
+  });
+
+  it("writes a JSON file that the runtime loader accepts", () => {
+    const payload = JSON.parse(exportConfig("json", input).content);
+    const loaded = applyRuntimeConfig(payload, "config.production.json", "development");
+
+    expect(loaded.environment).toBe("production");
+    expect(loaded.config).toEqual(configs.production);
+  });
+});
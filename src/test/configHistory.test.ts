@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { configs } from "@/config/environment";
+import {
+  createChange,
+  createRestore,
+  createRevert,
+  INITIAL_SNAPSHOT,
+  loadConfigHistory,
+  replayHistory,
+  saveConfigHistory,
+  type ConfigChange,
+} from "@/config/configHistory";
+import { ConfigValidationError } from "@/config/schema";
+
+const now = new Date("2026-01-15T10:00:00Z");
+
+// Applica una sequenza di modifiche come farebbe il provider
+const edit = (history: ConfigChange[], environment: string, path: string, value: string | boolean) => {
+  const change = createChange(replayHistory(configs, history), history, { environment, path, value, author: "ada", now });
+  return change ? [...history, change] : history;
+};
+
+describe("createChange", () => {
+  it("records who, when, old and new value", () => {
+    const change = createChange(configs, [], {
+      environment: "staging",
+      path: "logLevel",
+      value: "warn",
+      author: " ada ",
+      reason: "troppi log",
+      now,
+    });
+
+    expect(change).toEqual({
+      id: "chg-1",
+      kind: "edit",
+      environment: "staging",
+      path: "logLevel",
+      oldValue: configs.staging.logLevel,
+      newValue: "warn",
+      author: "ada",
+      timestamp: "2026-01-15T10:00:00.000Z",
+      reason: "troppi log",
+    });
+  });
+
+  it("validates against the schema and skips no-op edits", () => {
+    const request = { environment: "staging", author: "ada", now };
+
+    expect(() => createChange(configs, [], { ...request, path: "logLevel", value: "loud" })).toThrow(ConfigValidationError);
+    expect(() => createChange(configs, [], { ...request, path: "name", value: "x" })).toThrow(/non è modificabile/);
+    expect(createChange(configs, [], { ...request, path: "debugMode", value: configs.staging.debugMode })).toBeNull();
+  });
+});
+
+describe("revert and restore", () => {
+  it("reverts a single change without touching later ones", () => {
+    let history = edit([], "staging", "logLevel", "warn");
+    history = edit(history, "production", "debugMode", true);
+
+    const revert = createRevert(replayHistory(configs, history), history, "chg-1", "bob", undefined, now)!;
+    const result = replayHistory(configs, [...history, revert]);
+
+    expect(revert).toMatchObject({ kind: "revert", target: "chg-1", newValue: configs.staging.logLevel });
+    expect(result.staging.logLevel).toBe(configs.staging.logLevel);
+    expect(result.production.debugMode).toBe(true);
+  });
+
+  it("restores a full snapshot by appending the needed changes", () => {
+    let history = edit([], "staging", "logLevel", "warn");
+    history = edit(history, "production", "debugMode", true);
+    history = edit(history, "staging", "apiUrl", "https://new-staging.example.com");
+
+    const restore = createRestore(configs, history, "chg-1", "bob", undefined, now);
+    expect(restore.map(change => [change.id, change.path])).toEqual([
+      ["chg-4", "apiUrl"],
+      ["chg-5", "debugMode"],
+    ]);
+
+    const restored = replayHistory(configs, [...history, ...restore]);
+    expect(restored.staging.logLevel).toBe("warn");
+    expect(restored.staging.apiUrl).toBe(configs.staging.apiUrl);
+    expect(restored.production).toEqual(configs.production);
+
+    expect(replayHistory(configs, [...history, ...createRestore(configs, history, INITIAL_SNAPSHOT, "bob")])).toEqual(configs);
+  });
+});
+
+describe("persistence", () => {
+  it("round-trips through storage and ignores corrupted data", () => {
+    const store = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => void store.set(key, value),
+    };
+    const history = edit([], "qa", "logLevel", "error");
+
+    saveConfigHistory(history, storage);
+    expect(loadConfigHistory(storage)).toEqual(history);
+
+    store.set("environment-manager:config-history", "{not json");
+    expect(loadConfigHistory(storage)).toEqual([]);
+  });
+
+  it("drops entries whose values do not match the schema", () => {
+    const history = edit(edit([], "qa", "logLevel", "error"), "qa", "debugMode", false);
+    const corrupted = [
+      history[0],
+      { ...history[1], newValue: "false" },                   // Stringa dove serve un booleano
+      { ...history[1], id: "chg-3", path: "features.unknown" },
+    ];
+    const storage = { getItem: () => JSON.stringify(corrupted) };
+
+    expect(loadConfigHistory(storage)).toEqual([history[0]]);
+  });
+
+  it("keeps ids unique after invalid entries are dropped", () => {
+    let history = edit([], "qa", "logLevel", "error");
+    history = edit(history, "qa", "logLevel", "warn");
+    // chg-1 è stata scartata al caricamento: resta solo chg-2
+    const loaded = history.slice(1);
+
+    const next = edit(loaded, "qa", "logLevel", "debug");
+    expect(next.map(change => change.id)).toEqual(["chg-2", "chg-3"]);
+    expect(createRevert(replayHistory(configs, next), next, "chg-2", "bob", undefined, now)?.newValue).toBe("error");
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { configs } from "@/config/environment";
+import { exportConfig } from "@/config/configExport";
+import { isKnownEnvironment, registerEnvironment } from "@/config/environments";
+import {
+  buildImportPreview,
+  createImportedDefinition,
+  detectImportFormat,
+  loadImportedEnvironments,
+  parseImportSource,
+  suggestMapping,
+} from "@/config/configImport";
+
+const configMap = `apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: app-config
+data:
+  VITE_API_URL: "https://api.example.com"
+  VITE_DEBUG_MODE: "false"
+`;
+
+describe("detectImportFormat", () => {
+  it("recognises each supported format", () => {
+    expect(detectImportFormat("# comment\nVITE_API_URL=https://x")).toBe("dotenv");
+    expect(detectImportFormat('{ "apiUrl": "https://x" }')).toBe("json");
+    expect(detectImportFormat(configMap)).toBe("configmap");
+    expect(detectImportFormat("apiUrl: https://x\nfeatures:\n  analytics: true")).toBe("yaml");
+  });
+});
+
+describe("parseImportSource", () => {
+  it("expands dotenv references", () => {
+    const parsed = parseImportSource("HOST=api.example.com\nAPI_URL=https://${HOST}/v1", "dotenv");
+    expect(parsed.values.API_URL).toBe("https://api.example.com/v1");
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it("flattens nested JSON and YAML into dotted keys", () => {
+    expect(parseImportSource('{ "features": { "analytics": true } }', "json").values).toEqual({
+      "features.analytics": true,
+    });
+    expect(parseImportSource("features:\n  analytics: false\nlogLevel: warn", "yaml").values).toEqual({
+      "features.analytics": false,
+      logLevel: "warn",
+    });
+  });
+
+  it("reads only the data section of a ConfigMap", () => {
+    expect(parseImportSource(configMap, "configmap").values).toEqual({
+      VITE_API_URL: "https://api.example.com",
+      VITE_DEBUG_MODE: "false",
+    });
+  });
+
+  it("reports malformed input instead of throwing", () => {
+    expect(parseImportSource("{ broken", "json").errors[0]).toMatch(/JSON non valido/);
+    expect(parseImportSource("apiUrl: x", "configmap").errors).toContain("nessun documento con kind: ConfigMap");
+  });
+
+  it("round-trips the exporter's own output", () => {
+    const artifact = exportConfig("kubernetes", { environment: "staging", config: configs.staging });
+    const values = parseImportSource(artifact.content).values;
+    const mapping = Object.fromEntries(suggestMapping(Object.keys(values)).map(item => [item.source, item.target]));
+    const preview = buildImportPreview({ environment: "staging", values, mapping, base: configs.staging });
+    expect(preview.issues).toEqual([]);
+    expect(preview.config).toEqual(configs.staging);
+  });
+});
+
+describe("suggestMapping", () => {
+  it("matches keys by name similarity across naming conventions", () => {
+    const suggestions = suggestMapping(["VITE_API_URL", "LOG_LEVEL", "features_error_reporting", "DATABASE_PASSWORD"]);
+    expect(suggestions.map(item => item.target)).toEqual([
+      "apiUrl",
+      "logLevel",
+      "features.errorReporting",
+      null,
+    ]);
+    expect(suggestions[0].score).toBe(1);
+  });
+
+  it("assigns each target at most once", () => {
+    const targets = suggestMapping(["API_URL", "VITE_API_URL"]).map(item => item.target);
+    expect(targets.filter(target => target === "apiUrl")).toHaveLength(1);
+  });
+});
+
+describe("buildImportPreview", () => {
+  it("coerces strings and validates against an existing environment", () => {
+    const preview = buildImportPreview({
+      environment: "staging",
+      values: { DEBUG: "true", LOG: "warn" },
+      mapping: { DEBUG: "debugMode", LOG: "logLevel" },
+      base: configs.staging,
+    });
+    expect(preview.issues).toEqual([]);
+    expect(preview.config?.debugMode).toBe(true);
+    expect(preview.config?.apiUrl).toBe(configs.staging.apiUrl);
+  });
+
+  it("requires every field for a new environment", () => {
+    const preview = buildImportPreview({
+      environment: "eu-production",
+      values: { API: "https://api.eu.example.com" },
+      mapping: { API: "apiUrl" },
+    });
+    expect(preview.config).toBeNull();
+    expect(preview.issues.map(issue => issue.path)).toContain("displayName");
+  });
+
+  it("flags invalid values and duplicate targets", () => {
+    const preview = buildImportPreview({
+      environment: "staging",
+      values: { A: "not a url", B: "https://x.example.com", LEVEL: "verbose" },
+      mapping: { A: "apiUrl", B: "apiUrl", LEVEL: "logLevel" },
+      base: configs.staging,
+    });
+    expect(preview.config).toBeNull();
+    expect(preview.issues.map(issue => issue.path)).toEqual(expect.arrayContaining(["apiUrl", "logLevel"]));
+    expect(preview.issues.some(issue => issue.message.includes("più chiavi"))).toBe(true);
+  });
+});
+
+describe("imported environments", () => {
+  it("registers a new environment once and rejects invalid ids", () => {
+    const definition = createImportedDefinition({ id: "eu-staging", displayName: "Staging EU", stage: "pre-production" });
+    registerEnvironment(definition);
+    expect(isKnownEnvironment("eu-staging")).toBe(true);
+    expect(() => registerEnvironment(definition)).toThrow(/già registrato/);
+    expect(() => registerEnvironment({ ...definition, id: "Not Valid" })).toThrow(/non valido/);
+  });
+
+  it("drops stored environments that no longer validate", () => {
+    const definition = createImportedDefinition({ id: "qa", displayName: "QA", stage: "pre-production" });
+    const storage = {
+      getItem: () => JSON.stringify([
+        { definition, config: { ...configs.staging, name: "qa" } },
+        { definition: { ...definition, id: "broken" }, config: { name: "broken" } },
+      ]),
+    };
+    expect(loadImportedEnvironments(storage).map(item => item.definition.id)).toEqual(["qa"]);
+    expect(loadImportedEnvironments({ getItem: () => "not json" })).toEqual([]);
+  });
+});
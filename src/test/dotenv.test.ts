@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { expandValue, parseDotenv, parseDotenvToRecord } from "@/config/dotenv";
+import { getViteEnvFileNames, resolveViteEnv } from "@/config/envFiles";
+import { getCurrentEnvironment } from "@/config/environment";
+
+describe("parseDotenv", () => {
+  it("handles comments, export prefix and inline comments", () => {
+    const { entries, errors } = parseDotenv(
+      ["# comment", "", "export API_URL=https://api.example.com # inline", "EMPTY=", "HASH=a#b"].join("\n")
+    );
+
+    expect(errors).toEqual([]);
+    expect(entries.map(({ key, value }) => [key, value])).toEqual([
+      ["API_URL", "https://api.example.com"],
+      ["EMPTY", ""],
+      ["HASH", "a#b"],
+    ]);
+  });
+
+  it("unescapes double quotes and keeps single quotes literal", () => {
+    const { entries } = parseDotenv(
+      ['GREETING="Ciao\\nmondo \\"tutti\\""', "RAW='${NOT_EXPANDED}\\n'", 'HASHED="a # b" # comment'].join("\n")
+    );
+
+    expect(entries[0]).toMatchObject({ value: 'Ciao\nmondo "tutti"', interpolate: true });
+    expect(entries[1]).toMatchObject({ value: "${NOT_EXPANDED}\\n", interpolate: false });
+    expect(entries[2].value).toBe("a # b");
+  });
+
+  it("reads multiline quoted values and reports the starting line", () => {
+    const { entries } = parseDotenv(
+      ["FIRST=1", 'PRIVATE_KEY="-----BEGIN-----', "abc", '-----END-----"', "LAST=2"].join("\n")
+    );
+
+    expect(entries.map(entry => [entry.key, entry.line])).toEqual([
+      ["FIRST", 1],
+      ["PRIVATE_KEY", 2],
+      ["LAST", 5],
+    ]);
+    expect(entries[1].value).toBe("-----BEGIN-----\nabc\n-----END-----");
+  });
+
+  it("collects errors without stopping", () => {
+    const { entries, errors } = parseDotenv(["NOT AN ASSIGNMENT", "1BAD=x", 'OPEN="never closed', "OK=1"].join("\n"));
+
+    expect(errors).toEqual([
+      { line: 1, message: "riga non valida: atteso KEY=VALUE" },
+      { line: 2, message: 'nome di variabile non valido: "1BAD"' },
+      { line: 3, message: "virgolette \" non chiuse" },
+    ]);
+    expect(entries).toEqual([]);
+  });
+});
+
+describe("expandValue", () => {
+  const lookup = (key: string) => ({ HOST: "example.com", EMPTY: "" })[key];
+
+  it("supports ${VAR}, $VAR, defaults and escaped dollars", () => {
+    expect(expandValue("https://${HOST}/v2", lookup)).toBe("https://example.com/v2");
+    expect(expandValue("$HOST", lookup)).toBe("example.com");
+    expect(expandValue("${MISSING:-fallback}|${EMPTY:-x}|${MISSING}", lookup)).toBe("fallback|x|");
+    expect(expandValue("\\$HOST", lookup)).toBe("$HOST");
+  });
+
+  it("expands references within a single file", () => {
+    expect(parseDotenvToRecord("A=${B}-a\nB=b\nC='${A}'")).toEqual({ A: "b-a", B: "b", C: "${A}" });
+  });
+});
+
+describe("resolveViteEnv", () => {
+  const files = {
+    ".env": "VITE_API_URL=http://localhost\nVITE_NAME=app\nDB_PASSWORD=secret",
+    ".env.local": "VITE_NAME=local-app",
+    ".env.staging": "VITE_APP_ENV=staging\nVITE_API_URL=https://staging\nVITE_ENDPOINT=${VITE_API_URL}/v2",
+    ".env.staging.local": "VITE_API_URL=https://staging-local",
+    ".env.production": "VITE_API_URL=https://prod",
+  };
+
+  it("follows Vite's file order", () => {
+    const result = resolveViteEnv({ mode: "staging", files });
+
+    expect(getViteEnvFileNames("staging")).toEqual(result.loadedFiles);
+    expect(result.ignoredFiles).toEqual([".env.production"]);
+    expect(result.env).toEqual({
+      MODE: "staging",
+      VITE_API_URL: "https://staging-local",
+      VITE_NAME: "local-app",
+      VITE_APP_ENV: "staging",
+      VITE_ENDPOINT: "https://staging-local/v2",
+    });
+  });
+
+  it("keeps unprefixed variables out of the client env", () => {
+    const result = resolveViteEnv({ mode: "staging", files });
+
+    expect(result.env.DB_PASSWORD).toBeUndefined();
+    expect(result.all.DB_PASSWORD).toBe("secret");
+    expect(result.trace.find(item => item.key === "DB_PASSWORD")?.exposed).toBe(false);
+  });
+
+  it("traces which source won and what it overrode", () => {
+    const result = resolveViteEnv({
+      mode: "staging",
+      files,
+      processEnv: { VITE_NAME: "from-shell", DB_PASSWORD: "shell-secret" },
+    });
+
+    expect(result.trace.find(item => item.key === "VITE_API_URL")).toMatchObject({
+      source: ".env.staging.local",
+      overridden: [
+        { source: ".env", value: "http://localhost" },
+        { source: ".env.staging", value: "https://staging" },
+      ],
+    });
+    expect(result.trace.find(item => item.key === "VITE_NAME")).toMatchObject({
+      source: "process.env",
+      value: "from-shell",
+    });
+    expect(result.all.DB_PASSWORD).toBe("secret");
+  });
+
+  it("rejects the reserved 'local' mode and an empty prefix", () => {
+    expect(() => resolveViteEnv({ mode: "local", files })).toThrow(/local/);
+    expect(() => resolveViteEnv({ mode: "staging", files, envPrefix: "" })).toThrow(/envPrefix/);
+  });
+
+  it("feeds getCurrentEnvironment", () => {
+    expect(getCurrentEnvironment(resolveViteEnv({ mode: "staging", files }).env)).toBe("staging");
+    expect(getCurrentEnvironment(resolveViteEnv({ mode: "qa", files: {} }).env)).toBe("qa");
+    expect(getCurrentEnvironment(resolveViteEnv({ mode: "unknown", files: {} }).env)).toBe("development");
+  });
+});
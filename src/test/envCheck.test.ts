@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { checkBuildEnv, formatEnvReport, requiredEnvKeys } from "@/config/envCheck";
+
+const keys = (issues: { key: string }[]) => issues.map(issue => issue.key);
+
+describe("checkBuildEnv", () => {
+  it("accepts a clean production env", () => {
+    expect(checkBuildEnv({
+      mode: "production",
+      env: { VITE_API_URL: "https://api.example.com", VITE_DEBUG_MODE: "false" },
+    })).toEqual([]);
+  });
+
+  it("requires VITE_APP_ENV when the mode is not a registered environment", () => {
+    const issues = checkBuildEnv({ mode: "eu", env: {} });
+    expect(keys(issues)).toEqual(["VITE_APP_ENV"]);
+    expect(issues[0].severity).toBe("error");
+
+    expect(checkBuildEnv({ mode: "eu", env: { VITE_APP_ENV: "production" } })).toEqual([]);
+  });
+
+  it("rejects an unknown VITE_APP_ENV", () => {
+    const issues = checkBuildEnv({ mode: "production", env: { VITE_APP_ENV: "prod" } });
+    expect(keys(issues)).toEqual(["VITE_APP_ENV"]);
+    expect(issues[0].message).toContain("prod");
+  });
+
+  it("passes every registered mode without config variables", () => {
+    ["qa", "staging", "preview", "canary", "production"].forEach(mode => {
+      expect(checkBuildEnv({ mode, env: {} })).toEqual([]);
+    });
+  });
+
+  it("requires only the schema fields marked requiredEnv", () => {
+    expect(requiredEnvKeys("production")).toEqual([]);
+
+    const schema = {
+      apiUrl: { type: "string", required: true, requiredEnv: true, description: "API" },
+      displayName: { type: "string", required: true, description: "Nome" },
+    } as const;
+    expect(requiredEnvKeys("production", { production: ["VITE_RUNTIME_CONFIG_URL"] }, schema))
+      .toEqual(["VITE_API_URL", "VITE_RUNTIME_CONFIG_URL"]);
+  });
+
+  it("reports the extra variables required for the active mode", () => {
+    const required = { production: ["VITE_RUNTIME_CONFIG_URL"] };
+    expect(keys(checkBuildEnv({ mode: "production", env: {}, required }))).toEqual(["VITE_RUNTIME_CONFIG_URL"]);
+    expect(checkBuildEnv({ mode: "development", env: {}, required })).toEqual([]);
+  });
+
+  it("validates schema variables after parsing them", () => {
+    const issues = checkBuildEnv({
+      mode: "development",
+      env: { VITE_LOG_LEVEL: "verbose", VITE_DEBUG_MODE: "yes", VITE_FEATURES_ANALYTICS: "true" },
+    });
+    expect(keys(issues).sort()).toEqual(["VITE_DEBUG_MODE", "VITE_LOG_LEVEL"]);
+    expect(issues.every(issue => issue.severity === "error")).toBe(true);
+  });
+
+  it("turns client-exposed secrets into errors and warnings", () => {
+    const issues = checkBuildEnv({
+      mode: "development",
+      env: { VITE_STRIPE_SECRET_KEY: "sk_live_abc", VITE_AUTH_TOKEN: "abc123", STRIPE_SECRET_KEY: "sk_live_abc" },
+    });
+    expect(issues).toEqual([
+      expect.objectContaining({ key: "VITE_STRIPE_SECRET_KEY", severity: "error" }),
+      expect.objectContaining({ key: "VITE_AUTH_TOKEN", severity: "warning" }),
+    ]);
+  });
+});
+
+describe("formatEnvReport", () => {
+  it("groups errors and warnings", () => {
+    const report = formatEnvReport("production", [
+      { key: "VITE_APP_ENV", severity: "error", message: "mancante" },
+      { key: "VITE_AUTH_TOKEN", severity: "warning", message: "token" },
+    ]);
+    expect(report).toContain('modalità "production"');
+    expect(report).toContain("Errori (1)");
+    expect(report).toContain("  • VITE_APP_ENV: mancante");
+    expect(report).toContain("Avvisi (1)");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { findEnvReferences } from "../../plugins/envReferences";
+import {
+  WHOLE_ENV_KEY,
+  createEnvManifest,
+  groupReferencesByKey,
+  inlinedValue,
+  loadEnvManifest,
+} from "@/config/envManifest";
+
+const env = { MODE: "production", PROD: true, BASE_URL: "/", VITE_API_URL: "https://api.example.com" };
+
+describe("findEnvReferences", () => {
+  it("records key, value and position of each replacement", () => {
+    const code = [
+      "const api = import.meta.env.VITE_API_URL;",
+      "if (import.meta.env.PROD) {",
+      "  console.log(import.meta.env.VITE_MISSING);",
+      "}",
+    ].join("\n");
+
+    expect(findEnvReferences(code, "src/api.ts", env)).toEqual([
+      { key: "VITE_API_URL", value: "https://api.example.com", file: "src/api.ts", line: 1, column: 13 },
+      { key: "PROD", value: true, file: "src/api.ts", line: 2, column: 5 },
+      { key: "VITE_MISSING", value: null, file: "src/api.ts", line: 3, column: 15 },
+    ]);
+  });
+
+  it("ignores comments, strings and JSX text", () => {
+    const code = [
+      "// import.meta.env.VITE_API_URL",
+      "const hint = 'usa import.meta.env.VITE_API_URL';",
+      "export const Hint = () => <p>import.meta.env.VITE_*</p>;",
+    ].join("\n");
+
+    expect(findEnvReferences(code, "src/Hint.tsx", env)).toEqual([]);
+  });
+
+  it("marks the whole env object", () => {
+    const code = "export const read = (env = import.meta.env) => env['VITE_API_URL'];";
+    const [reference] = findEnvReferences(code, "src/read.ts", env);
+    expect(reference).toMatchObject({ key: WHOLE_ENV_KEY, value: null });
+  });
+});
+
+describe("env manifest", () => {
+  it("resolves inlined values like Vite", () => {
+    expect(inlinedValue(env, "MODE")).toBe("production");
+    expect(inlinedValue(env, "SSR")).toBe(false);
+    expect(inlinedValue(env, "VITE_UNKNOWN")).toBeNull();
+  });
+
+  it("sorts references and groups them by key", () => {
+    const manifest = createEnvManifest({
+      mode: "production",
+      command: "build",
+      env,
+      generatedAt: new Date("2024-01-01T00:00:00Z"),
+      references: [
+        { key: "MODE", value: "production", file: "src/b.ts", line: 1, column: 1 },
+        { key: WHOLE_ENV_KEY, value: null, file: "src/a.ts", line: 9, column: 1 },
+        { key: "MODE", value: "production", file: "src/a.ts", line: 2, column: 1 },
+      ],
+    });
+
+    expect(manifest.generatedAt).toBe("2024-01-01T00:00:00.000Z");
+    expect(manifest.references.map(reference => reference.file)).toEqual(["src/a.ts", "src/a.ts", "src/b.ts"]);
+
+    const groups = groupReferencesByKey(manifest);
+    expect(groups.map(group => group.key)).toEqual(["MODE", WHOLE_ENV_KEY]);
+    expect(groups[0].references).toHaveLength(2);
+  });
+
+  it("rejects a missing or malformed manifest", async () => {
+    const respond = (status: number, body: unknown) =>
+      (async () => new Response(JSON.stringify(body), { status })) as unknown as typeof fetch;
+
+    await expect(loadEnvManifest("/env-manifest.json", respond(404, {}))).rejects.toThrow("HTTP 404");
+    await expect(loadEnvManifest("/env-manifest.json", respond(200, { mode: 1 }))).rejects.toThrow("formato atteso");
+  });
+});
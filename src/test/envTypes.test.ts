@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { configs } from "@/config/environment";
+import { environmentConfigSchema, type ConfigPath } from "@/config/schema";
+import { collectEnvVariables, envValueType, GENERATED_ENV_TYPES_PATH, renderEnvTypes } from "@/config/envTypes";
+import { configKeys, envKeyByConfigKey, readConfigValue, readEnv } from "@/config/env.generated";
+
+describe("generated env types", () => {
+  it("are up to date with the config schema", () => {
+    // Se fallisce: npm run generate:env
+    expect(readFileSync(GENERATED_ENV_TYPES_PATH, "utf-8")).toBe(renderEnvTypes());
+  });
+
+  it("declare one variable per config path plus the extra ones", () => {
+    const keys = collectEnvVariables().map(variable => variable.key);
+    expect(keys).toContain("VITE_APP_ENV");
+    expect(keys).toContain("VITE_FEATURES_ERROR_REPORTING");
+    expect(keys).toContain("VITE_RUNTIME_CONFIG_URL");
+    expect(configKeys).toEqual(Object.keys(environmentConfigSchema));
+    expect(envKeyByConfigKey.apiUrl).toBe("VITE_API_URL");
+  });
+
+  it("narrow env value types where the schema allows it", () => {
+    expect(envValueType(environmentConfigSchema.logLevel)).toBe("'debug' | 'info' | 'warn' | 'error'");
+    expect(envValueType(environmentConfigSchema.debugMode)).toBe("'true' | 'false'");
+    expect(envValueType(environmentConfigSchema.apiUrl)).toBe("string");
+  });
+});
+
+describe("typed accessors", () => {
+  it("read env variables and config paths", () => {
+    expect(readEnv("VITE_LOG_LEVEL", { VITE_LOG_LEVEL: "warn" })).toBe("warn");
+    expect(readEnv("VITE_API_URL", {})).toBeUndefined();
+    expect(readConfigValue(configs.production, "features.analytics")).toBe(configs.production.features.analytics);
+  });
+
+  it("reject misspelled keys at compile time", () => {
+    // Controllati da tsc: se la riga compila, @ts-expect-error diventa un errore
+    // @ts-expect-error VITE_APII_URL non è una variabile dell'app
+    expect(readEnv("VITE_APII_URL", {})).toBeUndefined();
+    // @ts-expect-error "features.analytic" non è un percorso di EnvironmentConfig
+    expect(readConfigValue(configs.production, "features.analytic")).toBeUndefined();
+    // @ts-expect-error "apiURL" non è un percorso dello schema
+    const path: ConfigPath = "apiURL";
+    expect(path in environmentConfigSchema).toBe(false);
+  });
+});
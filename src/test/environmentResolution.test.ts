@@ -0,0 +1,63 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  getActiveEnvironment,
+  getResolvedEnvironment,
+  resetEnvironmentResolution,
+  resolveEnvironment,
+  setRuntimeEnvironment,
+  setSimulatedEnvironment,
+  subscribeToEnvironment,
+} from "@/config/environmentResolution";
+import { getAllFeatureFlags, isFeatureEnabled } from "@/config/featureFlags";
+
+afterEach(() => resetEnvironmentResolution());
+
+describe("resolveEnvironment", () => {
+  it("prefers simulated over runtime over build", () => {
+    expect(resolveEnvironment({ build: "production" })).toMatchObject({
+      current: "production", source: "build", isSimulated: false, differsFromBuild: false,
+    });
+    expect(resolveEnvironment({ build: "production", runtime: "canary" })).toMatchObject({
+      current: "canary", source: "runtime", differsFromBuild: true,
+    });
+    expect(resolveEnvironment({ build: "production", runtime: "canary", simulated: "staging" })).toMatchObject({
+      current: "staging", source: "simulated", build: "production", isSimulated: true, differsFromBuild: true,
+    });
+  });
+});
+
+describe("shared environment resolution", () => {
+  it("notifies subscribers only when the result changes", () => {
+    resetEnvironmentResolution("production");
+    const listener = vi.fn();
+    const unsubscribe = subscribeToEnvironment(listener);
+
+    setSimulatedEnvironment("staging");
+    setSimulatedEnvironment("staging");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getResolvedEnvironment()).toMatchObject({ current: "staging", build: "production" });
+
+    setRuntimeEnvironment("canary");             // La simulazione ha la precedenza
+    expect(getActiveEnvironment()).toBe("staging");
+    setSimulatedEnvironment(undefined);
+    expect(getActiveEnvironment()).toBe("canary");
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    setRuntimeEnvironment(undefined);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(getActiveEnvironment()).toBe("production");
+  });
+
+  it("drives feature flag evaluation", () => {
+    resetEnvironmentResolution("production");
+    expect(isFeatureEnabled("dark_mode_v2")).toBe(false);
+
+    setSimulatedEnvironment("development");
+    expect(isFeatureEnabled("dark_mode_v2")).toBe(true);
+    expect(getAllFeatureFlags().find(flag => flag.id === "dark_mode_v2")?.currentlyEnabled).toBe(true);
+
+    // Un ambiente esplicito vince sempre
+    expect(isFeatureEnabled("dark_mode_v2", { environment: "production" })).toBe(false);
+  });
+});
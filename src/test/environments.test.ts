@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  environmentIds,
+  environments,
+  getEnvironmentDefinition,
+  isKnownEnvironment,
+  registerEnvironment,
+  type EnvironmentDefinition,
+} from "@/config/environments";
+
+const definition = (overrides: Partial<EnvironmentDefinition>): EnvironmentDefinition => ({
+  id: "demo",
+  displayName: "Demo",
+  color: "accent",
+  order: 35,
+  stage: "pre-production",
+  description: "",
+  highlights: [],
+  pipeline: { branch: "demo", target: "Demo", autoDeploy: false, requiresApproval: false },
+  ...overrides,
+});
+
+describe("environment registry", () => {
+  it("lists environments in promotion order", () => {
+    expect(environmentIds).toEqual(["development", "preview", "qa", "staging", "canary", "production"]);
+    expect(environments.map(env => env.order)).toEqual([...environments.map(env => env.order)].sort((a, b) => a - b));
+  });
+
+  it("looks up definitions and rejects unknown ids", () => {
+    expect(getEnvironmentDefinition("canary").stage).toBe("production");
+    expect(isKnownEnvironment("qa")).toBe(true);
+    expect(isKnownEnvironment("prod")).toBe(false);
+    expect(isKnownEnvironment(undefined)).toBe(false);
+    expect(() => getEnvironmentDefinition("prod")).toThrow(/non registrato/);
+  });
+});
+
+describe("registerEnvironment", () => {
+  it("rejects invalid and duplicate ids", () => {
+    expect(() => registerEnvironment(definition({ id: "Load Test" }))).toThrow(/non valido/);
+    expect(() => registerEnvironment(definition({ id: "1st" }))).toThrow(/non valido/);
+    expect(() => registerEnvironment(definition({ id: "staging" }))).toThrow(/già registrato/);
+    expect(environmentIds).not.toContain("Load Test");
+  });
+
+  it("places the new environment by its order and updates the exported arrays in place", () => {
+    // Riferimenti presi prima, come fanno i componenti che importano gli array
+    const listed = environments;
+    const ids = environmentIds;
+
+    registerEnvironment(definition({ id: "load-test", order: 35 }));
+
+    expect(listed).toBe(environments);
+    expect(ids).toBe(environmentIds);
+    expect(ids.slice(2, 5)).toEqual(["qa", "load-test", "staging"]);
+    expect(listed.map(env => env.id)).toEqual(ids);
+    expect(getEnvironmentDefinition("load-test").displayName).toBe("Demo");
+    expect(isKnownEnvironment("load-test")).toBe(true);
+  });
+});
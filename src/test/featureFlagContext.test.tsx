@@ -0,0 +1,164 @@
+import { StrictMode } from "react";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import Feature from "@/components/Feature";
+import { FeatureFlagProvider } from "@/contexts/FeatureFlagProvider";
+import { useFeatureFlag, useFeatureFlagContext, useFlagValue } from "@/contexts/FeatureFlagContext";
+import { getEvaluationStats, isFeatureEnabled, resetEvaluationStats } from "@/config/featureFlags";
+import { resetEnvironmentResolution, setSimulatedEnvironment } from "@/config/environmentResolution";
+import { FeatureFlagTestProvider } from "./FeatureFlagTestProvider";
+
+const FlagState = ({ flag }: { flag: string }) => <span>{`${flag}: ${useFeatureFlag(flag) ? "on" : "off"}`}</span>;
+
+const PageSize = () => <span>{`page size ${useFlagValue("search_page_size", 20)}`}</span>;
+
+const BecomeEnterprise = () => {
+  const { updateContext } = useFeatureFlagContext();
+  return <button onClick={() => updateContext({ attributes: { plan: "enterprise" } })}>enterprise</button>;
+};
+
+afterEach(() => {
+  cleanup();  // Prima di toccare l'ambiente, o il provider ancora montato si aggiorna fuori da act
+  vi.useRealTimers();
+  resetEnvironmentResolution();
+  resetEvaluationStats();
+});
+
+describe("FeatureFlagProvider", () => {
+  it("evaluates flags in the environment of the context", () => {
+    const { rerender } = render(
+      <FeatureFlagProvider context={{ environment: "production" }}>
+        <Feature flag="dark_mode_v2" fallback={<span>classic</span>}>
+          <span>dark</span>
+        </Feature>
+      </FeatureFlagProvider>
+    );
+    expect(screen.getByText("classic")).toBeInTheDocument();
+
+    rerender(
+      <FeatureFlagProvider context={{ environment: "development" }}>
+        <Feature flag="dark_mode_v2" fallback={<span>classic</span>}>
+          <span>dark</span>
+        </Feature>
+      </FeatureFlagProvider>
+    );
+    expect(screen.getByText("dark")).toBeInTheDocument();
+  });
+
+  it("follows the active environment when the context has none", () => {
+    resetEnvironmentResolution("production");
+    render(
+      <FeatureFlagProvider>
+        <FlagState flag="dark_mode_v2" />
+      </FeatureFlagProvider>
+    );
+    expect(screen.getByText("dark_mode_v2: off")).toBeInTheDocument();
+
+    act(() => setSimulatedEnvironment("development"));
+    expect(screen.getByText("dark_mode_v2: on")).toBeInTheDocument();
+  });
+
+  it("re-renders consumers when the context is updated", () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    const userKey = Array.from({ length: 100 }, (_, index) => `user-${index}`)
+      .find(key => !isFeatureEnabled("new_dashboard", { environment: "production", userKey: key, now }));
+    render(
+      <FeatureFlagProvider context={{ environment: "production", userKey, now }}>
+        <FlagState flag="new_dashboard" />
+        <BecomeEnterprise />
+      </FeatureFlagProvider>
+    );
+    expect(screen.getByText("new_dashboard: off")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("enterprise"));
+    expect(screen.getByText("new_dashboard: on")).toBeInTheDocument();
+  });
+
+  it("re-renders when a scheduled action fires", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2027-02-28T23:00:00Z"));
+    render(
+      <FeatureFlagProvider context={{ environment: "production", attributes: { email: "anna@qa.example.com" } }}>
+        <FlagState flag="beta_api_v2" />
+      </FeatureFlagProvider>
+    );
+    expect(screen.getByText("beta_api_v2: off")).toBeInTheDocument();
+
+    act(() => vi.advanceTimersByTime(8 * 60 * 60 * 1000));
+    expect(screen.getByText("beta_api_v2: on")).toBeInTheDocument();
+  });
+
+  it("serves the payload of the variation", () => {
+    render(
+      <FeatureFlagProvider context={{ environment: "development" }}>
+        <PageSize />
+      </FeatureFlagProvider>
+    );
+    expect(screen.getByText(/^page size \d+$/).textContent).not.toBe("page size 20");
+  });
+
+  it("records each evaluation once, after commit, even in StrictMode", () => {
+    resetEvaluationStats();
+    const production = { environment: "production" };
+    const tree = (context: { environment: string }) => (
+      <StrictMode>
+        <FeatureFlagProvider context={context}>
+          <FlagState flag="dark_mode_v2" />
+          <PageSize />
+        </FeatureFlagProvider>
+      </StrictMode>
+    );
+
+    const { rerender } = render(tree(production));
+    expect(getEvaluationStats().dark_mode_v2.count).toBe(1);
+    expect(getEvaluationStats().search_page_size.count).toBe(1);
+
+    rerender(tree(production));
+    expect(getEvaluationStats().dark_mode_v2.count).toBe(1);
+
+    rerender(tree({ environment: "development" }));
+    expect(getEvaluationStats().dark_mode_v2.count).toBe(2);
+  });
+
+  it("does not record forced flags", () => {
+    resetEvaluationStats();
+    render(
+      <FeatureFlagTestProvider flags={{ dark_mode_v2: true }}>
+        <FlagState flag="dark_mode_v2" />
+      </FeatureFlagTestProvider>
+    );
+    expect(getEvaluationStats()).toEqual({});
+  });
+
+  it("requires a provider", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => render(<FlagState flag="export_pdf" />)).toThrow("must be used within FeatureFlagProvider");
+    vi.mocked(console.error).mockRestore();
+  });
+});
+
+describe("FeatureFlagTestProvider", () => {
+  it("forces the given flags and switches every other flag off", () => {
+    render(
+      <FeatureFlagTestProvider flags={{ dark_mode_v2: true, search_page_size: 42 }}>
+        <FlagState flag="dark_mode_v2" />
+        <FlagState flag="export_pdf" />
+        <PageSize />
+      </FeatureFlagTestProvider>
+    );
+    expect(screen.getByText("dark_mode_v2: on")).toBeInTheDocument();
+    expect(screen.getByText("export_pdf: off")).toBeInTheDocument();
+    expect(screen.getByText("page size 42")).toBeInTheDocument();
+  });
+
+  it("evaluates the other flags normally when not isolated", () => {
+    render(
+      <FeatureFlagTestProvider flags={{ export_pdf: false }} isolated={false} context={{ environment: "development" }}>
+        <FlagState flag="dark_mode_v2" />
+        <FlagState flag="export_pdf" />
+      </FeatureFlagTestProvider>
+    );
+    expect(screen.getByText("dark_mode_v2: on")).toBeInTheDocument();
+    expect(screen.getByText("export_pdf: off")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDependencyGraph,
+  findPrerequisiteCycles,
+  getDependents,
+  validatePrerequisites,
+  type DependencyNode,
+} from "@/config/flagDependencies";
+import { evaluateFeatureFlag, featureFlags } from "@/config/featureFlags";
+
+const chain: DependencyNode[] = [
+  { id: "api" },
+  { id: "dashboard", prerequisites: [{ flagId: "api" }] },
+  { id: "widgets", prerequisites: [{ flagId: "dashboard" }, { flagId: "api" }] },
+  { id: "standalone" },
+];
+
+describe("findPrerequisiteCycles", () => {
+  it("finds direct and indirect cycles", () => {
+    expect(findPrerequisiteCycles([{ id: "a", prerequisites: [{ flagId: "a" }] }])).toEqual([["a", "a"]]);
+    expect(findPrerequisiteCycles([
+      { id: "a", prerequisites: [{ flagId: "b" }] },
+      { id: "b", prerequisites: [{ flagId: "c" }] },
+      { id: "c", prerequisites: [{ flagId: "a" }] },
+    ])).toEqual([["a", "b", "c", "a"]]);
+  });
+
+  it("accepts diamonds without cycles", () => {
+    expect(findPrerequisiteCycles(chain)).toEqual([]);
+  });
+});
+
+describe("validatePrerequisites", () => {
+  it("reports unknown flags, unknown variations and cycles", () => {
+    expect(validatePrerequisites([
+      { id: "copy", variations: { values: { control: "Paga" } } },
+      { id: "a", prerequisites: [{ flagId: "ghost" }, { flagId: "copy", variation: "urgency" }] },
+      { id: "b", prerequisites: [{ flagId: "c" }] },
+      { id: "c", prerequisites: [{ flagId: "b" }] },
+    ])).toEqual([
+      'a: prerequisito "ghost" inesistente',
+      'a: il prerequisito copy non ha la variante "urgency"',
+      "ciclo di prerequisiti: b → c → b",
+    ]);
+  });
+
+  it("accepts the built-in registry", () => {
+    expect(validatePrerequisites(featureFlags)).toEqual([]);
+  });
+});
+
+describe("getDependents", () => {
+  it("returns direct and transitive dependents once", () => {
+    expect(getDependents("api", chain)).toEqual(["dashboard", "widgets"]);
+    expect(getDependents("standalone", chain)).toEqual([]);
+  });
+});
+
+describe("buildDependencyGraph", () => {
+  it("places each flag after its longest prerequisite chain", () => {
+    const graph = buildDependencyGraph(chain);
+    expect(graph.levels).toEqual([["api"], ["dashboard"], ["widgets"]]);
+    expect(graph.edges).toContainEqual({ from: "dashboard", to: "widgets", variation: undefined });
+  });
+});
+
+describe("evaluateFeatureFlag with prerequisites", () => {
+  const context = { environment: "staging" };
+
+  it("turns beta_api_v2 off when new_dashboard is off", () => {
+    expect(evaluateFeatureFlag("beta_api_v2", { ...context, overrides: { new_dashboard: false } })).toMatchObject({
+      enabled: false,
+      reason: "prerequisite",
+      prerequisite: { flagId: "new_dashboard" },
+    });
+  });
+
+  it("follows new_dashboard for the same user", () => {
+    const users = Array.from({ length: 200 }, (_, index) => `user-${index}`);
+    users.forEach(userKey => {
+      const dashboard = evaluateFeatureFlag("new_dashboard", { ...context, userKey }).enabled;
+      const api = evaluateFeatureFlag("beta_api_v2", { ...context, userKey });
+      if (!dashboard) expect(api.reason).toBe("prerequisite");
+      else expect(api.reason).not.toBe("prerequisite");
+    });
+  });
+});
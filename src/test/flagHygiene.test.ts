@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { featureFlags, type FeatureFlag } from "@/config/featureFlags";
+import {
+  DYNAMIC_FLAG_ID,
+  FLAG_REFERENCES_PATH,
+  createHygieneReport,
+  findFlagReferences,
+  fullyRolledOutSince,
+  isFlagSourceFile,
+  renderFlagReferences,
+  scanFlagReferences,
+} from "@/config/flagHygiene";
+
+const now = new Date("2025-06-01T00:00:00Z");
+
+const flag = (overrides: Partial<FeatureFlag>): FeatureFlag => ({
+  id: "demo",
+  name: "Demo",
+  description: "",
+  enabled: { development: true, production: true },
+  metadata: { owner: "Team Demo", createdAt: "2025-01-01" },
+  ...overrides,
+});
+
+describe("findFlagReferences", () => {
+  it("finds literal ids with file, line and column", () => {
+    const code = [
+      "const a = isFeatureEnabled('new_dashboard');",
+      "  if (getFlagValue<Copy>(\"checkout_button_copy\", fallback)) {}",
+    ].join("\n");
+    expect(findFlagReferences(code, "src/demo.ts")).toEqual([
+      { flagId: "new_dashboard", file: "src/demo.ts", line: 1, column: 11, call: "isFeatureEnabled" },
+      { flagId: "checkout_button_copy", file: "src/demo.ts", line: 2, column: 7, call: "getFlagValue" },
+    ]);
+  });
+
+  it("marks ids that are not string literals as dynamic", () => {
+    const code = [
+      "evaluateFeatureFlag(flag.id);",
+      "isFeatureEnabled(FLAG_ID, context);",
+      "useFeatureFlag(`beta_${area}`);",
+      "useFeatureFlag(`plain_template`);",
+      "<Feature flag={current}>",
+    ].join("\n");
+    expect(findFlagReferences(code, "a.tsx").map(reference => [reference.flagId, reference.expression])).toEqual([
+      [DYNAMIC_FLAG_ID, "flag.id"],
+      [DYNAMIC_FLAG_ID, "FLAG_ID"],
+      [DYNAMIC_FLAG_ID, "`beta_${area}`"],
+      ["plain_template", undefined],
+      [DYNAMIC_FLAG_ID, "current"],
+    ]);
+  });
+
+  it("finds hooks and the Feature component", () => {
+    const code = [
+      "const copy = useFlagValue('checkout_button_copy', fallback);",
+      "<Feature",
+      "  flag=\"export_pdf\">",
+    ].join("\n");
+    expect(findFlagReferences(code, "a.tsx").map(reference => [reference.flagId, reference.line, reference.call])).toEqual([
+      ["checkout_button_copy", 1, "useFlagValue"],
+      ["export_pdf", 2, "Feature"],
+    ]);
+  });
+
+  it("ignores calls inside comments but not inside strings with slashes", () => {
+    const code = [
+      "// isFeatureEnabled('commented')",
+      "/* isFeatureEnabled('block') */ const url = 'http://example.com';",
+      "isFeatureEnabled('real');",
+    ].join("\n");
+    expect(findFlagReferences(code, "a.ts").map(reference => [reference.flagId, reference.line])).toEqual([["real", 3]]);
+  });
+
+  it("skips tests and generated files", () => {
+    expect(isFlagSourceFile("src/pages/Index.tsx")).toBe(true);
+    expect(isFlagSourceFile("src/test/bucketing.test.ts")).toBe(false);
+    expect(isFlagSourceFile("src/config/env.generated.ts")).toBe(false);
+    expect(isFlagSourceFile("src/vite-env.d.ts")).toBe(false);
+  });
+});
+
+describe("fullyRolledOutSince", () => {
+  it("uses the creation date or the last scheduled change", () => {
+    expect(fullyRolledOutSince(flag({}), now)?.toISOString()).toBe("2025-01-01T00:00:00.000Z");
+    const ramped = flag({
+      rolloutPercentage: 50,
+      schedule: [
+        { type: "ramp", environment: "development", at: "2025-02-01T00:00:00Z", percentage: 100 },
+        { type: "ramp", environment: "production", at: "2025-03-01T00:00:00Z", percentage: 100 },
+      ],
+    });
+    expect(fullyRolledOutSince(ramped, new Date("2025-02-15T00:00:00Z"))).toBeNull();
+    expect(fullyRolledOutSince(ramped, now)?.toISOString()).toBe("2025-03-01T00:00:00.000Z");
+  });
+
+  it("ignores flags off somewhere, partially rolled out or with excluding rules", () => {
+    expect(fullyRolledOutSince(flag({ enabled: { development: true, production: false } }), now)).toBeNull();
+    expect(fullyRolledOutSince(flag({ rules: [{ id: "no", serve: false }] }), now)).toBeNull();
+  });
+});
+
+describe("createHygieneReport", () => {
+  it("reports every kind of problem", () => {
+    const flags = [
+      flag({ id: "old", metadata: { owner: "", createdAt: "2024-01-01", expiresAt: "2025-01-01" } }),
+      flag({ id: "fresh", enabled: { production: false } }),
+    ];
+    const references = [
+      { flagId: "fresh", file: "src/a.ts", line: 1, column: 1, call: "isFeatureEnabled" },
+      { flagId: "ghost", file: "src/b.ts", line: 4, column: 2, call: "isFeatureEnabled" },
+    ];
+    const issues = createHygieneReport(flags, {
+      now,
+      references,
+      evaluations: { fresh: { count: 3, lastEvaluatedAt: now.toISOString() } },
+    });
+
+    expect(issues.map(issue => [issue.flagId, issue.kind])).toEqual([
+      ["old", "expired"],
+      ["old", "fully-rolled-out"],
+      ["old", "never-evaluated"],
+      ["old", "no-owner"],
+      ["old", "unreferenced"],
+      ["ghost", "unknown-reference"],
+    ]);
+    expect(issues[issues.length - 1].references).toEqual([references[1]]);
+  });
+
+  it("reports dynamic call sites instead of ignoring them", () => {
+    const references = [
+      { flagId: DYNAMIC_FLAG_ID, file: "src/a.ts", line: 3, column: 1, call: "isFeatureEnabled", expression: "FLAG_ID" },
+    ];
+    const issues = createHygieneReport([flag({ id: "maybe", enabled: { production: false } })], { now, references });
+
+    expect(issues.map(issue => [issue.flagId, issue.kind])).toEqual([
+      ["maybe", "unreferenced"],
+      [DYNAMIC_FLAG_ID, "dynamic-reference"],
+    ]);
+    expect(issues[0].message).toContain("chiamata dinamica");
+    expect(issues[1].references).toEqual(references);
+  });
+
+  it("respects the number of days before a full rollout is stale", () => {
+    const issues = (days: number) => createHygieneReport([flag({})], { now, fullRolloutDays: days })
+      .map(issue => issue.kind);
+    expect(issues(100)).toContain("fully-rolled-out");
+    expect(issues(200)).toEqual([]);
+  });
+});
+
+describe("generated flag references", () => {
+  const sourceFiles = () => readdirSync("src", { recursive: true, encoding: "utf-8" })
+    .map(file => path.join("src", file).split(path.sep).join("/"))
+    .filter(isFlagSourceFile)
+    .map(file => ({ file, code: readFileSync(file, "utf-8") }));
+
+  it("are up to date with src/", () => {
+    // Se fallisce: npm run scan:flags
+    expect(readFileSync(FLAG_REFERENCES_PATH, "utf-8")).toBe(renderFlagReferences(scanFlagReferences(sourceFiles())));
+  });
+
+  it("only point to flags of the registry", () => {
+    const ids = new Set(featureFlags.map(item => item.id));
+    expect(scanFlagReferences(sourceFiles()).filter(reference => !ids.has(reference.flagId))).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  applySchedule,
+  createManualClock,
+  isExpired,
+  nextFlagChange,
+  validateSchedule,
+  type ScheduledAction,
+} from "@/config/flagSchedule";
+import {
+  evaluateFeatureFlag,
+  featureFlags,
+  getAllFeatureFlags,
+  resetFlagClock,
+  setFlagClock,
+} from "@/config/featureFlags";
+
+const actions: ScheduledAction[] = [
+  { type: "disable", environment: "production", at: "2025-03-01T00:00:00Z" },
+  { type: "enable", environment: "production", at: "2025-01-01T00:00:00Z" },
+  { type: "ramp", environment: "production", at: "2025-02-01T00:00:00Z", percentage: 40 },
+  { type: "enable", environment: "staging", at: "2024-01-01T00:00:00Z" },
+];
+
+afterEach(() => {
+  resetFlagClock();
+});
+
+describe("applySchedule", () => {
+  it("applies past actions in date order on top of the registry", () => {
+    const state = applySchedule({ enabled: false, rolloutPercentage: 10 }, actions, "production", new Date("2025-02-15T00:00:00Z"));
+    expect(state).toMatchObject({ enabled: true, rolloutPercentage: 40 });
+    expect(state.applied.map(action => action.type)).toEqual(["enable", "ramp"]);
+    expect(state.upcoming.map(action => action.type)).toEqual(["disable"]);
+  });
+
+  it("ignores other environments and future actions", () => {
+    expect(applySchedule({ enabled: false }, actions, "production", new Date("2024-12-31T23:59:59Z")).enabled).toBe(false);
+    expect(applySchedule({ enabled: true }, actions, "development", new Date("2030-01-01")).applied).toEqual([]);
+  });
+});
+
+describe("nextFlagChange", () => {
+  it("returns the closest future action or expiry", () => {
+    const flags = [{ schedule: actions }, { metadata: { expiresAt: "2025-02-10" } }, {}];
+    expect(nextFlagChange(flags, new Date("2025-01-15T00:00:00Z"))?.toISOString()).toBe("2025-02-01T00:00:00.000Z");
+    // Una scadenza senza ora scatta alla fine di quel giorno
+    expect(nextFlagChange(flags, new Date("2025-02-01T00:00:00Z"))?.toISOString()).toBe("2025-02-11T00:00:00.000Z");
+    expect(nextFlagChange(flags, new Date("2025-03-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("createManualClock", () => {
+  it("moves only when told to", () => {
+    const clock = createManualClock("2025-01-01T00:00:00Z");
+    expect(clock.now().toISOString()).toBe("2025-01-01T00:00:00.000Z");
+    clock.advance(60_000);
+    expect(clock.now().toISOString()).toBe("2025-01-01T00:01:00.000Z");
+    clock.set("2026-05-05T00:00:00Z");
+    expect(clock.now().getUTCFullYear()).toBe(2026);
+  });
+});
+
+describe("isExpired and validateSchedule", () => {
+  it("expires a date-only expiresAt at the end of that day (UTC)", () => {
+    expect(isExpired("2024-12-31", new Date("2024-12-31T00:00:00Z"))).toBe(false);
+    expect(isExpired("2024-12-31", new Date("2024-12-31T23:59:59.999Z"))).toBe(false);
+    expect(isExpired("2024-12-31", new Date("2025-01-01T00:00:00Z"))).toBe(true);
+    expect(isExpired(undefined, new Date())).toBe(false);
+  });
+
+  it("expires a full timestamp at that instant", () => {
+    expect(isExpired("2024-12-31T12:00:00Z", new Date("2024-12-31T11:59:59Z"))).toBe(false);
+    expect(isExpired("2024-12-31T12:00:00Z", new Date("2024-12-31T12:00:00Z"))).toBe(true);
+  });
+
+  it("reports invalid dates and percentages", () => {
+    expect(validateSchedule("demo", [
+      { type: "enable", environment: "production", at: "domani" },
+      { type: "ramp", environment: "production", at: "2025-01-01", percentage: 120 },
+    ], "mai")).toEqual([
+      'demo: "domani" non è una data valida',
+      "demo: rollout al 120% fuori dall'intervallo 0-100",
+      'demo: scadenza "mai" non è una data valida',
+    ]);
+  });
+
+  it("reports actions for environments that are not registered", () => {
+    expect(validateSchedule("demo", [
+      { type: "enable", environment: "prodution", at: "2025-01-01T00:00:00Z" },
+      { type: "disable", environment: "production", at: "2025-02-01T00:00:00Z" },
+    ])).toEqual(['demo: ambiente "prodution" non registrato']);
+  });
+});
+
+describe("scheduled flags", () => {
+  it("ramps new_dashboard in production as the clock moves", () => {
+    const clock = createManualClock("2027-01-01T00:00:00Z");
+    setFlagClock(clock);
+    const rollout = () => getAllFeatureFlags({ environment: "production" })
+      .find(flag => flag.id === "new_dashboard")?.state.rolloutPercentage;
+
+    expect(rollout()).toBe(50);
+    clock.set("2027-01-15T09:00:00Z");
+    expect(rollout()).toBe(75);
+    clock.set("2027-02-01T09:00:00Z");
+    expect(rollout()).toBe(100);
+    expect(evaluateFeatureFlag("new_dashboard", { environment: "production", userKey: "user-1" }).reason).toBe("default");
+  });
+
+  it("turns beta_api_v2 on in production at the scheduled time", () => {
+    const clock = createManualClock("2027-02-28T23:00:00Z");
+    setFlagClock(clock);
+    expect(evaluateFeatureFlag("beta_api_v2", { environment: "production" }).reason).toBe("environment-off");
+    clock.advance(8 * 60 * 60 * 1000);
+    expect(evaluateFeatureFlag("beta_api_v2", { environment: "production" }).reason).not.toBe("environment-off");
+  });
+});
+
+describe("expiry policy", () => {
+  const aiSuggestions = featureFlags.find(flag => flag.id === "ai_suggestions");
+  const metadata = aiSuggestions?.metadata;
+
+  afterEach(() => {
+    if (aiSuggestions) aiSuggestions.metadata = metadata;
+  });
+
+  it("switches ai_suggestions off after it expired", () => {
+    const context = { environment: "development", attributes: { plan: "pro", betaTester: true } };
+    expect(evaluateFeatureFlag("ai_suggestions", { ...context, now: new Date("2024-12-30") }).enabled).toBe(true);
+    expect(evaluateFeatureFlag("ai_suggestions", { ...context, now: new Date("2025-01-02") })).toMatchObject({
+      enabled: false,
+      reason: "expired",
+    });
+  });
+
+  it("keeps evaluating with the warn policy and warns once", () => {
+    if (!aiSuggestions || !metadata) throw new Error("ai_suggestions mancante");
+    aiSuggestions.metadata = { ...metadata, expiryPolicy: "warn" };
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const context = { environment: "development", attributes: { plan: "free" }, now: new Date("2025-01-02") };
+
+    expect(evaluateFeatureFlag("ai_suggestions", context)).toMatchObject({ enabled: false, reason: "rule" });
+    evaluateFeatureFlag("ai_suggestions", context);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("ignores targeting with the default policy", () => {
+    if (!aiSuggestions || !metadata) throw new Error("ai_suggestions mancante");
+    aiSuggestions.metadata = { ...metadata, expiryPolicy: "default" };
+    const context = { environment: "development", attributes: { plan: "free" }, now: new Date("2025-01-02") };
+
+    expect(evaluateFeatureFlag("ai_suggestions", context)).toMatchObject({ enabled: true, reason: "expired" });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendSample,
+  checkScheme,
+  healthEndpoint,
+  percentile,
+  probeHealth,
+  summarizeHealth,
+  type HealthSample,
+} from "@/config/healthCheck";
+import { createMockBackend, createMockFetch, mockHealthUrl, mockOutageUrl } from "@/config/mockBackend";
+
+// Orologio finto: il ritardo simulato dal backend mock lo fa avanzare
+const setup = (random = () => 0) => {
+  let clock = 0;
+  const backend = createMockBackend({ random });
+  const fetcher = createMockFetch(backend, {
+    wait: async ms => {
+      clock += ms;
+    },
+  });
+  const probe = (env: string) => probeHealth(mockHealthUrl(env), { fetcher, now: () => clock });
+  return { backend, fetcher, probe };
+};
+
+const sample = (ok: boolean, latencyMs: number): HealthSample => ({
+  timestamp: 0, ok, httpStatus: ok ? 200 : 503, latencyMs,
+});
+
+describe("probeHealth against the mock backend", () => {
+  it("measures latency of a healthy environment", async () => {
+    const { probe } = setup();
+    expect(await probe("production")).toMatchObject({ ok: true, httpStatus: 200, latencyMs: 15 });
+  });
+
+  it("reports simulated outages", async () => {
+    const { backend, probe } = setup();
+
+    backend.setOutage("staging", "down");
+    expect(await probe("staging")).toMatchObject({ ok: false, httpStatus: 503, error: "HTTP 503" });
+
+    backend.setOutage("staging", "slow");
+    expect((await probe("staging")).latencyMs).toBeGreaterThan(500);
+
+    // Le altre istanze non ne risentono
+    expect((await probe("production")).ok).toBe(true);
+  });
+
+  it("switches outages through the HTTP endpoint", async () => {
+    const { backend, fetcher } = setup();
+    const post = (body: unknown) =>
+      fetcher(mockOutageUrl("qa"), { method: "POST", body: JSON.stringify(body) });
+
+    expect((await post({ outage: "flaky" })).status).toBe(200);
+    expect(backend.getOutage("qa")).toBe("flaky");
+    expect((await post({ outage: "broken" })).status).toBe(400);
+  });
+
+  it("rejects malformed percent-encoding with 400", () => {
+    const { backend } = setup();
+    expect(backend.handle("GET", "/health/%E0").status).toBe(400);
+    expect(backend.handle("GET", "/%E0/health").status).toBe(400);
+  });
+
+  it("turns network errors into failed samples", async () => {
+    const fetcher = (async () => {
+      throw new TypeError("Failed to fetch");
+    }) as unknown as typeof fetch;
+    expect(await probeHealth("https://api.example.com/health", { fetcher })).toMatchObject({
+      ok: false, httpStatus: null, error: "Failed to fetch",
+    });
+  });
+});
+
+describe("health summary", () => {
+  it("computes nearest-rank percentiles", () => {
+    const values = Array.from({ length: 100 }, (_, index) => index + 1);
+    expect(percentile(values, 50)).toBe(50);
+    expect(percentile(values, 95)).toBe(95);
+    expect(percentile(values, 99)).toBe(99);
+    expect(percentile([42], 99)).toBe(42);
+  });
+
+  it("derives status and uptime from the history", () => {
+    expect(summarizeHealth([]).status).toBe("unknown");
+
+    const healthy = Array.from({ length: 10 }, () => sample(true, 20));
+    expect(summarizeHealth(healthy)).toMatchObject({ status: "up", uptime: 100, latency: { p50: 20 } });
+
+    expect(summarizeHealth([...healthy, sample(false, 5)])).toMatchObject({ status: "down", uptime: 90.9 });
+    expect(summarizeHealth([...healthy, sample(false, 5), sample(true, 20)]).status).toBe("degraded");
+    expect(summarizeHealth([...healthy, sample(true, 900)]).status).toBe("degraded");
+
+    // Dopo abbastanza controlli riusciti un disservizio passato pesa solo sull'uptime
+    const recovered = summarizeHealth([sample(false, 5), ...healthy]);
+    expect(recovered.status).toBe("up");
+    expect(recovered.uptime).toBe(90.9);
+  });
+
+  it("keeps a bounded history", () => {
+    const history = Array.from({ length: 5 }, (_, index) => sample(true, index));
+    expect(appendSample(history, sample(true, 99), 5).map(item => item.latencyMs)).toEqual([1, 2, 3, 4, 99]);
+  });
+});
+
+describe("checkScheme", () => {
+  it("flags plain http towards remote hosts only", () => {
+    expect(checkScheme("https://api.example.com")).toEqual({ scheme: "https", secure: true, local: false });
+    expect(checkScheme("http://localhost:3000/api").warning).toBeUndefined();
+    expect(checkScheme("http://api.example.com").warning).toContain("non è cifrato");
+    expect(checkScheme("not a url").scheme).toBe("invalido");
+    expect(healthEndpoint("https://api.example.com/")).toBe("https://api.example.com/health");
+  });
+});
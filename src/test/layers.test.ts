@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { resolveLayerChain, resolveLayers, type ConfigLayer } from "@/config/layers";
+import { configProvenance, configs, redundantOverrides } from "@/config/environment";
+
+const layers: Record<string, ConfigLayer> = {
+  base: { values: { logLevel: "info", features: { analytics: true, errorReporting: true } } },
+  staging: { extends: "base", values: { apiUrl: "https://staging.example.com", debugMode: true } },
+  production: {
+    extends: "staging",
+    values: { apiUrl: "https://example.com", debugMode: false, features: { analytics: true } },
+  },
+};
+
+describe("resolveLayerChain", () => {
+  it("walks from the root layer down to the requested one", () => {
+    expect(resolveLayerChain(layers, "production")).toEqual(["base", "staging", "production"]);
+  });
+
+  it("rejects missing parents and cycles", () => {
+    expect(() => resolveLayerChain({ a: { extends: "ghost", values: {} } }, "a")).toThrow(/ghost/);
+    expect(() =>
+      resolveLayerChain({ a: { extends: "b", values: {} }, b: { extends: "a", values: {} } }, "a")
+    ).toThrow(/Ciclo/);
+  });
+});
+
+describe("resolveLayers", () => {
+  it("deep-merges layers and records the winning layer per key", () => {
+    const resolved = resolveLayers(layers, "production");
+
+    expect(resolved.values).toEqual({
+      logLevel: "info",
+      apiUrl: "https://example.com",
+      debugMode: false,
+      features: { analytics: true, errorReporting: true },
+    });
+    expect(resolved.provenance).toEqual({
+      logLevel: "base",
+      "features.analytics": "base",
+      "features.errorReporting": "base",
+      apiUrl: "production",
+      debugMode: "production",
+    });
+  });
+
+  it("flags overrides identical to the inherited value", () => {
+    expect(resolveLayers(layers, "production").redundant).toEqual([
+      { layer: "production", path: "features.analytics", value: true, inheritedFrom: "base" },
+    ]);
+  });
+});
+
+describe("shipped layers", () => {
+  it("resolve to the expected production config", () => {
+    expect(configs.production).toMatchObject({
+      apiUrl: "https://api.example.com",
+      debugMode: false,
+      logLevel: "error",
+      features: { analytics: true, errorReporting: true, experimentalFeatures: false },
+    });
+    expect(configProvenance.canary.debugMode).toBe("production");
+  });
+
+  it("contain no redundant overrides", () => {
+    expect(redundantOverrides).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { checkClientExposure, checkExposedVariable } from "@/config/leakCheck";
+import type { Secret } from "@/config/secrets";
+
+const store: Secret[] = [
+  {
+    key: "INTERNAL_TOKEN",
+    label: "Internal",
+    category: "auth",
+    values: { production: "internal-value-123" },
+    isPublic: false,
+    description: "",
+  },
+  {
+    key: "MAPS_KEY",
+    label: "Maps",
+    category: "api",
+    values: { production: "maps-public-123" },
+    isPublic: true,
+    description: "",
+  },
+];
+
+describe("checkClientExposure", () => {
+  it("ignores variables that never reach the client", () => {
+    expect(checkClientExposure({ DB_PASSWORD: "x", STRIPE_SECRET_KEY: "sk_live_abc" })).toEqual([]);
+  });
+
+  it("flags registry secrets by name and by value", () => {
+    const findings = checkClientExposure(
+      { VITE_INTERNAL_TOKEN: "whatever", VITE_COPY: "internal-value-123", VITE_MAPS_KEY: "maps-public-123" },
+      { secrets: store }
+    );
+    expect(findings.map(finding => [finding.key, finding.severity])).toEqual([
+      ["VITE_COPY", "critical"],
+      ["VITE_INTERNAL_TOKEN", "critical"],
+    ]);
+    expect(findings[0].matches[0].message).toMatch(/INTERNAL_TOKEN/);
+  });
+
+  it("recognises secret-looking values", () => {
+    expect(checkExposedVariable("VITE_PAYMENTS", "sk_live_51HG8k2E")?.severity).toBe("critical");
+    expect(checkExposedVariable("VITE_PAYMENTS", "sk_test_51HG8k2E")?.severity).toBe("warning");
+    expect(checkExposedVariable("VITE_DB", "postgres://app:hunter2@db:5432/app")?.matches[0].message).toMatch(/credenziali/);
+    expect(checkExposedVariable("VITE_DB", "postgres://db:5432/app")).toBeNull();
+  });
+
+  it("uses name heuristics, skipping names declared public", () => {
+    expect(checkExposedVariable("VITE_ADMIN_PASSWORD", "x")?.severity).toBe("critical");
+    expect(checkExposedVariable("VITE_AUTH_TOKEN", "x")?.severity).toBe("warning");
+    expect(checkExposedVariable("VITE_MAPS_API_KEY", "x")?.severity).toBe("info");
+    expect(checkExposedVariable("VITE_STRIPE_PUBLISHABLE_KEY", "pk_live_123")).toBeNull();
+  });
+
+  it("honours a custom envPrefix and sorts by severity", () => {
+    const findings = checkClientExposure(
+      { PUBLIC_TOKEN_X: "x", PUBLIC_SECRET: "x", VITE_SECRET: "x" },
+      { envPrefix: "PUBLIC_" }
+    );
+    expect(findings.map(finding => finding.key)).toEqual(["PUBLIC_SECRET", "PUBLIC_TOKEN_X"]);
+  });
+});
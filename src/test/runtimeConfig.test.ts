@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+import { configs } from "@/config/environment";
+import { applyRuntimeConfig, loadRuntimeConfig, mergeRuntimeConfig, WINDOW_ENV_SOURCE } from "@/config/runtimeConfig";
+import { ConfigValidationError } from "@/config/schema";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+describe("mergeRuntimeConfig", () => {
+  it("overrides only the keys present in the payload", () => {
+    const merged = mergeRuntimeConfig(configs.staging, { apiUrl: "https://edge.example.com", features: { analytics: false } });
+
+    expect(merged.apiUrl).toBe("https://edge.example.com");
+    expect(merged.features).toEqual({ ...configs.staging.features, analytics: false });
+    expect(merged.logLevel).toBe(configs.staging.logLevel);
+  });
+});
+
+describe("applyRuntimeConfig", () => {
+  it("targets the environment named in the payload, falling back to the build one", () => {
+    expect(applyRuntimeConfig({ name: "production" }, "test", "staging").environment).toBe("production");
+    expect(applyRuntimeConfig({ logLevel: "warn" }, "test", "staging")).toMatchObject({
+      environment: "staging",
+      config: { ...configs.staging, logLevel: "warn" },
+    });
+  });
+
+  it("rejects payloads that break the schema", () => {
+    expect(() => applyRuntimeConfig([], "test")).toThrow(ConfigValidationError);
+    expect(() => applyRuntimeConfig({ name: "moon" }, "test")).toThrow(/moon/);
+
+    try {
+      applyRuntimeConfig({ apiUrl: "not-a-url", debugMode: "yes", apiURL: "x" }, "test", "staging");
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ConfigValidationError).issues.map(issue => issue.path)).toEqual(["apiUrl", "debugMode", "apiURL"]);
+    }
+  });
+});
+
+describe("loadRuntimeConfig", () => {
+  it("prefers window.__ENV__ without fetching", async () => {
+    const fetcher = vi.fn();
+    const loaded = await loadRuntimeConfig({
+      url: "/config.json",
+      fetcher,
+      windowEnv: { name: "qa" },
+    });
+
+    expect(loaded.source).toBe(WINDOW_ENV_SOURCE);
+    expect(loaded.environment).toBe("qa");
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("fetches config.json when no window object is injected", async () => {
+    const fetcher = vi.fn().mockResolvedValue(jsonResponse({ name: "staging", debugMode: false }));
+    const loaded = await loadRuntimeConfig({ url: "/config.json", fetcher, windowEnv: undefined });
+
+    expect(fetcher).toHaveBeenCalledWith("/config.json", { cache: "no-store" });
+    expect(loaded).toMatchObject({ source: "/config.json", environment: "staging", config: { debugMode: false } });
+  });
+
+  it("surfaces HTTP and parsing failures", async () => {
+    await expect(
+      loadRuntimeConfig({ url: "/config.json", fetcher: vi.fn().mockResolvedValue(jsonResponse({}, 404)), windowEnv: undefined })
+    ).rejects.toThrow(/HTTP 404/);
+    await expect(
+      loadRuntimeConfig({ url: "/config.json", fetcher: vi.fn().mockResolvedValue(new Response("<html>")), windowEnv: undefined })
+    ).rejects.toThrow(/JSON/);
+    await expect(loadRuntimeConfig({ windowEnv: undefined })).rejects.toThrow(/Nessuna sorgente/);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { ConfigValidationError, createConfigRegistry, validateConfig } from "@/config/schema";
+import { configs } from "@/config/environment";
+import { environmentIds } from "@/config/environments";
+
+describe("validateConfig", () => {
+  it("applies schema defaults to missing optional keys", () => {
+    const { config, issues } = validateConfig("test", {
+      name: "test",
+      displayName: "Test",
+      apiUrl: "https://test.example.com",
+    });
+
+    expect(issues).toEqual([]);
+    expect(config.debugMode).toBe(false);
+    expect(config.logLevel).toBe("info");
+    expect(config.features.analytics).toBe(false);
+  });
+
+  it("reports every problem with its precise path", () => {
+    const { issues } = validateConfig("broken", {
+      name: "broken",
+      apiUrl: "not-a-url",
+      logLevel: "verbose" as never,
+      features: { analytics: "yes" as never },
+    });
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      "displayName",
+      "apiUrl",
+      "logLevel",
+      "features.analytics",
+    ]);
+    expect(issues.every(issue => issue.environment === "broken")).toBe(true);
+  });
+
+  it("flags keys that are not declared in the schema", () => {
+    const { issues } = validateConfig("typo", {
+      name: "typo",
+      displayName: "Typo",
+      apiUrl: "https://typo.example.com",
+      apiURL: "https://typo.example.com",
+      features: { analitycs: true },
+    } as never);
+
+    expect(issues.map(issue => issue.path)).toEqual(["apiURL", "features.analitycs"]);
+  });
+});
+
+describe("createConfigRegistry", () => {
+  it("throws a single error listing the issues of all environments", () => {
+    const build = () =>
+      createConfigRegistry({
+        a: { name: "a", displayName: "A" },
+        b: { name: "other", displayName: "B", apiUrl: "https://b.example.com" },
+      });
+
+    expect(build).toThrow(ConfigValidationError);
+    try {
+      build();
+    } catch (error) {
+      expect((error as ConfigValidationError).issues).toEqual([
+        { environment: "a", path: "apiUrl", message: "chiave obbligatoria mancante" },
+        {
+          environment: "b",
+          path: "name",
+          message: 'il nome "other" non corrisponde alla chiave del registro',
+        },
+      ]);
+    }
+  });
+
+  it("validates the shipped registry", () => {
+    expect(Object.keys(configs)).toEqual(environmentIds);
+    expect(configs.production.debugMode).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { configs } from "@/config/environment";
+import { createChange } from "@/config/configHistory";
+import { checkFieldValue, environmentConfigSchema } from "@/config/schema";
+import {
+  findSecretReferences,
+  maskSecretValue,
+  resolveConfigSecrets,
+  resolveSecretReferences,
+  secretExportEntries,
+  validateSecretReferences,
+  type Secret,
+} from "@/config/secrets";
+
+const store: Secret[] = [
+  {
+    key: "CDN_HOST",
+    label: "CDN",
+    category: "service",
+    values: { development: "cdn.dev.example.com", production: "cdn.example.com" },
+    isPublic: true,
+    description: "Host pubblico della CDN",
+  },
+  {
+    key: "DB_PASSWORD",
+    label: "DB",
+    category: "database",
+    values: { production: "pr0d_s3cr3t" },
+    isPublic: false,
+    description: "Password del database",
+  },
+];
+
+describe("secret references", () => {
+  it("finds and resolves references per environment", () => {
+    const value = "https://${secret:CDN_HOST}/assets";
+    expect(findSecretReferences(value)).toEqual(["CDN_HOST"]);
+    expect(resolveSecretReferences(value, "production", store)).toBe("https://cdn.example.com/assets");
+    expect(resolveSecretReferences(value, "staging", store)).toBe(value);
+  });
+
+  it("resolves a whole config without touching the original", () => {
+    const raw = { ...configs.production, apiUrl: "https://${secret:CDN_HOST}" };
+    const resolved = resolveConfigSecrets(raw, "development", store);
+    expect(resolved.apiUrl).toBe("https://cdn.dev.example.com");
+    expect(resolved.features).toEqual(configs.production.features);
+    expect(raw.apiUrl).toBe("https://${secret:CDN_HOST}");
+  });
+
+  it("defers format checks until the reference is resolved", () => {
+    expect(checkFieldValue(environmentConfigSchema.apiUrl, "${secret:CDN_HOST}")).toBeNull();
+    expect(validateSecretReferences("production", { apiUrl: "${secret:CDN_HOST}" }, store)[0].message).toMatch(
+      /dopo la risoluzione/
+    );
+  });
+
+  it("rejects missing, unconfigured and non-public secrets in client-exposed keys", () => {
+    const messages = (apiUrl: string, environment = "production") =>
+      validateSecretReferences(environment, { apiUrl }, store).map(issue => issue.message);
+
+    expect(messages("https://${secret:CDN_HOST}")).toEqual([]);
+    expect(messages("https://${secret:NOPE}")[0]).toMatch(/inesistente/);
+    expect(messages("https://${secret:CDN_HOST}", "staging")[0]).toMatch(/non è configurato/);
+    expect(messages("https://admin:${secret:DB_PASSWORD}@db.example.com")[0]).toMatch(/bundle del client/);
+  });
+
+  it("blocks edits that would leak a private secret", () => {
+    expect(() =>
+      createChange(configs, [], {
+        environment: "production",
+        path: "displayName",
+        value: "${secret:STRIPE_SECRET_KEY}",
+        author: "test",
+      })
+    ).toThrow(/bundle del client/);
+  });
+});
+
+describe("secret export and masking", () => {
+  it("marks only private secrets as sensitive", () => {
+    expect(secretExportEntries("production", store)).toEqual([
+      { key: "CDN_HOST", value: "cdn.example.com", secret: false },
+      { key: "DB_PASSWORD", value: "pr0d_s3cr3t", secret: true },
+    ]);
+    expect(secretExportEntries("staging", store)).toEqual([]);
+  });
+
+  it("masks all but the edges of long values", () => {
+    expect(maskSecretValue("pk_live_51HG8k2E")).toBe("pk_l••••••••8k2E");
+    expect(maskSecretValue("short")).toBe("••••••••");
+  });
+});
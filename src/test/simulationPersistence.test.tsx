@@ -0,0 +1,58 @@
+import type { ReactNode } from "react";
+import { afterEach, describe, it, expect } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { EnvironmentProvider } from "@/contexts/EnvironmentContext";
+import { resetEnvironmentResolution, setSimulatedEnvironment } from "@/config/environmentResolution";
+import { clearSimulationState, loadSimulationState } from "@/config/simulationState";
+import { useSimulationParam } from "@/hooks/use-simulation-param";
+
+type Level = "all" | "error" | "warn";
+const isLevel = (value: string): value is Level => ["all", "error", "warn"].includes(value);
+
+const LevelFilter = () => {
+  const [level] = useSimulationParam<Level>("level", "all", isLevel);
+  return <span>{`level ${level}`}</span>;
+};
+
+const renderAt = (url: string, children: ReactNode) =>
+  render(<MemoryRouter initialEntries={[url]}>{children}</MemoryRouter>);
+
+afterEach(() => {
+  cleanup();
+  clearSimulationState();
+  resetEnvironmentResolution();
+});
+
+describe("simulation state from a shared link", () => {
+  it("persists a param that arrives only through the URL", () => {
+    renderAt("/logs?level=error", <LevelFilter />);
+
+    expect(screen.getByText("level error")).toBeInTheDocument();
+    expect(loadSimulationState()).toEqual({ level: "error" });
+  });
+
+  it("ignores invalid values and does not store the default", () => {
+    renderAt("/logs?level=verbose", <LevelFilter />);
+    expect(screen.getByText("level all")).toBeInTheDocument();
+    expect(loadSimulationState()).toEqual({});
+
+    cleanup();
+    renderAt("/logs?level=all", <LevelFilter />);
+    expect(loadSimulationState()).toEqual({});
+  });
+
+  it("persists the environment already read from the URL at load", () => {
+    // Come fa EnvironmentContext al caricamento del modulo leggendo ?env=
+    setSimulatedEnvironment("production");
+    renderAt(
+      "/logs?env=production&level=error",
+      <EnvironmentProvider>
+        <LevelFilter />
+      </EnvironmentProvider>
+    );
+
+    expect(screen.getByText("level error")).toBeInTheDocument();
+    expect(loadSimulationState()).toEqual({ env: "production", level: "error" });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  clearSimulationParams,
+  clearSimulationState,
+  loadSimulationState,
+  readSimulationState,
+  saveSimulationState,
+  writeSimulationState,
+} from "@/config/simulationState";
+
+const createStorage = () => {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, value),
+    removeItem: (key: string) => void store.delete(key),
+  };
+};
+
+describe("query params", () => {
+  it("reads only known params and drops unknown environments", () => {
+    expect(readSimulationState("?env=production&level=error&utm=x")).toEqual({ env: "production", level: "error" });
+    expect(readSimulationState("?env=moon&experiment=checkout-button")).toEqual({ experiment: "checkout-button" });
+  });
+
+  it("updates params without touching the others", () => {
+    const params = writeSimulationState("?env=staging&level=warn&tab=2", { env: "production", level: undefined });
+
+    expect(params.toString()).toBe("env=production&tab=2");
+    expect(clearSimulationParams("?env=qa&category=auth&tab=2").toString()).toBe("tab=2");
+  });
+});
+
+describe("storage", () => {
+  it("merges saved state and clears it on reset", () => {
+    const storage = createStorage();
+
+    saveSimulationState({ env: "qa", level: "error" }, storage);
+    saveSimulationState({ level: undefined, experiment: "pricing-display" }, storage);
+    expect(loadSimulationState(storage)).toEqual({ env: "qa", experiment: "pricing-display" });
+
+    clearSimulationState(storage);
+    expect(loadSimulationState(storage)).toEqual({});
+  });
+
+  it("ignores corrupted data", () => {
+    const storage = createStorage();
+    storage.setItem("environment-manager:simulation", "[oops");
+
+    expect(loadSimulationState(storage)).toEqual({});
+  });
+});
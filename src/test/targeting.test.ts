@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareSemver,
+  describeRule,
+  findMatchingRule,
+  matchesCondition,
+  validateTargetingRules,
+  type Segment,
+  type TargetingRule,
+} from "@/config/targeting";
+import { evaluateFeatureFlag } from "@/config/featureFlags";
+
+describe("compareSemver", () => {
+  it("orders versions numerically", () => {
+    expect(compareSemver("2.0.0", "1.9.9")).toBeGreaterThan(0);
+    expect(compareSemver("1.10.0", "1.9.0")).toBeGreaterThan(0);
+    expect(compareSemver("v1.2.3", "1.2.3")).toBe(0);
+  });
+
+  it("puts prereleases before the release", () => {
+    expect(compareSemver("2.0.0-beta.1", "2.0.0")).toBeLessThan(0);
+    expect(compareSemver("2.0.0-beta.2", "2.0.0-beta.10")).toBeLessThan(0);
+  });
+
+  it("returns null for invalid versions", () => {
+    expect(compareSemver("latest", "1.0.0")).toBeNull();
+  });
+});
+
+describe("matchesCondition", () => {
+  const input = {
+    attributes: { country: "IT", plan: "pro", email: "Ada@Example.com", appVersion: "1.4.0", signupDate: "2024-05-10" },
+    now: new Date("2024-06-01T00:00:00Z"),
+  };
+
+  it("supports every operator", () => {
+    expect(matchesCondition({ attribute: "country", operator: "in", values: ["IT", "FR"] }, input)).toBe(true);
+    expect(matchesCondition({ attribute: "plan", operator: "not-in", values: ["free"] }, input)).toBe(true);
+    expect(matchesCondition({ attribute: "appVersion", operator: "semver-lt", values: ["2.0.0"] }, input)).toBe(true);
+    expect(matchesCondition({ attribute: "appVersion", operator: "semver-gte", values: ["2.0.0"] }, input)).toBe(false);
+    expect(matchesCondition({ attribute: "email", operator: "matches", values: ["@Example\\.com$"] }, input)).toBe(true);
+    expect(matchesCondition({ attribute: "signupDate", operator: "after", values: ["2024-03-01"] }, input)).toBe(true);
+    expect(matchesCondition({ attribute: "now", operator: "before", values: ["2024-07-01"] }, input)).toBe(true);
+  });
+
+  it("derives the lowercase email domain", () => {
+    expect(matchesCondition({ attribute: "emailDomain", operator: "in", values: ["example.com"] }, input)).toBe(true);
+  });
+
+  it("never matches a missing attribute, not even with not-in", () => {
+    expect(matchesCondition({ attribute: "plan", operator: "not-in", values: ["pro"] }, {})).toBe(false);
+    expect(matchesCondition({ attribute: "emailDomain", operator: "in", values: ["example.com"] }, {})).toBe(false);
+  });
+});
+
+describe("findMatchingRule", () => {
+  const registry: Segment[] = [
+    { id: "italians", name: "Italiani", description: "", conditions: [{ attribute: "country", operator: "in", values: ["IT"] }] },
+  ];
+  const rules: TargetingRule[] = [
+    { id: "italian-pros", segments: ["italians"], conditions: [{ attribute: "plan", operator: "in", values: ["pro"] }], serve: true },
+    { id: "italians", segments: ["italians"], serve: false },
+    { id: "everyone", serve: true },
+  ];
+
+  it("returns the first rule that matches", () => {
+    expect(findMatchingRule(rules, { attributes: { country: "IT", plan: "pro" } }, registry)?.id).toBe("italian-pros");
+    expect(findMatchingRule(rules, { attributes: { country: "IT", plan: "free" } }, registry)?.id).toBe("italians");
+    expect(findMatchingRule(rules, { attributes: { country: "FR" } }, registry)?.id).toBe("everyone");
+  });
+
+  it("treats an unknown segment as not matching", () => {
+    expect(findMatchingRule([{ id: "ghost", segments: ["ghost"], serve: true }], {}, registry)).toBeUndefined();
+  });
+});
+
+describe("validateTargetingRules", () => {
+  it("reports unknown segments and invalid values", () => {
+    const issues = validateTargetingRules("demo", [
+      { id: "a", segments: ["ghost"], serve: true },
+      { id: "b", conditions: [{ attribute: "email", operator: "matches", values: ["(unclosed"] }], serve: true },
+      { id: "c", conditions: [{ attribute: "appVersion", operator: "semver-gte", values: ["two"] }], serve: true },
+      { id: "d", conditions: [{ attribute: "signupDate", operator: "after", values: ["ieri"] }], serve: true },
+      { id: "e", conditions: [{ attribute: "plan", operator: "in", values: [] }], serve: true },
+    ], []);
+    expect(issues).toHaveLength(5);
+    expect(issues[0]).toBe('demo/a: segmento "ghost" inesistente');
+  });
+
+  it("checks the conditions of the referenced segments", () => {
+    const registry: Segment[] = [
+      { id: "broken", name: "Rotto", description: "", conditions: [
+        { attribute: "email", operator: "matches", values: ["(unclosed"] },
+        { attribute: "appVersion", operator: "semver-lt", values: ["latest"] },
+      ] },
+      { id: "unused", name: "Non usato", description: "", conditions: [{ attribute: "signupDate", operator: "after", values: ["ieri"] }] },
+    ];
+    const issues = validateTargetingRules("demo", [
+      { id: "a", segments: ["broken"], serve: true },
+      { id: "b", segments: ["broken"], serve: false },
+    ], registry);
+    expect(issues).toEqual([
+      "demo/segmento broken: regex non valida /(unclosed/",
+      'demo/segmento broken: "latest" non è una versione semver',
+    ]);
+  });
+
+  it("accepts the rules of the built-in flags", () => {
+    expect(validateTargetingRules("ok", [{ id: "staff", segments: ["internal_staff"], serve: true }])).toEqual([]);
+  });
+});
+
+describe("describeRule", () => {
+  it("reads like a sentence", () => {
+    expect(describeRule({
+      id: "paying-beta",
+      segments: ["beta_testers"],
+      conditions: [{ attribute: "plan", operator: "in", values: ["pro", "enterprise"] }],
+      serve: true,
+    })).toBe("Se segmento «Beta tester» e piano è uno tra pro, enterprise → attivo");
+    expect(describeRule({ id: "off", serve: false })).toBe("Sempre → disattivo");
+  });
+});
+
+describe("evaluateFeatureFlag", () => {
+  // Prima delle azioni programmate in produzione
+  const now = new Date("2026-01-01T00:00:00Z");
+
+  it("explains why a flag is on or off", () => {
+    expect(evaluateFeatureFlag("new_dashboard", {
+      environment: "production",
+      attributes: { email: "ada@example.com", appVersion: "1.0.0" },
+    })).toMatchObject({ enabled: true, reason: "rule", rule: { id: "staff" } });
+
+    expect(evaluateFeatureFlag("new_dashboard", {
+      environment: "production",
+      attributes: { appVersion: "1.9.0", plan: "enterprise" },
+    })).toMatchObject({ enabled: false, reason: "rule", rule: { id: "legacy-app" } });
+
+    expect(evaluateFeatureFlag("new_dashboard", { environment: "production", userKey: "user-1", now }).reason).toBe("rollout");
+    expect(evaluateFeatureFlag("beta_api_v2", { environment: "production", now }).reason).toBe("environment-off");
+    expect(evaluateFeatureFlag("export_pdf", { environment: "production" }).reason).toBe("default");
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { BUCKET_COUNT } from "@/config/bucketing";
+import { defineVariations, pickWeightedVariation, validateVariations } from "@/config/variations";
+import { evaluateFlagValue, getFlagValue } from "@/config/featureFlags";
+
+describe("pickWeightedVariation", () => {
+  it("walks the weights in order", () => {
+    const weights = { a: 30, b: 70 };
+    expect(pickWeightedVariation(0, weights)).toBe("a");
+    expect(pickWeightedVariation(2999, weights)).toBe("a");
+    expect(pickWeightedVariation(3000, weights)).toBe("b");
+    expect(pickWeightedVariation(BUCKET_COUNT - 1, weights)).toBe("b");
+  });
+
+  it("skips zero weights and returns undefined past the total", () => {
+    expect(pickWeightedVariation(0, { a: 0, b: 100 })).toBe("b");
+    expect(pickWeightedVariation(9000, { a: 50 })).toBeUndefined();
+  });
+});
+
+describe("validateVariations", () => {
+  const copy = defineVariations({
+    schema: z.object({ label: z.string().max(10) }),
+    values: { short: { label: "Paga" }, long: { label: "Un testo decisamente troppo lungo" } },
+    defaults: { production: "missing" },
+    distribution: { staging: { short: 60, ghost: 30 } },
+  });
+
+  it("reports invalid payloads, unknown variations and bad weights", () => {
+    const issues = validateVariations("copy", copy);
+    expect(issues).toEqual([
+      expect.stringMatching(/^copy\/long: label - /),
+      'copy: variante "missing" inesistente (default di production)',
+      'copy: variante "ghost" inesistente (distribuzione di staging)',
+      "copy: i pesi di staging sommano a 90, non a 100",
+    ]);
+  });
+
+  it("accepts string payloads", () => {
+    const greeting = defineVariations({
+      schema: z.enum(["ciao", "salve"]),
+      values: { informal: "ciao", formal: "salve" },
+      defaults: { production: "formal" },
+    });
+    expect(validateVariations("greeting", greeting)).toEqual([]);
+  });
+});
+
+describe("getFlagValue", () => {
+  const fallback = { label: "Paga", tone: "primary", showPrice: false };
+
+  it("serves the environment default", () => {
+    expect(getFlagValue("search_page_size", 20, { environment: "development" })).toBe(50);
+    expect(evaluateFlagValue("checkout_button_copy", fallback, { environment: "staging" })).toMatchObject({
+      variation: "urgency",
+      source: "default",
+    });
+  });
+
+  it("splits users according to the distribution", () => {
+    const counts: Record<string, number> = {};
+    for (let index = 0; index < 4000; index++) {
+      const { variation, source } = evaluateFlagValue("checkout_button_copy", fallback, {
+        environment: "production",
+        userKey: `user-${index}`,
+      });
+      expect(source).toBe("distribution");
+      counts[variation ?? "none"] = (counts[variation ?? "none"] ?? 0) + 1;
+    }
+    expect(counts.control / 4000).toBeCloseTo(0.5, 1);
+    expect(counts.urgency / 4000).toBeCloseTo(0.25, 1);
+    expect(counts.price / 4000).toBeCloseTo(0.25, 1);
+  });
+
+  it("is stable for the same user", () => {
+    const context = { environment: "production", userKey: "user-7" };
+    expect(getFlagValue("checkout_button_copy", fallback, context)).toEqual(getFlagValue("checkout_button_copy", fallback, context));
+  });
+
+  it("falls back when the flag is off or has no variations", () => {
+    expect(getFlagValue("search_page_size", 20, { environment: "unknown-env" })).toBe(20);
+    expect(evaluateFlagValue("export_pdf", "x", { environment: "production" }).source).toBe("fallback");
+  });
+});
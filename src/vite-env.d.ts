@@ -1 +1,3 @@
 /// <reference types="vite/client" />
+
+// Le variabili VITE_* dell'app sono dichiarate in src/config/env.generated.ts
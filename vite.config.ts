@@ -2,6 +2,9 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { envCheckPlugin } from "./plugins/vite-plugin-env-check";
+import { envManifestPlugin } from "./plugins/vite-plugin-env-manifest";
+import { mockBackendPlugin } from "./plugins/vite-plugin-mock-backend";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,10 +12,11 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
     hmr: {
-      overlay: false,
+      // Il plugin env-check mostra qui le variabili non valide
+      overlay: true,
     },
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), envCheckPlugin(), envManifestPlugin(), mockBackendPlugin(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),